@@ -0,0 +1,67 @@
+import { Card } from './ui/card';
+import { Badge } from './ui/badge';
+import type { AiCategoryKey, AiCategoryVote, AiEnsemble } from '@/types/analysis';
+
+interface AiAgreementDetailsProps {
+  ensemble: AiEnsemble;
+}
+
+const CATEGORY_LABELS: Record<AiCategoryKey, string> = {
+  clonedRegions: 'Cloned Regions',
+  lightingInconsistencies: 'Lighting',
+  pixelManipulation: 'Pixel Manipulation',
+  fontInconsistencies: 'Fonts',
+  colorAnomalies: 'Color',
+  artificialElements: 'Artificial Elements',
+};
+
+const getVerdict = (vote: AiCategoryVote) => {
+  if (vote.accepted) return { label: 'Flagged', variant: 'destructive' as const };
+  if (vote.flagged > 0) return { label: 'Unsure', variant: 'outline' as const };
+  return { label: 'Clear', variant: 'outline' as const };
+};
+
+export const AiAgreementDetails = ({ ensemble }: AiAgreementDetailsProps) => {
+  const succeeded = ensemble.passes.filter((pass) => pass.status.status !== 'failed').length;
+  const models = [...new Set(ensemble.passes.map((pass) => pass.model))];
+
+  return (
+    <Card className="p-6 cyber-border bg-card/50 backdrop-blur">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="text-xl font-bold">AI Agreement</h3>
+        <span className="text-sm text-muted-foreground">
+          {succeeded}/{ensemble.passes.length} passes · {models.join(', ')} · threshold {Math.round(ensemble.threshold * 100)}%
+        </span>
+      </div>
+      <div className="space-y-2">
+        {ensemble.categories.map((vote) => {
+          const verdict = getVerdict(vote);
+          return (
+            <div key={vote.key} className="p-3 rounded bg-muted/30" title={vote.descriptions.join('\n')}>
+              <div className="flex items-center justify-between gap-4">
+                <span className="text-sm text-muted-foreground">{CATEGORY_LABELS[vote.key]}</span>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-foreground">
+                    {vote.flagged}/{vote.votes}
+                  </span>
+                  <Badge variant={verdict.variant} className={verdict.label === 'Unsure' ? 'text-yellow-400' : undefined}>
+                    {verdict.label}
+                  </Badge>
+                </div>
+              </div>
+              <div className="mt-2 h-1.5 rounded-full bg-muted/40 overflow-hidden">
+                <div
+                  className={`h-full ${vote.accepted ? 'bg-destructive' : 'bg-yellow-400'}`}
+                  style={{ width: `${vote.agreement * 100}%` }}
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <p className="mt-3 text-xs text-muted-foreground text-center">
+        Bars show the share of AI passes that reported each issue. Only issues at or above the threshold lower the confidence.
+      </p>
+    </Card>
+  );
+};
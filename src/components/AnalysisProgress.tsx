@@ -1,92 +1,190 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Card } from './ui/card';
+import { Badge } from './ui/badge';
+import type { AnalysisPhaseId, AnalysisProgressEvent, DetectorRunStatus } from '@/types/analysis';
 
 interface AnalysisProgressProps {
   isAnalyzing: boolean;
+  events: AnalysisProgressEvent[];
 }
 
-export const AnalysisProgress = ({ isAnalyzing }: AnalysisProgressProps) => {
-  const [currentStep, setCurrentStep] = useState(0);
+type PhaseState = 'pending' | 'running' | 'done' | 'skipped' | 'failed' | 'cached';
 
-  const steps = [
-    { label: 'Extracting EXIF metadata', duration: 1500 },
-    { label: 'Scanning for editing software', duration: 1800 },
-    { label: 'Analyzing compression artifacts', duration: 2000 },
-    { label: 'AI visual analysis in progress', duration: 3000 },
-    { label: 'Detecting cloned regions', duration: 2500 },
-    { label: 'Checking lighting consistency', duration: 2200 },
-    { label: 'Finalizing results', duration: 1000 },
-  ];
+// In pipeline order; vision and text recognition run at the same time
+const PHASES: Array<{ id: AnalysisPhaseId; label: string }> = [
+  { id: 'cache', label: 'Checking earlier analyses of this file' },
+  { id: 'forensics', label: 'Extracting metadata and editing signatures' },
+  { id: 'pixels', label: 'Analyzing compression, error levels and cloned regions' },
+  { id: 'vision', label: 'AI visual analysis' },
+  { id: 'ocr', label: 'Reading receipt text' },
+  { id: 'content', label: 'Checking transaction, layout, status bar and timestamps' },
+  { id: 'detectors', label: 'Running detectors' },
+  { id: 'history', label: 'Comparing with earlier submissions' },
+  { id: 'scoring', label: 'Scoring findings' },
+];
 
+// Phases a cache hit replaces with the stored run
+const PIPELINE_PHASES: AnalysisPhaseId[] = ['forensics', 'pixels', 'vision', 'ocr', 'content', 'detectors'];
+
+const STATE_LABELS: Partial<Record<PhaseState, string>> = {
+  skipped: 'Skipped',
+  failed: 'Failed',
+  cached: 'Cached',
+};
+
+const DETECTOR_STATUS_LABELS: Record<DetectorRunStatus, string> = {
+  ok: 'Ran',
+  skipped: 'Not applicable',
+  disabled: 'Disabled',
+  failed: 'Failed',
+};
+
+const toState = (status: string): PhaseState => {
+  if (status === 'started') return 'running';
+  if (status === 'finished') return 'done';
+  return status as PhaseState;
+};
+
+export const AnalysisProgress = ({ isAnalyzing, events }: AnalysisProgressProps) => {
+  const [now, setNow] = useState(Date.now());
+  const startedAt = useRef(new Map<AnalysisPhaseId, number>());
+
+  // Long AI calls show how long they have been running
   useEffect(() => {
     if (!isAnalyzing) {
-      setCurrentStep(0);
+      startedAt.current.clear();
       return;
     }
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isAnalyzing]);
 
-    let stepIndex = 0;
-    const progressSteps = () => {
-      if (stepIndex < steps.length - 1) {
-        setTimeout(() => {
-          stepIndex++;
-          setCurrentStep(stepIndex);
-          progressSteps();
-        }, steps[stepIndex].duration);
+  useEffect(() => {
+    for (const event of events) {
+      if (event.type === 'phase' && event.status === 'started' && !startedAt.current.has(event.phase)) {
+        startedAt.current.set(event.phase, Date.now());
       }
-    };
-
-    progressSteps();
-  }, [isAnalyzing]);
+    }
+  }, [events]);
 
   if (!isAnalyzing) return null;
 
+  const phases = new Map<AnalysisPhaseId, { state: PhaseState; detail?: string }>();
+  for (const event of events) {
+    if (event.type === 'phase') phases.set(event.phase, { state: toState(event.status), detail: event.detail });
+  }
+  const cacheHit = phases.get('cache')?.detail === 'hit';
+  const getPhase = (id: AnalysisPhaseId) =>
+    phases.get(id) ?? { state: cacheHit && PIPELINE_PHASES.includes(id) ? 'cached' as const : 'pending' as const };
+
+  const detectors = events.flatMap((event) => event.type === 'detector' ? [event] : []);
+  const earlyFindings = detectors.flatMap((event) =>
+    event.findings.filter((finding) => finding.type !== 'info').map((finding) => ({ ...finding, detector: event.detector.id }))
+  );
+
   return (
     <Card className="mt-8 p-6 cyber-border bg-card/50 backdrop-blur max-w-2xl mx-auto">
       <div className="space-y-4">
         <h3 className="text-xl font-bold text-center text-primary glow-text">
           Analyzing Screenshot
         </h3>
-        
+
         <div className="space-y-3">
-          {steps.map((step, index) => (
-            <div
-              key={index}
-              className={`flex items-center gap-3 p-3 rounded transition-all ${
-                index === currentStep
-                  ? 'bg-primary/20 cyber-border'
-                  : index < currentStep
-                  ? 'bg-muted/30'
-                  : 'bg-muted/10 opacity-50'
-              }`}
-            >
-              <div className={`flex-shrink-0 w-6 h-6 rounded-full flex items-center justify-center ${
-                index === currentStep
-                  ? 'bg-primary animate-glow-pulse'
-                  : index < currentStep
-                  ? 'bg-primary'
-                  : 'bg-muted'
-              }`}>
-                {index < currentStep ? (
-                  <svg className="w-4 h-4 text-cyber-dark" fill="currentColor" viewBox="0 0 20 20">
-                    <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                  </svg>
-                ) : index === currentStep ? (
-                  <div className="w-3 h-3 rounded-full bg-cyber-dark animate-pulse" />
-                ) : (
-                  <div className="w-2 h-2 rounded-full bg-muted-foreground" />
+          {PHASES.map((step) => {
+            const { state, detail } = getPhase(step.id);
+            const started = startedAt.current.get(step.id);
+            return (
+              <div
+                key={step.id}
+                className={`flex items-center gap-3 p-3 rounded transition-all ${
+                  state === 'running'
+                    ? 'bg-primary/20 cyber-border'
+                    : state === 'pending'
+                    ? 'bg-muted/10 opacity-50'
+                    : state === 'done' || state === 'failed'
+                    ? 'bg-muted/30'
+                    : 'bg-muted/10 opacity-60'
+                }`}
+              >
+                <div className={`flex-shrink-0 w-6 h-6 rounded-full flex items-center justify-center ${
+                  state === 'running'
+                    ? 'bg-primary animate-glow-pulse'
+                    : state === 'done'
+                    ? 'bg-primary'
+                    : state === 'failed'
+                    ? 'bg-destructive'
+                    : 'bg-muted'
+                }`}>
+                  {state === 'done' ? (
+                    <svg className="w-4 h-4 text-cyber-dark" fill="currentColor" viewBox="0 0 20 20">
+                      <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                    </svg>
+                  ) : state === 'failed' ? (
+                    <span className="text-xs font-bold text-destructive-foreground">!</span>
+                  ) : state === 'running' ? (
+                    <div className="w-3 h-3 rounded-full bg-cyber-dark animate-pulse" />
+                  ) : (
+                    <div className="w-2 h-2 rounded-full bg-muted-foreground" />
+                  )}
+                </div>
+                <span className={`flex-1 text-sm ${
+                  state === 'running'
+                    ? 'text-foreground font-semibold'
+                    : 'text-muted-foreground'
+                }`}>
+                  {step.label}
+                </span>
+                {state === 'running' && started && (
+                  <span className="text-xs font-mono text-muted-foreground">
+                    {Math.max(0, Math.floor((now - started) / 1000))}s
+                  </span>
+                )}
+                {(detail || STATE_LABELS[state]) && state !== 'running' && (
+                  <span
+                    className={`text-xs ${state === 'failed' ? 'text-destructive' : 'text-muted-foreground'} truncate max-w-[40%]`}
+                    title={detail}
+                  >
+                    {STATE_LABELS[state] ?? detail}
+                  </span>
                 )}
               </div>
-              <span className={`text-sm ${
-                index === currentStep
-                  ? 'text-foreground font-semibold'
-                  : 'text-muted-foreground'
-              }`}>
-                {step.label}
-              </span>
-            </div>
-          ))}
+            );
+          })}
         </div>
 
+        {detectors.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {detectors.map(({ detector, status, findings, error }) => (
+              <Badge
+                key={detector.id}
+                variant={status === 'failed' ? 'destructive' : 'outline'}
+                className={status === 'skipped' || status === 'disabled' ? 'opacity-50' : undefined}
+                title={error ?? DETECTOR_STATUS_LABELS[status]}
+              >
+                {detector.id}
+                {status === 'ok' && findings.length > 0 && ` · ${findings.length}`}
+                {status !== 'ok' && ` · ${DETECTOR_STATUS_LABELS[status]}`}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {earlyFindings.length > 0 && (
+          <div className="space-y-1">
+            {earlyFindings.slice(0, 5).map((finding, index) => (
+              <div key={index} className="flex items-start gap-2 p-2 rounded bg-muted/20 text-xs">
+                <span className={finding.type === 'critical' ? 'text-destructive' : 'text-yellow-400'}>
+                  {finding.code}
+                </span>
+                <span className="text-muted-foreground">{finding.message}</span>
+              </div>
+            ))}
+            {earlyFindings.length > 5 && (
+              <p className="text-xs text-muted-foreground">+{earlyFindings.length - 5} more</p>
+            )}
+          </div>
+        )}
+
         <div className="pt-4 flex items-center justify-center gap-2 text-sm text-muted-foreground">
           <div className="w-2 h-2 rounded-full bg-primary animate-pulse" />
           <div className="w-2 h-2 rounded-full bg-primary animate-pulse" style={{ animationDelay: '0.2s' }} />
@@ -0,0 +1,78 @@
+import { useState } from 'react';
+import { Card } from './ui/card';
+import type { CopyMoveResult, RegionBox } from '@/types/analysis';
+
+interface CopyMoveOverlayProps {
+  copyMove: CopyMoveResult;
+  imageUrl?: string;
+}
+
+const PAIR_COLORS = ['#ff3b6b', '#ffd23f', '#3bceff', '#b44bff', '#4bff8a'];
+
+export const CopyMoveOverlay = ({ copyMove, imageUrl }: CopyMoveOverlayProps) => {
+  const [activePair, setActivePair] = useState<number | null>(null);
+
+  // Boxes are positioned as percentages so they follow the rendered image size
+  const boxStyle = (box: RegionBox, color: string) => ({
+    left: `${(box.x / copyMove.width) * 100}%`,
+    top: `${(box.y / copyMove.height) * 100}%`,
+    width: `${(box.width / copyMove.width) * 100}%`,
+    height: `${(box.height / copyMove.height) * 100}%`,
+    borderColor: color,
+  });
+
+  return (
+    <Card className="p-6 cyber-border bg-card/50 backdrop-blur">
+      <h3 className="text-xl font-bold mb-4">Copy-Move Analysis</h3>
+
+      <div className="space-y-2 mb-4">
+        {copyMove.pairs.map((pair, index) => (
+          <button
+            key={index}
+            type="button"
+            onMouseEnter={() => setActivePair(index)}
+            onMouseLeave={() => setActivePair(null)}
+            className="w-full flex items-center justify-between p-3 rounded bg-muted/30 text-left"
+          >
+            <span className="flex items-center gap-2 text-sm text-muted-foreground">
+              <span
+                className="inline-block w-3 h-3 rounded-sm"
+                style={{ backgroundColor: PAIR_COLORS[index % PAIR_COLORS.length] }}
+              />
+              ({pair.source.x}, {pair.source.y}) → ({pair.target.x}, {pair.target.y})
+            </span>
+            <span className="text-sm text-foreground">
+              {pair.source.width}x{pair.source.height} px · {(pair.similarity * 100).toFixed(1)}%
+            </span>
+          </button>
+        ))}
+      </div>
+
+      <div className="relative mx-auto w-fit max-w-full rounded overflow-hidden bg-muted/20">
+        {imageUrl ? (
+          <img src={imageUrl} alt="Analyzed screenshot" className="block max-h-[70vh] w-auto" />
+        ) : (
+          <div
+            className="w-64 bg-cyber-dark"
+            style={{ aspectRatio: `${copyMove.width} / ${copyMove.height}` }}
+          />
+        )}
+        {copyMove.pairs.map((pair, index) => {
+          if (activePair !== null && activePair !== index) return null;
+          const color = PAIR_COLORS[index % PAIR_COLORS.length];
+          return [pair.source, pair.target].map((box, boxIndex) => (
+            <div
+              key={`${index}-${boxIndex}`}
+              className={`absolute border-2 ${boxIndex === 1 ? 'border-dashed' : ''}`}
+              style={boxStyle(box, color)}
+            />
+          ));
+        })}
+      </div>
+      <p className="mt-3 text-xs text-muted-foreground text-center">
+        Matching boxes share a color. Hover a pair to isolate it.
+        {copyMove.truncated && ' The search stopped at its time limit, so further matches may exist.'}
+      </p>
+    </Card>
+  );
+};
@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import { Card } from './ui/card';
+import { Switch } from './ui/switch';
+import { Label } from './ui/label';
+import type { ElaResult } from '@/types/analysis';
+
+interface ElaOverlayProps {
+  ela: ElaResult;
+  imageUrl?: string;
+}
+
+export const ElaOverlay = ({ ela, imageUrl }: ElaOverlayProps) => {
+  const [showOverlay, setShowOverlay] = useState(true);
+
+  const getScoreColor = () => {
+    if (ela.score >= 60) return 'text-secondary';
+    if (ela.score >= 30) return 'text-yellow-400';
+    return 'text-primary';
+  };
+
+  return (
+    <Card className="p-6 cyber-border bg-card/50 backdrop-blur">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="text-xl font-bold">Error Level Analysis</h3>
+        <div className="flex items-center gap-2">
+          <Switch id="ela-overlay" checked={showOverlay} onCheckedChange={setShowOverlay} />
+          <Label htmlFor="ela-overlay" className="text-sm text-muted-foreground">
+            Show heatmap
+          </Label>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <div className="flex items-center justify-between p-3 rounded bg-muted/30">
+          <span className="text-sm text-muted-foreground">ELA Score</span>
+          <span className={`text-sm font-bold ${getScoreColor()}`}>{ela.score}/100</span>
+        </div>
+        <div className="flex items-center justify-between p-3 rounded bg-muted/30">
+          <span className="text-sm text-muted-foreground">Outlier Blocks</span>
+          <span className="text-sm text-foreground">{(ela.outlierRatio * 100).toFixed(1)}%</span>
+        </div>
+        <div className="flex items-center justify-between p-3 rounded bg-muted/30">
+          <span className="text-sm text-muted-foreground">Re-save Quality</span>
+          <span className="text-sm text-foreground">{ela.quality}</span>
+        </div>
+      </div>
+
+      <div className="relative mx-auto w-fit max-w-full rounded overflow-hidden bg-muted/20">
+        {imageUrl ? (
+          <img src={imageUrl} alt="Analyzed screenshot" className="block max-h-[70vh] w-auto" />
+        ) : (
+          <div
+            className="w-64 bg-cyber-dark"
+            style={{ aspectRatio: `${ela.heatmap.width} / ${ela.heatmap.height}` }}
+          />
+        )}
+        {showOverlay && (
+          <img
+            src={ela.heatmap.dataUrl}
+            alt="Error level heatmap"
+            className="absolute inset-0 w-full h-full mix-blend-screen"
+            style={{ imageRendering: 'pixelated' }}
+          />
+        )}
+      </div>
+      <p className="mt-3 text-xs text-muted-foreground text-center">
+        Brighter areas re-compress with higher error. Edited amounts or names often stand out from surrounding text.
+      </p>
+    </Card>
+  );
+};
@@ -0,0 +1,91 @@
+import { Card } from './ui/card';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from './ui/accordion';
+import type { ExifData, ExifTags, ExifValue } from '@/types/analysis';
+
+interface ExifDetailsProps {
+  exif: ExifData;
+}
+
+const KEY_TAGS = [
+  'Make',
+  'Model',
+  'Software',
+  'DateTime',
+  'DateTimeOriginal',
+  'DateTimeDigitized',
+  'OffsetTime',
+  'Orientation',
+];
+
+const SECTIONS: Array<{ key: keyof Pick<ExifData, 'ifd0' | 'exif' | 'gps' | 'interop' | 'ifd1'>; label: string }> = [
+  { key: 'ifd0', label: 'IFD0 (Image)' },
+  { key: 'exif', label: 'Exif Sub-IFD' },
+  { key: 'gps', label: 'GPS' },
+  { key: 'interop', label: 'Interoperability' },
+  { key: 'ifd1', label: 'IFD1 (Thumbnail)' },
+];
+
+const formatValue = (value: ExifValue) => (Array.isArray(value) ? value.join(', ') : String(value));
+
+const findTag = (exif: ExifData, name: string): ExifValue | undefined =>
+  exif.ifd0[name] ?? exif.exif[name] ?? exif.gps[name];
+
+const TagRows = ({ tags }: { tags: ExifTags }) => (
+  <div className="space-y-1 font-mono text-xs">
+    {Object.entries(tags).map(([name, value]) => (
+      <div key={name} className="flex justify-between gap-4 p-2 rounded bg-muted/20">
+        <span className="text-muted-foreground">{name}</span>
+        <span className="text-foreground text-right break-all">{formatValue(value)}</span>
+      </div>
+    ))}
+  </div>
+);
+
+export const ExifDetails = ({ exif }: ExifDetailsProps) => {
+  const width = exif.exif.PixelXDimension;
+  const height = exif.exif.PixelYDimension;
+
+  return (
+    <Card className="p-6 cyber-border bg-card/50 backdrop-blur">
+      <h3 className="text-xl font-bold mb-4">EXIF Metadata</h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {KEY_TAGS.map((name) => {
+          const value = findTag(exif, name);
+          return (
+            <div key={name} className="flex items-center justify-between gap-4 p-3 rounded bg-muted/30">
+              <span className="text-sm text-muted-foreground">{name}</span>
+              <span className="text-sm text-foreground text-right break-all">
+                {value !== undefined ? formatValue(value) : '—'}
+              </span>
+            </div>
+          );
+        })}
+        <div className="flex items-center justify-between gap-4 p-3 rounded bg-muted/30">
+          <span className="text-sm text-muted-foreground">Pixel Dimensions</span>
+          <span className="text-sm text-foreground">
+            {width !== undefined && height !== undefined ? `${width} × ${height}` : '—'}
+          </span>
+        </div>
+        <div className="flex items-center justify-between gap-4 p-3 rounded bg-muted/30">
+          <span className="text-sm text-muted-foreground">Embedded Thumbnail</span>
+          <span className="text-sm text-foreground">
+            {exif.thumbnail ? `${(exif.thumbnail.length / 1024).toFixed(1)} KB` : 'None'}
+          </span>
+        </div>
+      </div>
+
+      <Accordion type="multiple" className="mt-4">
+        {SECTIONS.filter(({ key }) => Object.keys(exif[key]).length > 0).map(({ key, label }) => (
+          <AccordionItem key={key} value={key} className="border-muted">
+            <AccordionTrigger className="text-sm">
+              {label} ({Object.keys(exif[key]).length} tags)
+            </AccordionTrigger>
+            <AccordionContent>
+              <TagRows tags={exif[key]} />
+            </AccordionContent>
+          </AccordionItem>
+        ))}
+      </Accordion>
+    </Card>
+  );
+};
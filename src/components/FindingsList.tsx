@@ -0,0 +1,92 @@
+import { XCircle, AlertTriangle, Info } from 'lucide-react';
+import { Badge } from './ui/badge';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from './ui/accordion';
+import type { AnalysisFinding, FindingCategory } from '@/types/analysis';
+
+interface FindingsListProps {
+  findings: AnalysisFinding[];
+  // Called when a finding that points at image regions is opened
+  onFocus?: (finding: AnalysisFinding) => void;
+}
+
+// Display order of the groups
+const CATEGORY_LABELS: Record<FindingCategory, string> = {
+  summary: 'Summary',
+  metadata: 'Metadata',
+  format: 'File Format',
+  device: 'Device',
+  pixel: 'Pixel Forensics',
+  content: 'Content',
+  ai: 'AI Visual Analysis',
+  history: 'Submission History',
+};
+
+const formatEvidence = (value: unknown) =>
+  typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+
+const FindingIcon = ({ type }: { type: AnalysisFinding['type'] }) => {
+  if (type === 'critical') return <XCircle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />;
+  if (type === 'warning') return <AlertTriangle className="w-5 h-5 text-yellow-400 flex-shrink-0 mt-0.5" />;
+  return <Info className="w-5 h-5 text-primary flex-shrink-0 mt-0.5" />;
+};
+
+export const FindingsList = ({ findings, onFocus }: FindingsListProps) => {
+  const groups = (Object.keys(CATEGORY_LABELS) as FindingCategory[])
+    .map((category) => ({ category, items: findings.filter((finding) => finding.category === category) }))
+    .filter(({ items }) => items.length > 0);
+
+  return (
+    <div className="space-y-4">
+      {groups.map(({ category, items }) => (
+        <div key={category}>
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-sm font-semibold text-muted-foreground uppercase tracking-wide">{CATEGORY_LABELS[category]}</h4>
+            <span className="text-xs text-muted-foreground">
+              −{items.reduce((sum, finding) => sum + finding.contribution, 0)} confidence
+            </span>
+          </div>
+          <Accordion type="multiple" className="space-y-2">
+            {items.map((finding, index) => (
+              <AccordionItem key={`${finding.code}-${index}`} value={`${finding.code}-${index}`} className="border-none rounded bg-muted/30 px-3">
+                <AccordionTrigger
+                  className="py-3 hover:no-underline"
+                  onClick={() => {
+                    if (finding.regions?.length) onFocus?.(finding);
+                  }}
+                >
+                  <div className="flex items-start gap-3 text-left">
+                    <FindingIcon type={finding.type} />
+                    <p className="text-sm text-foreground font-normal">{finding.message}</p>
+                  </div>
+                </AccordionTrigger>
+                <AccordionContent>
+                  <div className="space-y-1 font-mono text-xs">
+                    <div className="flex flex-wrap gap-2 pb-1">
+                      <Badge variant="outline">{finding.code}</Badge>
+                      {finding.detector && <Badge variant="outline">{finding.detector.id}@{finding.detector.version}</Badge>}
+                      <Badge variant={finding.contribution > 0 ? 'destructive' : 'outline'}>−{finding.contribution}</Badge>
+                    </div>
+                    {Object.entries(finding.evidence ?? {}).map(([key, value]) => (
+                      <div key={key} className="flex justify-between gap-4 p-2 rounded bg-muted/20">
+                        <span className="text-muted-foreground">{key}</span>
+                        <span className="text-foreground text-right break-all">{formatEvidence(value)}</span>
+                      </div>
+                    ))}
+                    {finding.regions?.map((region, regionIndex) => (
+                      <div key={`region-${regionIndex}`} className="flex justify-between gap-4 p-2 rounded bg-muted/20">
+                        <span className="text-muted-foreground">region</span>
+                        <span className="text-foreground">
+                          {region.width}×{region.height} at ({region.x}, {region.y})
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </AccordionContent>
+              </AccordionItem>
+            ))}
+          </Accordion>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import { Card } from './ui/card';
+import type { BmpInfo, GifInfo, TiffInfo, WebpInfo } from '@/types/analysis';
+
+interface FormatDetailsProps {
+  webp?: WebpInfo | null;
+  gif?: GifInfo | null;
+  bmp?: BmpInfo | null;
+  tiff?: TiffInfo | null;
+}
+
+type Row = { label: string; value: string };
+
+const webpRows = (webp: WebpInfo): Row[] => {
+  const rows: Row[] = [
+    { label: 'Bitstream', value: webp.bitstream ? `${webp.bitstream} (${webp.lossy ? 'lossy' : 'lossless'})` : 'None' },
+    { label: 'Dimensions', value: `${webp.width} × ${webp.height}` },
+    { label: 'Alpha', value: webp.hasAlpha ? 'Yes' : 'No' },
+    { label: 'Frames', value: String(webp.frameCount) },
+    { label: 'Chunks', value: webp.chunks.map((chunk) => chunk.type.trim()).join(', ') },
+  ];
+  if (webp.iccProfileSize) rows.push({ label: 'ICC Profile', value: `${webp.iccProfileSize} bytes` });
+  rows.push({ label: 'XMP', value: webp.xmp ? 'Present' : 'None' });
+  return rows;
+};
+
+const gifRows = (gif: GifInfo): Row[] => {
+  const rows: Row[] = [
+    { label: 'Version', value: `GIF${gif.version}` },
+    { label: 'Dimensions', value: `${gif.width} × ${gif.height}` },
+    { label: 'Global Palette', value: gif.globalColors ? `${gif.globalColors} colors` : 'None' },
+    { label: 'Frames', value: String(gif.frameCount) },
+    { label: 'Local Palettes', value: String(gif.localColorTables) },
+  ];
+  if (gif.loopCount !== undefined) rows.push({ label: 'Loop Count', value: gif.loopCount === 0 ? 'Infinite' : String(gif.loopCount) });
+  if (gif.applications.length > 0) rows.push({ label: 'Extensions', value: gif.applications.join(', ') });
+  for (const comment of gif.comments) rows.push({ label: 'Comment', value: comment });
+  return rows;
+};
+
+const bmpRows = (bmp: BmpInfo): Row[] => {
+  const rows: Row[] = [
+    { label: 'Header', value: bmp.headerType },
+    { label: 'Dimensions', value: `${bmp.width} × ${bmp.height}${bmp.topDown ? ' (top-down)' : ''}` },
+    { label: 'Bit Depth', value: `${bmp.bitsPerPixel}-bit` },
+    { label: 'Compression', value: bmp.compression },
+  ];
+  if (bmp.pixelsPerMeter.x > 0) {
+    rows.push({ label: 'Resolution', value: `${Math.round(bmp.pixelsPerMeter.x * 0.0254)} DPI` });
+  }
+  if (bmp.colorSpace) rows.push({ label: 'Color Space', value: bmp.colorSpace });
+  if (bmp.embeddedProfileSize) rows.push({ label: 'ICC Profile', value: `${bmp.embeddedProfileSize} bytes` });
+  return rows;
+};
+
+const tiffRows = (tiff: TiffInfo): Row[] => {
+  const rows: Row[] = [
+    { label: 'Dimensions', value: `${tiff.width} × ${tiff.height}` },
+    { label: 'Pages', value: String(tiff.pages) },
+    { label: 'Compression', value: tiff.compression },
+    { label: 'Bits Per Sample', value: tiff.bitsPerSample.join(', ') || 'Unknown' },
+  ];
+  if (tiff.iccProfileSize) rows.push({ label: 'ICC Profile', value: `${tiff.iccProfileSize} bytes` });
+  rows.push({ label: 'XMP', value: tiff.xmp ? 'Present' : 'None' });
+  return rows;
+};
+
+export const FormatDetails = ({ webp, gif, bmp, tiff }: FormatDetailsProps) => {
+  const section = webp
+    ? { title: 'WebP Structure', rows: webpRows(webp) }
+    : gif
+      ? { title: 'GIF Structure', rows: gifRows(gif) }
+      : bmp
+        ? { title: 'BMP Structure', rows: bmpRows(bmp) }
+        : tiff
+          ? { title: 'TIFF Structure', rows: tiffRows(tiff) }
+          : null;
+  if (!section) return null;
+
+  return (
+    <Card className="p-6 cyber-border bg-card/50 backdrop-blur">
+      <h3 className="text-xl font-bold mb-4">{section.title}</h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {section.rows.map(({ label, value }, index) => (
+          <div key={`${label}-${index}`} className="flex items-center justify-between gap-4 p-3 rounded bg-muted/30">
+            <span className="text-sm text-muted-foreground">{label}</span>
+            <span className="text-sm text-foreground text-right break-all">{value}</span>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+};
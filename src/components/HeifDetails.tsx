@@ -0,0 +1,69 @@
+import { Card } from './ui/card';
+import { Badge } from './ui/badge';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from './ui/accordion';
+import type { HeifColorProfile, HeifInfo } from '@/types/analysis';
+
+interface HeifDetailsProps {
+  heif: HeifInfo;
+}
+
+const describeColorProfile = (profile: HeifColorProfile) =>
+  profile.type === 'nclx'
+    ? `nclx ${profile.colourPrimaries}/${profile.transferCharacteristics}/${profile.matrixCoefficients}` +
+      (profile.fullRange ? ' · full range' : '')
+    : `ICC (${profile.type}, ${profile.size} bytes)`;
+
+export const HeifDetails = ({ heif }: HeifDetailsProps) => {
+  const rows: Array<{ label: string; value: string }> = [
+    { label: 'Brands', value: [heif.majorBrand, ...heif.compatibleBrands.filter((brand) => brand !== heif.majorBrand)].join(', ') },
+  ];
+  if (heif.primary) {
+    rows.push({ label: 'Primary Item', value: `#${heif.primary.id} (${heif.primary.type})` });
+    if (heif.primary.width && heif.primary.height) {
+      rows.push({ label: 'Dimensions', value: `${heif.primary.width} × ${heif.primary.height}` });
+    }
+  }
+  if (heif.colorProfile) rows.push({ label: 'Color Profile', value: describeColorProfile(heif.colorProfile) });
+  rows.push({ label: 'Thumbnails', value: String(heif.thumbnails.length) });
+  rows.push({ label: 'XMP', value: heif.xmp ? 'Present' : 'None' });
+
+  return (
+    <Card className="p-6 cyber-border bg-card/50 backdrop-blur">
+      <h3 className="text-xl font-bold mb-4">HEIF Structure</h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {rows.map(({ label, value }) => (
+          <div key={label} className="flex items-center justify-between gap-4 p-3 rounded bg-muted/30">
+            <span className="text-sm text-muted-foreground">{label}</span>
+            <span className="text-sm text-foreground text-right break-all">{value}</span>
+          </div>
+        ))}
+      </div>
+
+      <Accordion type="multiple" className="mt-4">
+        <AccordionItem value="items" className="border-muted">
+          <AccordionTrigger className="text-sm">Items ({heif.items.length})</AccordionTrigger>
+          <AccordionContent>
+            <div className="space-y-1 font-mono text-xs">
+              {heif.items.map((item) => (
+                <div key={item.id} className="flex items-center justify-between gap-4 p-2 rounded bg-muted/20">
+                  <span className="text-foreground">
+                    #{item.id} {item.type}
+                    {item.contentType && <span className="text-muted-foreground"> {item.contentType}</span>}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {item.width && item.height ? `${item.width}×${item.height} · ` : ''}
+                    {item.length} bytes
+                  </span>
+                  <div className="flex gap-1">
+                    {item.id === heif.primaryItemId && <Badge variant="outline">primary</Badge>}
+                    {heif.thumbnails.includes(item.id) && <Badge variant="outline">thumbnail</Badge>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </AccordionContent>
+        </AccordionItem>
+      </Accordion>
+    </Card>
+  );
+};
@@ -0,0 +1,368 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { PointerEvent } from 'react';
+import { Maximize2, Search, ZoomIn, ZoomOut } from 'lucide-react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { Switch } from './ui/switch';
+import { Label } from './ui/label';
+import { Toggle } from './ui/toggle';
+import { computeNoiseMap } from '@/lib/noiseMap';
+import type { AnalysisFinding, CompressionAnomalies, ElaResult, FindingType, RegionBox } from '@/types/analysis';
+
+export interface ViewerFocus {
+  finding: AnalysisFinding;
+  // Bumped on every click so focusing the same finding again re-centres it
+  request: number;
+}
+
+interface ImageViewerProps {
+  imageUrl: string;
+  findings: AnalysisFinding[];
+  ela?: ElaResult;
+  blockMap?: CompressionAnomalies['blockMap'];
+  focus: ViewerFocus | null;
+}
+
+const SEVERITY_COLORS: Record<FindingType, string> = {
+  critical: 'hsl(var(--destructive))',
+  warning: '#facc15',
+  info: 'hsl(var(--primary))',
+};
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 32;
+// A focused region is zoomed until it fills this share of the viewport
+const FOCUS_FILL = 0.6;
+const LENS_SIZE = 140;
+const LENS_ZOOM = 4;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Overlays are grouped by detector; pipeline findings have none and use their code
+const layerId = (finding: AnalysisFinding) => finding.detector?.id ?? finding.code;
+
+const union = (regions: RegionBox[]): RegionBox => {
+  const left = Math.min(...regions.map((region) => region.x));
+  const top = Math.min(...regions.map((region) => region.y));
+  const right = Math.max(...regions.map((region) => region.x + region.width));
+  const bottom = Math.max(...regions.map((region) => region.y + region.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+export const ImageViewer = ({ imageUrl, findings, ela, blockMap, focus }: ImageViewerProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [view, setView] = useState({ zoom: 1, x: 0, y: 0 });
+  const [hiddenLayers, setHiddenLayers] = useState<Set<string>>(new Set());
+  const [showEla, setShowEla] = useState(false);
+  const [showBlockMap, setShowBlockMap] = useState(false);
+  const [showNoise, setShowNoise] = useState(false);
+  const [noiseMap, setNoiseMap] = useState<string | null>(null);
+  const [noiseFailed, setNoiseFailed] = useState(false);
+  const [magnifier, setMagnifier] = useState(false);
+  const [pointer, setPointer] = useState<{ x: number; y: number } | null>(null);
+
+  const regionFindings = useMemo(
+    () => findings.filter((finding) => finding.regions && finding.regions.length > 0),
+    [findings]
+  );
+  const layers = useMemo(() => [...new Set(regionFindings.map(layerId))], [regionFindings]);
+
+  const fit = natural && viewport.width > 0
+    ? Math.min(viewport.width / natural.width, viewport.height / natural.height)
+    : 1;
+  const scale = fit * view.zoom;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setViewport({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const reset = useCallback(() => {
+    if (!natural) return;
+    setView({
+      zoom: 1,
+      x: (viewport.width - natural.width * fit) / 2,
+      y: (viewport.height - natural.height * fit) / 2,
+    });
+  }, [natural, viewport, fit]);
+
+  useEffect(reset, [reset]);
+
+  // Keeps the image point under (originX, originY) fixed while zooming
+  const zoomAt = useCallback((factor: number, originX: number, originY: number) => {
+    setView((current) => {
+      const zoom = clamp(current.zoom * factor, MIN_ZOOM, MAX_ZOOM);
+      const ratio = zoom / current.zoom;
+      return {
+        zoom,
+        x: originX - (originX - current.x) * ratio,
+        y: originY - (originY - current.y) * ratio,
+      };
+    });
+  }, []);
+
+  // React registers wheel listeners as passive, which cannot stop the page from scrolling
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const bounds = container.getBoundingClientRect();
+      zoomAt(event.deltaY < 0 ? 1.2 : 1 / 1.2, event.clientX - bounds.left, event.clientY - bounds.top);
+    };
+    container.addEventListener('wheel', onWheel, { passive: false });
+    return () => container.removeEventListener('wheel', onWheel);
+  }, [zoomAt]);
+
+  useEffect(() => {
+    if (!showNoise || noiseMap || noiseFailed) return;
+    let cancelled = false;
+    computeNoiseMap(imageUrl)
+      .then((dataUrl) => !cancelled && setNoiseMap(dataUrl))
+      .catch((error) => {
+        console.error('Noise map failed:', error);
+        if (!cancelled) setNoiseFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [showNoise, noiseMap, noiseFailed, imageUrl]);
+
+  // Read by the focus effect so that only a new focus request moves the view, not a resize
+  const layoutRef = useRef({ natural, viewport, fit });
+  layoutRef.current = { natural, viewport, fit };
+
+  useEffect(() => {
+    const regions = focus?.finding.regions;
+    const { natural, viewport, fit } = layoutRef.current;
+    if (!focus || !regions || regions.length === 0 || !natural || viewport.width === 0) return;
+    const target = union(regions);
+    const zoom = clamp(
+      Math.min(
+        (viewport.width * FOCUS_FILL) / Math.max(target.width, 1),
+        (viewport.height * FOCUS_FILL) / Math.max(target.height, 1)
+      ) / fit,
+      MIN_ZOOM,
+      16
+    );
+    setView({
+      zoom,
+      x: viewport.width / 2 - (target.x + target.width / 2) * fit * zoom,
+      y: viewport.height / 2 - (target.y + target.height / 2) * fit * zoom,
+    });
+    setHiddenLayers((hidden) => {
+      if (!hidden.has(layerId(focus.finding))) return hidden;
+      const next = new Set(hidden);
+      next.delete(layerId(focus.finding));
+      return next;
+    });
+    containerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [focus]);
+
+  const toggleLayer = (id: string) => {
+    setHiddenLayers((hidden) => {
+      const next = new Set(hidden);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const onPointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { pointerX: event.clientX, pointerY: event.clientY, x: view.x, y: view.y };
+  };
+
+  const onPointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    setPointer({ x: event.clientX - bounds.left, y: event.clientY - bounds.top });
+    const drag = dragRef.current;
+    if (!drag) return;
+    setView((current) => ({
+      ...current,
+      x: drag.x + event.clientX - drag.pointerX,
+      y: drag.y + event.clientY - drag.pointerY,
+    }));
+  };
+
+  const onPointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const zoomFromCenter = (factor: number) => zoomAt(factor, viewport.width / 2, viewport.height / 2);
+
+  const heatmapLayers = [
+    showEla && ela && { src: ela.heatmap.dataUrl, alt: 'Error level heatmap' },
+    showBlockMap && blockMap && { src: blockMap.dataUrl, alt: 'Compression block map' },
+    showNoise && noiseMap && { src: noiseMap, alt: 'Noise residual map' },
+  ].filter((layer): layer is { src: string; alt: string } => Boolean(layer));
+
+  // Image coordinates under the pointer, for the magnifier lens
+  const lensPoint = magnifier && pointer && natural
+    ? { x: (pointer.x - view.x) / scale, y: (pointer.y - view.y) / scale }
+    : null;
+
+  return (
+    <Card className="p-6 cyber-border bg-card/50 backdrop-blur">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="text-xl font-bold">Image Viewer</h3>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => zoomFromCenter(1 / 1.5)} aria-label="Zoom out">
+            <ZoomOut />
+          </Button>
+          <span className="w-14 text-center text-sm text-muted-foreground">{Math.round(view.zoom * 100)}%</span>
+          <Button variant="outline" size="icon" onClick={() => zoomFromCenter(1.5)} aria-label="Zoom in">
+            <ZoomIn />
+          </Button>
+          <Button variant="outline" size="icon" onClick={reset} aria-label="Fit to view">
+            <Maximize2 />
+          </Button>
+          <Toggle variant="outline" pressed={magnifier} onPressedChange={setMagnifier} aria-label="Pixel magnifier">
+            <Search className="w-4 h-4" />
+          </Toggle>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-4 mb-4">
+        {ela && (
+          <div className="flex items-center gap-2">
+            <Switch id="viewer-ela" checked={showEla} onCheckedChange={setShowEla} />
+            <Label htmlFor="viewer-ela" className="text-sm text-muted-foreground">ELA heatmap</Label>
+          </div>
+        )}
+        {blockMap && (
+          <div className="flex items-center gap-2">
+            <Switch id="viewer-block-map" checked={showBlockMap} onCheckedChange={setShowBlockMap} />
+            <Label htmlFor="viewer-block-map" className="text-sm text-muted-foreground">Compression blocks</Label>
+          </div>
+        )}
+        <div className="flex items-center gap-2">
+          <Switch id="viewer-noise" checked={showNoise} onCheckedChange={setShowNoise} disabled={noiseFailed} />
+          <Label htmlFor="viewer-noise" className="text-sm text-muted-foreground">
+            {noiseFailed ? 'Noise map unavailable' : 'Noise residual'}
+          </Label>
+        </div>
+      </div>
+
+      {layers.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {layers.map((id) => (
+            <Toggle
+              key={id}
+              size="sm"
+              variant="outline"
+              pressed={!hiddenLayers.has(id)}
+              onPressedChange={() => toggleLayer(id)}
+              className="font-mono text-xs"
+            >
+              {id}
+            </Toggle>
+          ))}
+        </div>
+      )}
+
+      <div
+        ref={containerRef}
+        className={`relative w-full h-[70vh] overflow-hidden rounded bg-muted/20 touch-none select-none ${magnifier ? 'cursor-none' : 'cursor-grab active:cursor-grabbing'}`}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+        onPointerLeave={() => setPointer(null)}
+        onDoubleClick={reset}
+      >
+        {loadFailed ? (
+          <p className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">
+            This browser cannot display the uploaded format.
+          </p>
+        ) : (
+          <div
+            className="absolute left-0 top-0"
+            style={{
+              width: natural?.width,
+              height: natural?.height,
+              transform: `translate(${view.x}px, ${view.y}px) scale(${scale})`,
+              transformOrigin: '0 0',
+              visibility: natural ? 'visible' : 'hidden',
+            }}
+          >
+            <img
+              src={imageUrl}
+              alt="Analyzed screenshot"
+              draggable={false}
+              className="block w-full h-full max-w-none"
+              style={{ imageRendering: view.zoom > 4 ? 'pixelated' : 'auto' }}
+              onLoad={(event) => setNatural({
+                width: event.currentTarget.naturalWidth,
+                height: event.currentTarget.naturalHeight,
+              })}
+              onError={() => setLoadFailed(true)}
+            />
+            {heatmapLayers.map((layer) => (
+              <img
+                key={layer.alt}
+                src={layer.src}
+                alt={layer.alt}
+                draggable={false}
+                className="absolute inset-0 w-full h-full max-w-none mix-blend-screen"
+                style={{ imageRendering: 'pixelated' }}
+              />
+            ))}
+            {regionFindings
+              .filter((finding) => !hiddenLayers.has(layerId(finding)))
+              .flatMap((finding, findingIndex) =>
+                finding.regions!.map((region, regionIndex) => {
+                  const focused = focus?.finding === finding;
+                  return (
+                    <div
+                      key={`${findingIndex}-${regionIndex}`}
+                      title={finding.message}
+                      className="absolute"
+                      style={{
+                        left: region.x,
+                        top: region.y,
+                        width: region.width,
+                        height: region.height,
+                        borderStyle: 'solid',
+                        borderColor: SEVERITY_COLORS[finding.type],
+                        borderWidth: (focused ? 3 : 2) / scale,
+                        backgroundColor: focused ? 'hsl(var(--primary) / 0.15)' : undefined,
+                      }}
+                    />
+                  );
+                })
+              )}
+          </div>
+        )}
+        {lensPoint && pointer && (
+          <div
+            className="absolute rounded-full border-2 border-primary pointer-events-none shadow-lg"
+            style={{
+              width: LENS_SIZE,
+              height: LENS_SIZE,
+              left: pointer.x - LENS_SIZE / 2,
+              top: pointer.y - LENS_SIZE / 2,
+              backgroundImage: `url(${imageUrl})`,
+              backgroundRepeat: 'no-repeat',
+              backgroundSize: `${natural!.width * scale * LENS_ZOOM}px ${natural!.height * scale * LENS_ZOOM}px`,
+              backgroundPosition: `${LENS_SIZE / 2 - lensPoint.x * scale * LENS_ZOOM}px ${LENS_SIZE / 2 - lensPoint.y * scale * LENS_ZOOM}px`,
+              imageRendering: 'pixelated',
+            }}
+          />
+        )}
+      </div>
+      <p className="mt-3 text-xs text-muted-foreground text-center">
+        Scroll to zoom, drag to pan, double-click to fit. Boxes mark the regions findings refer to: red critical, yellow warning, green info.
+      </p>
+    </Card>
+  );
+};
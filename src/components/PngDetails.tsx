@@ -0,0 +1,89 @@
+import { Card } from './ui/card';
+import { Badge } from './ui/badge';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from './ui/accordion';
+import type { PngInfo } from '@/types/analysis';
+
+interface PngDetailsProps {
+  png: PngInfo;
+}
+
+// Long values such as XMP packets are cut down for display
+const MAX_TEXT_LENGTH = 300;
+
+const truncate = (text: string) =>
+  text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}…` : text;
+
+export const PngDetails = ({ png }: PngDetailsProps) => {
+  const rows: Array<{ label: string; value: string }> = [];
+  if (png.ihdr) {
+    rows.push(
+      { label: 'Dimensions', value: `${png.ihdr.width} × ${png.ihdr.height}` },
+      { label: 'Color Type', value: `${png.ihdr.colorTypeName} (${png.ihdr.bitDepth}-bit)` },
+      { label: 'Interlaced', value: png.ihdr.interlaced ? 'Adam7' : 'No' },
+    );
+  }
+  if (png.iccProfileName) rows.push({ label: 'ICC Profile', value: png.iccProfileName });
+  if (png.srgbIntent !== undefined) rows.push({ label: 'sRGB Intent', value: String(png.srgbIntent) });
+  if (png.gamma !== undefined) rows.push({ label: 'Gamma', value: png.gamma.toFixed(5) });
+  if (png.physical) {
+    rows.push({
+      label: 'Pixel Density',
+      value: `${png.physical.pixelsPerUnitX} × ${png.physical.pixelsPerUnitY} per ${png.physical.unit}`,
+    });
+  }
+  if (png.modified) rows.push({ label: 'Last Modified (tIME)', value: png.modified });
+  if (png.trailingBytes > 0) rows.push({ label: 'Data After IEND', value: `${png.trailingBytes} bytes` });
+
+  return (
+    <Card className="p-6 cyber-border bg-card/50 backdrop-blur">
+      <h3 className="text-xl font-bold mb-4">PNG Structure</h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {rows.map(({ label, value }) => (
+          <div key={label} className="flex items-center justify-between gap-4 p-3 rounded bg-muted/30">
+            <span className="text-sm text-muted-foreground">{label}</span>
+            <span className="text-sm text-foreground text-right break-all">{value}</span>
+          </div>
+        ))}
+      </div>
+
+      <Accordion type="multiple" className="mt-4">
+        {png.text.length > 0 && (
+          <AccordionItem value="text" className="border-muted">
+            <AccordionTrigger className="text-sm">Text Chunks ({png.text.length})</AccordionTrigger>
+            <AccordionContent>
+              <div className="space-y-1 font-mono text-xs">
+                {png.text.map((entry, index) => (
+                  <div key={index} className="p-2 rounded bg-muted/20">
+                    <span className="text-muted-foreground">{entry.chunk} </span>
+                    <span className="text-primary">{entry.keyword}</span>
+                    <span className="text-muted-foreground">=</span>
+                    <span className="text-foreground break-all">{truncate(entry.text)}</span>
+                  </div>
+                ))}
+              </div>
+            </AccordionContent>
+          </AccordionItem>
+        )}
+        <AccordionItem value="chunks" className="border-muted">
+          <AccordionTrigger className="text-sm">Chunk Layout ({png.chunks.length})</AccordionTrigger>
+          <AccordionContent>
+            <div className="space-y-1 font-mono text-xs">
+              {png.chunks.map((chunk, index) => (
+                <div key={index} className="flex items-center justify-between gap-4 p-2 rounded bg-muted/20">
+                  <span className="text-foreground">{chunk.type}</span>
+                  <span className="text-muted-foreground">
+                    @{chunk.offset} · {chunk.length} bytes
+                  </span>
+                  <div className="flex gap-1">
+                    {png.unknownChunks.includes(chunk.type) && <Badge variant="outline">unknown</Badge>}
+                    {!chunk.crcValid && <Badge variant="destructive">bad CRC</Badge>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </AccordionContent>
+        </AccordionItem>
+      </Accordion>
+    </Card>
+  );
+};
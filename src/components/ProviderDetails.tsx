@@ -0,0 +1,82 @@
+import { Card } from './ui/card';
+import { Badge } from './ui/badge';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from './ui/accordion';
+import type { ProviderCheck } from '@/types/analysis';
+
+interface ProviderDetailsProps {
+  provider: ProviderCheck;
+}
+
+const toHex = (color: [number, number, number]) =>
+  `#${color.map((value) => value.toString(16).padStart(2, '0')).join('').toUpperCase()}`;
+
+const Swatch = ({ color }: { color: [number, number, number] }) => (
+  <span className="inline-flex items-center gap-2">
+    <span className="w-3 h-3 rounded-sm border border-muted" style={{ backgroundColor: toHex(color) }} />
+    {toHex(color)}
+  </span>
+);
+
+export const ProviderDetails = ({ provider }: ProviderDetailsProps) => (
+  <Card className="p-6 cyber-border bg-card/50 backdrop-blur">
+    <div className="flex items-center justify-between mb-4">
+      <h3 className="text-xl font-bold">{provider.name} Template</h3>
+      <Badge variant={provider.score < 60 ? 'destructive' : 'outline'}>Match {provider.score}/100</Badge>
+    </div>
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="flex items-center justify-between gap-4 p-3 rounded bg-muted/30">
+        <span className="text-sm text-muted-foreground">Classification</span>
+        <span className="text-sm text-foreground">{Math.round(provider.confidence * 100)}% confident</span>
+      </div>
+      <div className="flex items-center justify-between gap-4 p-3 rounded bg-muted/30">
+        <span className="text-sm text-muted-foreground">Layout Era / Theme</span>
+        <span className="text-sm text-foreground">{provider.era} · {provider.variant}</span>
+      </div>
+      <div className="flex items-center justify-between gap-4 p-3 rounded bg-muted/30">
+        <span className="text-sm text-muted-foreground">Accent Color</span>
+        <span className="text-sm text-foreground">{provider.accent ? <Swatch color={provider.accent} /> : '—'}</span>
+      </div>
+      <div className="flex items-center justify-between gap-4 p-3 rounded bg-muted/30">
+        <span className="text-sm text-muted-foreground">Background</span>
+        <span className="text-sm text-foreground">{provider.background ? <Swatch color={provider.background} /> : '—'}</span>
+      </div>
+    </div>
+
+    <Accordion type="multiple" className="mt-4">
+      {provider.deviations.length > 0 && (
+        <AccordionItem value="deviations" className="border-muted">
+          <AccordionTrigger className="text-sm">Deviations ({provider.deviations.length})</AccordionTrigger>
+          <AccordionContent>
+            <div className="space-y-1 text-xs">
+              {provider.deviations.map((deviation, index) => (
+                <div key={index} className="flex items-center gap-2 p-2 rounded bg-muted/20">
+                  <Badge variant={deviation.severity === 'warning' ? 'destructive' : 'outline'}>{deviation.kind}</Badge>
+                  <span className="text-foreground">{deviation.message}</span>
+                </div>
+              ))}
+            </div>
+          </AccordionContent>
+        </AccordionItem>
+      )}
+      <AccordionItem value="template" className="border-muted">
+        <AccordionTrigger className="text-sm">Template &amp; Evidence</AccordionTrigger>
+        <AccordionContent>
+          <div className="space-y-1 font-mono text-xs">
+            <div className="flex justify-between gap-4 p-2 rounded bg-muted/20">
+              <span className="text-muted-foreground">Evidence</span>
+              <span className="text-foreground text-right">{provider.evidence.join(', ')}</span>
+            </div>
+            <div className="flex justify-between gap-4 p-2 rounded bg-muted/20">
+              <span className="text-muted-foreground">Expected Fonts</span>
+              <span className="text-foreground text-right">{provider.fonts.join(', ')}</span>
+            </div>
+            <div className="flex justify-between gap-4 p-2 rounded bg-muted/20">
+              <span className="text-muted-foreground">Expected Icons</span>
+              <span className="text-foreground text-right">{provider.icons.join(', ')}</span>
+            </div>
+          </div>
+        </AccordionContent>
+      </AccordionItem>
+    </Accordion>
+  </Card>
+);
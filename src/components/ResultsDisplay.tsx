@@ -1,25 +1,46 @@
-import { CheckCircle2, XCircle, AlertTriangle, Info } from 'lucide-react';
+import { useState } from 'react';
+import { CheckCircle2, XCircle } from 'lucide-react';
 import { Card } from './ui/card';
 import { Badge } from './ui/badge';
+import { ExifDetails } from './ExifDetails';
+import { FindingsList } from './FindingsList';
+import { PngDetails } from './PngDetails';
+import { HeifDetails } from './HeifDetails';
+import { FormatDetails } from './FormatDetails';
+import { XmpDetails } from './XmpDetails';
+import { ElaOverlay } from './ElaOverlay';
+import { TransactionDetails } from './TransactionDetails';
+import { ProviderDetails } from './ProviderDetails';
+import { StatusBarDetails } from './StatusBarDetails';
+import { TimestampDetails } from './TimestampDetails';
+import { AiAgreementDetails } from './AiAgreementDetails';
+import { SimilarSubmissions } from './SimilarSubmissions';
+import { CopyMoveOverlay } from './CopyMoveOverlay';
+import { ImageViewer, type ViewerFocus } from './ImageViewer';
+import type { AiStageStatus, AnalysisResult, ResolutionCheck } from '@/types/analysis';
+
+const RESOLUTION_LABELS: Record<ResolutionCheck['classification'], string> = {
+  native: 'Native',
+  cropped: 'Cropped',
+  scaled: 'Scaled',
+  unknown: 'No Known Device',
+};
+
+const AI_STAGE_LABELS: Record<AiStageStatus['status'], string> = {
+  ok: 'Completed',
+  repaired: 'Repaired',
+  failed: 'Failed',
+  skipped: 'Not Run',
+};
 
 interface ResultsDisplayProps {
-  result: {
-    authentic: boolean;
-    confidence: number;
-    findings: Array<{
-      type: 'info' | 'warning' | 'critical';
-      message: string;
-    }>;
-    metadata: {
-      software?: string;
-      editingDetected: boolean;
-      compressionAnomalies: boolean;
-      metadataInconsistencies: boolean;
-    };
-  };
+  result: AnalysisResult;
+  imageUrl?: string;
 }
 
-export const ResultsDisplay = ({ result }: ResultsDisplayProps) => {
+export const ResultsDisplay = ({ result, imageUrl }: ResultsDisplayProps) => {
+  const [focus, setFocus] = useState<ViewerFocus | null>(null);
+
   const getStatusIcon = () => {
     if (result.authentic) {
       return <CheckCircle2 className="w-16 h-16 text-primary animate-glow-pulse" />;
@@ -34,6 +55,9 @@ export const ResultsDisplay = ({ result }: ResultsDisplayProps) => {
     return 'MODIFIED';
   };
 
+  const compression = result.metadata.compressionAnomalies;
+  const aiMissing = result.ai && (result.ai.analysis.status === 'failed' || result.ai.analysis.status === 'skipped');
+
   const getConfidenceColor = () => {
     if (result.confidence >= 80) return 'text-primary';
     if (result.confidence >= 50) return 'text-yellow-400';
@@ -53,32 +77,33 @@ export const ResultsDisplay = ({ result }: ResultsDisplayProps) => {
               {result.confidence}%
             </span>
           </div>
+          {aiMissing && (
+            <p className="text-sm text-yellow-400 text-center">
+              AI visual analysis did not contribute to this verdict
+              {result.ai?.analysis.error ? `: ${result.ai.analysis.error}` : '.'}
+            </p>
+          )}
         </div>
       </Card>
 
+      {imageUrl && (
+        <ImageViewer
+          imageUrl={imageUrl}
+          findings={result.findings}
+          ela={result.ela}
+          blockMap={result.metadata.compressionAnomalies.blockMap}
+          focus={focus}
+        />
+      )}
+
       {/* Findings Card */}
       {result.findings.length > 0 && (
         <Card className="p-6 cyber-border-purple bg-card/50 backdrop-blur">
           <h3 className="text-xl font-bold mb-4 text-secondary">Analysis Findings</h3>
-          <div className="space-y-3">
-            {result.findings.map((finding, index) => (
-              <div
-                key={index}
-                className="flex items-start gap-3 p-3 rounded bg-muted/30"
-              >
-                {finding.type === 'critical' && (
-                  <XCircle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
-                )}
-                {finding.type === 'warning' && (
-                  <AlertTriangle className="w-5 h-5 text-yellow-400 flex-shrink-0 mt-0.5" />
-                )}
-                {finding.type === 'info' && (
-                  <Info className="w-5 h-5 text-primary flex-shrink-0 mt-0.5" />
-                )}
-                <p className="text-sm text-foreground">{finding.message}</p>
-              </div>
-            ))}
-          </div>
+          <FindingsList
+            findings={result.findings}
+            onFocus={imageUrl ? (finding) => setFocus((current) => ({ finding, request: (current?.request ?? 0) + 1 })) : undefined}
+          />
         </Card>
       )}
 
@@ -86,6 +111,29 @@ export const ResultsDisplay = ({ result }: ResultsDisplayProps) => {
       <Card className="p-6 cyber-border bg-card/50 backdrop-blur">
         <h3 className="text-xl font-bold mb-4">Technical Details</h3>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="flex items-center justify-between p-3 rounded bg-muted/30">
+            <span className="text-sm text-muted-foreground">File Format</span>
+            <Badge variant="outline">{result.metadata.format}</Badge>
+          </div>
+          <div className="flex items-center justify-between gap-4 p-3 rounded bg-muted/30">
+            <span className="text-sm text-muted-foreground">Color Profile</span>
+            <span className="text-sm text-foreground text-right break-all" title={result.icc?.copyright}>
+              {result.icc ? `${result.icc.description ?? 'Unnamed'} · ${result.icc.creator || 'unknown'} v${result.icc.version}` : 'None'}
+            </span>
+          </div>
+          {result.resolution && (
+            <div className="flex items-center justify-between gap-4 p-3 rounded bg-muted/30">
+              <span className="text-sm text-muted-foreground">Screen Match</span>
+              <div className="flex items-center gap-2 text-right">
+                <span className="text-sm text-foreground">
+                  {result.resolution.matches[0]?.devices[0] ?? '—'}
+                </span>
+                <Badge variant={result.resolution.classification === 'unknown' ? 'destructive' : 'outline'}>
+                  {RESOLUTION_LABELS[result.resolution.classification]}
+                </Badge>
+              </div>
+            </div>
+          )}
           <div className="flex items-center justify-between p-3 rounded bg-muted/30">
             <span className="text-sm text-muted-foreground">Editing Software</span>
             <Badge variant={result.metadata.software ? "destructive" : "outline"}>
@@ -100,10 +148,53 @@ export const ResultsDisplay = ({ result }: ResultsDisplayProps) => {
           </div>
           <div className="flex items-center justify-between p-3 rounded bg-muted/30">
             <span className="text-sm text-muted-foreground">Compression Anomalies</span>
-            <Badge variant={result.metadata.compressionAnomalies ? "destructive" : "outline"}>
-              {result.metadata.compressionAnomalies ? 'Detected' : 'None'}
+            <Badge variant={compression.score >= 50 ? "destructive" : "outline"}>
+              {compression.score > 0 ? `Score ${compression.score}/100` : 'None'}
             </Badge>
           </div>
+          {result.metadata.encoder && (
+            <div className="flex items-center justify-between p-3 rounded bg-muted/30">
+              <span className="text-sm text-muted-foreground">JPEG Encoder</span>
+              <Badge variant="outline">
+                {result.metadata.encoder}
+                {result.metadata.estimatedQuality !== undefined && ` · Q${result.metadata.estimatedQuality}`}
+              </Badge>
+            </div>
+          )}
+          {result.ai && (
+            <>
+              <div className="flex items-center justify-between gap-4 p-3 rounded bg-muted/30">
+                <span className="text-sm text-muted-foreground">AI Visual Analysis</span>
+                <Badge
+                  variant={result.ai.analysis.status === 'failed' ? 'destructive' : 'outline'}
+                  title={[result.ai.provider, result.ai.model].filter(Boolean).join(' · ')}
+                >
+                  {AI_STAGE_LABELS[result.ai.analysis.status]}
+                  {result.ai.analysis.attempts > 1 && ` · ${result.ai.analysis.attempts} attempts`}
+                </Badge>
+              </div>
+              <div className="flex items-center justify-between gap-4 p-3 rounded bg-muted/30">
+                <span className="text-sm text-muted-foreground">Text Recognition</span>
+                <Badge variant={result.ai.ocr.status === 'failed' ? 'destructive' : 'outline'} title={result.ai.ocr.error}>
+                  {AI_STAGE_LABELS[result.ai.ocr.status]}
+                  {result.ai.ocr.attempts > 1 && ` · ${result.ai.ocr.attempts} attempts`}
+                </Badge>
+              </div>
+            </>
+          )}
+          {result.cache && (
+            <div className="flex items-center justify-between gap-4 p-3 rounded bg-muted/30">
+              <span className="text-sm text-muted-foreground">SHA-256</span>
+              <div className="flex items-center gap-2">
+                <span className="text-xs font-mono text-foreground" title={result.cache.sha256}>
+                  {result.cache.sha256.slice(0, 12)}…
+                </span>
+                <Badge variant="outline" title={`Analyzer ${result.cache.analyzerVersion}`}>
+                  {result.cache.hit ? `Cached · ${new Date(result.cache.analyzedAt).toLocaleString()}` : 'Fresh'}
+                </Badge>
+              </div>
+            </div>
+          )}
           <div className="flex items-center justify-between p-3 rounded bg-muted/30">
             <span className="text-sm text-muted-foreground">Metadata Issues</span>
             <Badge variant={result.metadata.metadataInconsistencies ? "destructive" : "outline"}>
@@ -111,7 +202,51 @@ export const ResultsDisplay = ({ result }: ResultsDisplayProps) => {
             </Badge>
           </div>
         </div>
+        {compression.regions && compression.regions.length > 0 && (
+          <div className="mt-4 space-y-1 font-mono text-xs">
+            {compression.regions.map((region, index) => (
+              <div key={index} className="flex justify-between p-2 rounded bg-muted/20">
+                <span className="text-muted-foreground">
+                  {region.kind === 'single-compressed' ? 'Singly compressed region' : 'Misaligned grid region'}
+                </span>
+                <span className="text-foreground">
+                  {region.width}×{region.height} at ({region.x}, {region.y})
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
       </Card>
+
+      {result.similar && result.similar.length > 0 && <SimilarSubmissions similar={result.similar} />}
+
+      {result.transaction && <TransactionDetails transaction={result.transaction} />}
+
+      {result.provider && <ProviderDetails provider={result.provider} />}
+
+      {result.statusBar && <StatusBarDetails statusBar={result.statusBar} />}
+
+      {result.timestamps && <TimestampDetails timestamps={result.timestamps} />}
+
+      {result.ai?.ensemble && result.ai.ensemble.passes.length > 1 && (
+        <AiAgreementDetails ensemble={result.ai.ensemble} />
+      )}
+
+      {result.ela && <ElaOverlay ela={result.ela} imageUrl={imageUrl} />}
+
+      {result.copyMove && result.copyMove.pairs.length > 0 && (
+        <CopyMoveOverlay copyMove={result.copyMove} imageUrl={imageUrl} />
+      )}
+
+      {result.png && <PngDetails png={result.png} />}
+
+      {result.heif && <HeifDetails heif={result.heif} />}
+
+      <FormatDetails webp={result.webp} gif={result.gif} bmp={result.bmp} tiff={result.tiff} />
+
+      {result.xmp && <XmpDetails xmp={result.xmp} />}
+
+      {result.exif && <ExifDetails exif={result.exif} />}
     </div>
   );
 };
@@ -0,0 +1,64 @@
+import { Link } from 'react-router-dom';
+import { Card } from './ui/card';
+import { Badge } from './ui/badge';
+import type { SimilarSubmission } from '@/types/analysis';
+
+interface SimilarSubmissionsProps {
+  similar: SimilarSubmission[];
+}
+
+// Distances at or below this mean the whole screenshot matches, not just the amount
+const NEAR_DUPLICATE = 10;
+
+const getVerdict = (match: SimilarSubmission) => {
+  if (match.authentic === null) return { label: 'No verdict', variant: 'outline' as const };
+  if (match.authentic) return { label: `Authentic · ${match.confidence}%`, variant: 'outline' as const };
+  return { label: `Modified · ${match.confidence}%`, variant: 'destructive' as const };
+};
+
+const ROW_CLASS = 'flex items-center justify-between gap-4 p-3 rounded bg-muted/30';
+
+// Only the requester's own submissions link to their full analysis
+const Row = ({ match, children }: { match: SimilarSubmission; children: React.ReactNode }) =>
+  match.ownSubmission ? (
+    <Link to={`/analysis/${match.id}`} className={`${ROW_CLASS} hover:bg-muted/50 transition-colors`}>
+      {children}
+    </Link>
+  ) : (
+    <div className={ROW_CLASS}>{children}</div>
+  );
+
+export const SimilarSubmissions = ({ similar }: SimilarSubmissionsProps) => {
+  return (
+    <Card className="p-6 cyber-border bg-card/50 backdrop-blur">
+      <h3 className="text-xl font-bold mb-2">Similar Earlier Submissions</h3>
+      <p className="text-sm text-muted-foreground mb-4">
+        Screenshots that look the same as this one but are different files, such as re-compressed or cropped copies.
+      </p>
+      <div className="space-y-2">
+        {similar.map((match) => {
+          const distance = Math.max(match.distance.phash, match.distance.dhash);
+          const verdict = getVerdict(match);
+          return (
+            <Row key={match.id} match={match}>
+              <div className="min-w-0">
+                <div className="text-sm text-foreground truncate">
+                  {match.filename ?? (match.ownSubmission ? 'Your submission' : 'Another user\'s submission')}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {new Date(match.createdAt).toLocaleString()}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <span className="text-xs font-mono text-muted-foreground" title={`pHash ${match.distance.phash}, dHash ${match.distance.dhash}, amount ${match.distance.amount ?? '–'}`}>
+                  {distance <= NEAR_DUPLICATE ? `${distance}/64 bits` : `amount ${match.distance.amount}/64 bits`}
+                </span>
+                <Badge variant={verdict.variant}>{verdict.label}</Badge>
+              </div>
+            </Row>
+          );
+        })}
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,67 @@
+import { Card } from './ui/card';
+import { Badge } from './ui/badge';
+import type { StatusBarAnalysis } from '@/types/analysis';
+
+interface StatusBarDetailsProps {
+  statusBar: StatusBarAnalysis;
+}
+
+const CUTOUT_LABELS: Record<NonNullable<StatusBarAnalysis['cutout']['expected']>, string> = {
+  none: 'None',
+  notch: 'Notch',
+  island: 'Dynamic Island',
+  hole: 'Punch-Hole',
+};
+
+export const StatusBarDetails = ({ statusBar }: StatusBarDetailsProps) => {
+  const { battery, signal, cutout } = statusBar;
+  const rows: Array<{ label: string; value: string }> = [
+    { label: 'Style', value: statusBar.style === 'unknown' ? 'Unknown' : `${statusBar.style} (${statusBar.styleEvidence.join(', ')})` },
+    { label: 'Clock', value: statusBar.clock ? `${statusBar.clock.text} · ${statusBar.clock.position}` : '—' },
+    {
+      label: 'Battery',
+      value: battery
+        ? [
+            battery.percent !== undefined ? `${battery.percent}%` : null,
+            battery.fill !== undefined ? `icon ${Math.round(battery.fill * 100)}% full` : null,
+          ].filter(Boolean).join(' · ') || 'icon found'
+        : '—',
+    },
+    { label: 'Signal', value: signal ? `${signal.filled}/${signal.bars} bars` : '—' },
+    { label: 'Carrier / Network', value: [statusBar.carrier, statusBar.network].filter(Boolean).join(' · ') || '—' },
+    {
+      label: 'Cutout',
+      value: `${cutout.expected ? CUTOUT_LABELS[cutout.expected] : 'Unknown'} expected${cutout.drawn ? `, ${CUTOUT_LABELS[cutout.drawn]} drawn` : ''}`,
+    },
+  ];
+
+  return (
+    <Card className="p-6 cyber-border bg-card/50 backdrop-blur">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold">Status Bar</h3>
+        <Badge variant={statusBar.issues.some((issue) => issue.severity === 'warning') ? 'destructive' : 'outline'}>
+          {statusBar.issues.length === 0 ? 'Consistent' : `${statusBar.issues.length} Issue${statusBar.issues.length === 1 ? '' : 's'}`}
+        </Badge>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {rows.map(({ label, value }) => (
+          <div key={label} className="flex items-center justify-between gap-4 p-3 rounded bg-muted/30">
+            <span className="text-sm text-muted-foreground">{label}</span>
+            <span className="text-sm text-foreground text-right">{value}</span>
+          </div>
+        ))}
+      </div>
+
+      {statusBar.issues.length > 0 && (
+        <div className="space-y-1 text-xs mt-4">
+          {statusBar.issues.map((issue, index) => (
+            <div key={index} className="flex items-center gap-2 p-2 rounded bg-muted/20">
+              <Badge variant={issue.severity === 'warning' ? 'destructive' : 'outline'}>{issue.kind}</Badge>
+              <span className="text-foreground">{issue.message}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
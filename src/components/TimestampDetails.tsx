@@ -0,0 +1,60 @@
+import { Card } from './ui/card';
+import { Badge } from './ui/badge';
+import type { TimeSource, TimeSourceId, TimestampAnalysis } from '@/types/analysis';
+
+interface TimestampDetailsProps {
+  timestamps: TimestampAnalysis;
+}
+
+const SOURCE_LABELS: Record<TimeSourceId, string> = {
+  statusBar: 'Status Bar Clock',
+  receipt: 'Receipt Timestamp',
+  exifOriginal: 'EXIF DateTimeOriginal',
+  xmpCreate: 'XMP CreateDate',
+  pngTime: 'PNG tIME',
+  fileModified: 'File Last Modified',
+  upload: 'Uploaded',
+};
+
+// Absolute times are shown in the viewer's zone; wall-clock values as written
+const formatSource = (source: TimeSource) => {
+  if (source.instant) return new Date(source.instant).toLocaleString();
+  if (source.local) return source.local.replace('T', ' ');
+  return source.raw;
+};
+
+export const TimestampDetails = ({ timestamps }: TimestampDetailsProps) => {
+  const contradicted = new Set(timestamps.contradictions.flatMap((contradiction) => contradiction.sources));
+
+  return (
+    <Card className="p-6 cyber-border bg-card/50 backdrop-blur">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-bold">Timestamp Consistency</h3>
+        <Badge variant={timestamps.contradictions.some((c) => c.severity !== 'info') ? 'destructive' : 'outline'}>
+          {timestamps.contradictions.length === 0 ? 'Consistent' : `${timestamps.contradictions.length} Contradiction${timestamps.contradictions.length === 1 ? '' : 's'}`}
+        </Badge>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {timestamps.sources.map((source) => (
+          <div key={source.id} className="flex items-center justify-between gap-4 p-3 rounded bg-muted/30" title={source.raw}>
+            <span className="text-sm text-muted-foreground">{SOURCE_LABELS[source.id]}</span>
+            <span className={`text-sm text-right ${contradicted.has(source.id) ? 'text-destructive' : 'text-foreground'}`}>
+              {formatSource(source)}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {timestamps.contradictions.length > 0 && (
+        <div className="space-y-1 text-xs mt-4">
+          {timestamps.contradictions.map((contradiction, index) => (
+            <div key={index} className="flex items-center gap-2 p-2 rounded bg-muted/20">
+              <Badge variant={contradiction.severity === 'info' ? 'outline' : 'destructive'}>{contradiction.severity}</Badge>
+              <span className="text-foreground">{contradiction.message}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,66 @@
+import { Card } from './ui/card';
+import { Badge } from './ui/badge';
+import type { Transaction, TransactionField } from '@/types/analysis';
+
+interface TransactionDetailsProps {
+  transaction: Transaction;
+}
+
+const formatAmount = (amount: number, currency?: string) => {
+  if (!currency) return amount.toFixed(2);
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
+
+const STATUS_LABELS: Record<NonNullable<Transaction['status']>['value'], string> = {
+  completed: 'Completed',
+  pending: 'Pending',
+  failed: 'Failed',
+  canceled: 'Canceled',
+  refunded: 'Refunded',
+};
+
+export const TransactionDetails = ({ transaction }: TransactionDetailsProps) => {
+  const rows: Array<{ label: string; value: string; field: TransactionField<unknown> }> = [];
+  if (transaction.amount) rows.push({ label: 'Amount', value: formatAmount(transaction.amount.value, transaction.currency?.value), field: transaction.amount });
+  if (transaction.recipient) {
+    rows.push({ label: 'Recipient', value: `${transaction.recipient.value} (${transaction.recipient.kind})`, field: transaction.recipient });
+  }
+  if (transaction.sender) {
+    rows.push({ label: 'Sender', value: `${transaction.sender.value} (${transaction.sender.kind})`, field: transaction.sender });
+  }
+  if (transaction.memo) rows.push({ label: 'Memo', value: transaction.memo.value, field: transaction.memo });
+  if (transaction.transactionId) {
+    rows.push({ label: 'Transaction ID', value: transaction.transactionId.value, field: transaction.transactionId });
+  }
+  if (transaction.dateTime) {
+    rows.push({ label: 'Date / Time', value: transaction.dateTime.value, field: transaction.dateTime });
+  }
+  if (transaction.status) {
+    rows.push({ label: 'Status', value: STATUS_LABELS[transaction.status.value], field: transaction.status });
+  }
+
+  if (rows.length === 0) return null;
+
+  return (
+    <Card className="p-6 cyber-border bg-card/50 backdrop-blur">
+      <h3 className="text-xl font-bold mb-4">Extracted Transaction</h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {rows.map(({ label, value, field }) => (
+          <div key={label} className="flex items-center justify-between gap-4 p-3 rounded bg-muted/30" title={field.text}>
+            <span className="text-sm text-muted-foreground">{label}</span>
+            <div className="flex items-center gap-2 text-right">
+              <span className="text-sm text-foreground break-all">{value}</span>
+              <Badge variant={field.confidence < 0.6 ? 'destructive' : 'outline'}>
+                {Math.round(field.confidence * 100)}%
+              </Badge>
+            </div>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+};
@@ -2,17 +2,24 @@ import { useCallback, useState } from 'react';
 import { Upload, Image } from 'lucide-react';
 import { Button } from './ui/button';
 import { useToast } from '@/hooks/use-toast';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { detectImageFormat, HEIF_EXTENSIONS } from '@/lib/imageFormat';
+import { getClientId } from '@/lib/clientId';
+import { readAnalysisStream } from '@/lib/analysisStream';
+import type { AnalysisProgressEvent, AnalysisResult } from '@/types/analysis';
 
 interface UploadZoneProps {
   onAnalysisStart: () => void;
-  onAnalysisComplete: (result: any) => void;
+  onAnalysisProgress: (event: AnalysisProgressEvent) => void;
+  onAnalysisComplete: (result: AnalysisResult, file: File) => void;
 }
 
-export const UploadZone = ({ onAnalysisStart, onAnalysisComplete }: UploadZoneProps) => {
+export const UploadZone = ({ onAnalysisStart, onAnalysisProgress, onAnalysisComplete }: UploadZoneProps) => {
   const [isDragging, setIsDragging] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [detectedFormat, setDetectedFormat] = useState<string | null>(null);
   const { toast } = useToast();
 
   const handleDrag = useCallback((e: React.DragEvent) => {
@@ -37,7 +44,7 @@ export const UploadZone = ({ onAnalysisStart, onAnalysisComplete }: UploadZonePr
   }, []);
 
   const handleFileSelect = (file: File) => {
-    if (!file.type.startsWith('image/')) {
+    if (!file.type.startsWith('image/') && !HEIF_EXTENSIONS.test(file.name)) {
       toast({
         title: "Invalid File",
         description: "Please upload an image file",
@@ -47,6 +54,8 @@ export const UploadZone = ({ onAnalysisStart, onAnalysisComplete }: UploadZonePr
     }
 
     setSelectedFile(file);
+    setDetectedFormat(null);
+    detectImageFormat(file).then(setDetectedFormat);
   };
 
   const handleAnalyze = async () => {
@@ -56,32 +65,38 @@ export const UploadZone = ({ onAnalysisStart, onAnalysisComplete }: UploadZonePr
     onAnalysisStart();
     
     try {
-      // Convert file to base64
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-        const base64 = e.target?.result as string;
-
-        const { data, error } = await supabase.functions.invoke('analyze-payment', {
-          body: { 
-            image: base64,
-            filename: selectedFile.name 
-          }
-        });
+      const clientId = getClientId();
+      // The file goes up as the raw request body; its details travel in headers.
+      // Progress comes back as an event stream that ends with the result.
+      const { data, error } = await supabase.functions.invoke<Response>('analyze-payment', {
+        body: selectedFile,
+        headers: {
+          'Accept': 'text/event-stream',
+          'Content-Type': 'application/octet-stream',
+          'X-Filename': encodeURIComponent(selectedFile.name),
+          'X-Last-Modified': String(selectedFile.lastModified),
+          // Without storage there is no stable id, and the visitor stays anonymous
+          ...(clientId ? { 'X-Client-Id': clientId } : {})
+        }
+      });
 
-        if (error) throw error;
+      if (error) throw error;
 
-        onAnalysisComplete(data);
-        toast({
-          title: "Analysis Complete",
-          description: "Your payment screenshot has been analyzed",
-        });
-      };
-      reader.readAsDataURL(selectedFile);
+      const result = await readAnalysisStream(data!, onAnalysisProgress);
+      onAnalysisComplete(result, selectedFile);
+      toast({
+        title: "Analysis Complete",
+        description: "Your payment screenshot has been analyzed",
+      });
     } catch (error) {
       console.error('Analysis error:', error);
+      // Oversized and non-image uploads are rejected with a reason worth showing
+      const rejected = error instanceof FunctionsHttpError && [413, 415].includes(error.context.status)
+        ? (await error.context.json().catch(() => null))?.error
+        : null;
       toast({
         title: "Analysis Failed",
-        description: "Failed to analyze the image. Please try again.",
+        description: rejected ?? "Failed to analyze the image. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -104,7 +119,7 @@ export const UploadZone = ({ onAnalysisStart, onAnalysisComplete }: UploadZonePr
       >
         <input
           type="file"
-          accept="image/*"
+          accept="image/*,.heic,.heif,.tif,.tiff"
           onChange={(e) => {
             const file = e.target.files?.[0];
             if (file) handleFileSelect(file);
@@ -121,6 +136,7 @@ export const UploadZone = ({ onAnalysisStart, onAnalysisComplete }: UploadZonePr
               </p>
               <p className="text-sm text-muted-foreground">
                 {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
+                {detectedFormat && ` · ${detectedFormat === 'UNKNOWN' ? 'Unrecognized format' : detectedFormat}`}
               </p>
             </>
           ) : (
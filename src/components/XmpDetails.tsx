@@ -0,0 +1,83 @@
+import { Card } from './ui/card';
+import { Badge } from './ui/badge';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from './ui/accordion';
+import type { XmpInfo } from '@/types/analysis';
+
+interface XmpDetailsProps {
+  xmp: XmpInfo;
+}
+
+// Actions that rewrite the file; the rest only record provenance
+const WRITE_ACTIONS = new Set(['saved', 'converted']);
+
+export const XmpDetails = ({ xmp }: XmpDetailsProps) => {
+  const rows: Array<{ label: string; value: string }> = [
+    { label: 'Creator Tool', value: xmp.creatorTool ?? '—' },
+    { label: 'Create Date', value: xmp.createDate ?? '—' },
+    { label: 'Modify Date', value: xmp.modifyDate ?? '—' },
+    { label: 'Metadata Date', value: xmp.metadataDate ?? '—' },
+  ];
+  if (xmp.documentId) rows.push({ label: 'Document ID', value: xmp.documentId });
+  if (xmp.originalDocumentId && xmp.originalDocumentId !== xmp.documentId) {
+    rows.push({ label: 'Original Document ID', value: xmp.originalDocumentId });
+  }
+  if (xmp.derivedFrom) {
+    rows.push({ label: 'Derived From', value: xmp.derivedFrom.documentId ?? xmp.derivedFrom.instanceId ?? '—' });
+  }
+  rows.push({ label: 'Packet Size', value: `${(xmp.size / 1024).toFixed(1)} KB${xmp.extended ? ' (extended)' : ''}` });
+
+  return (
+    <Card className="p-6 cyber-border bg-card/50 backdrop-blur">
+      <h3 className="text-xl font-bold mb-4">XMP Metadata</h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {rows.map(({ label, value }) => (
+          <div key={label} className="flex items-center justify-between gap-4 p-3 rounded bg-muted/30">
+            <span className="text-sm text-muted-foreground">{label}</span>
+            <span className="text-sm text-foreground text-right break-all">{value}</span>
+          </div>
+        ))}
+      </div>
+
+      <Accordion type="multiple" className="mt-4">
+        {xmp.history.length > 0 && (
+          <AccordionItem value="history" className="border-muted">
+            <AccordionTrigger className="text-sm">Edit History ({xmp.history.length})</AccordionTrigger>
+            <AccordionContent>
+              <ol className="space-y-1 font-mono text-xs">
+                {xmp.history.map((event, index) => (
+                  <li key={index} className="flex items-center justify-between gap-4 p-2 rounded bg-muted/20">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={WRITE_ACTIONS.has(event.action.toLowerCase()) ? 'destructive' : 'outline'}>
+                        {event.action}
+                      </Badge>
+                      <span className="text-foreground">{event.softwareAgent ?? 'Unknown agent'}</span>
+                      {event.parameters && <span className="text-muted-foreground">{event.parameters}</span>}
+                    </div>
+                    <span className="text-muted-foreground">{event.when ?? '—'}</span>
+                  </li>
+                ))}
+              </ol>
+            </AccordionContent>
+          </AccordionItem>
+        )}
+        {xmp.documentAncestorCount > 0 && (
+          <AccordionItem value="ancestors" className="border-muted">
+            <AccordionTrigger className="text-sm">Document Ancestors ({xmp.documentAncestorCount})</AccordionTrigger>
+            <AccordionContent>
+              <div className="space-y-1 font-mono text-xs">
+                {xmp.documentAncestors.map((id) => (
+                  <div key={id} className="p-2 rounded bg-muted/20 text-foreground break-all">{id}</div>
+                ))}
+                {xmp.documentAncestorCount > xmp.documentAncestors.length && (
+                  <div className="p-2 text-muted-foreground">
+                    and {xmp.documentAncestorCount - xmp.documentAncestors.length} more
+                  </div>
+                )}
+              </div>
+            </AccordionContent>
+          </AccordionItem>
+        )}
+      </Accordion>
+    </Card>
+  );
+};
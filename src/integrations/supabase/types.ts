@@ -14,13 +14,96 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      analysis_results: {
+        Row: {
+          analyzer_version: string
+          created_at: string
+          result: Json
+          sha256: string
+        }
+        Insert: {
+          analyzer_version: string
+          created_at?: string
+          result: Json
+          sha256: string
+        }
+        Update: {
+          analyzer_version?: string
+          created_at?: string
+          result?: Json
+          sha256?: string
+        }
+        Relationships: []
+      }
+      analysis_submissions: {
+        Row: {
+          amount_hash: number | null
+          authentic: boolean | null
+          confidence: number | null
+          created_at: string
+          dhash: number | null
+          filename: string | null
+          id: string
+          phash: number | null
+          request_checks: Json | null
+          sha256: string
+          submitter: string | null
+        }
+        Insert: {
+          amount_hash?: number | null
+          authentic?: boolean | null
+          confidence?: number | null
+          created_at?: string
+          dhash?: number | null
+          filename?: string | null
+          id?: string
+          phash?: number | null
+          request_checks?: Json | null
+          sha256: string
+          submitter?: string | null
+        }
+        Update: {
+          amount_hash?: number | null
+          authentic?: boolean | null
+          confidence?: number | null
+          created_at?: string
+          dhash?: number | null
+          filename?: string | null
+          id?: string
+          phash?: number | null
+          request_checks?: Json | null
+          sha256?: string
+          submitter?: string | null
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      similar_submissions: {
+        Args: {
+          p_amount_hash: number
+          p_dhash: number
+          p_limit?: number
+          p_max_amount_distance?: number
+          p_max_distance?: number
+          p_phash: number
+          p_sha256: string
+        }
+        Returns: {
+          amount_distance: number
+          authentic: boolean
+          confidence: number
+          created_at: string
+          dhash_distance: number
+          filename: string
+          id: string
+          phash_distance: number
+          submitter: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
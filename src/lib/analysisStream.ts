@@ -0,0 +1,44 @@
+// Reads the Server-Sent Events analyze-payment sends when asked for text/event-stream,
+// reporting each progress event and resolving with the final result
+
+import type { AnalysisProgressEvent, AnalysisResult } from '@/types/analysis';
+
+type StreamEvent =
+  | AnalysisProgressEvent
+  | { type: 'result'; result: AnalysisResult }
+  | { type: 'error'; error: string };
+
+export const readAnalysisStream = async (
+  response: Response,
+  onProgress: (event: AnalysisProgressEvent) => void
+): Promise<AnalysisResult> => {
+  if (!response.body) throw new Error('Analysis response has no body');
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    // Events end with a blank line; the last piece may still be incomplete
+    const blocks = buffer.split('\n\n');
+    buffer = blocks.pop() ?? '';
+    for (const block of blocks) {
+      // Only data lines matter; comments are keep-alives and the event name repeats the type
+      const data = block
+        .split('\n')
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trimStart())
+        .join('\n');
+      if (!data) continue;
+
+      const event = JSON.parse(data) as StreamEvent;
+      if (event.type === 'result') return event.result;
+      if (event.type === 'error') throw new Error(event.error);
+      onProgress(event);
+    }
+  }
+
+  throw new Error('Analysis ended without a result');
+};
@@ -0,0 +1,18 @@
+// Anonymous id this browser sends with each upload, so the analyzer can tell
+// a resubmission by the same visitor from the same file arriving from someone else
+
+const STORAGE_KEY = 'paymentverification.clientId';
+
+export const getClientId = (): string | undefined => {
+  try {
+    let id = localStorage.getItem(STORAGE_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      localStorage.setItem(STORAGE_KEY, id);
+    }
+    return id;
+  } catch {
+    // Storage is unavailable in some private browsing modes
+    return undefined;
+  }
+};
@@ -0,0 +1,34 @@
+// Client-side counterpart of the edge function's format detection, used to
+// show what was selected before it is uploaded
+
+const HEIC_BRANDS = ['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'hevm', 'hevs'];
+const HEIF_BRANDS = ['mif1', 'msf1', 'mif2'];
+
+// Browsers often report HEIC files with an empty MIME type
+export const HEIF_EXTENSIONS = /\.(heic|heif)$/i;
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+export const detectImageFormat = async (file: File): Promise<string> => {
+  const header = new Uint8Array(await file.slice(0, 64).arrayBuffer());
+
+  if (header[0] === 0x89 && ascii(header, 1, 3) === 'PNG') return 'PNG';
+  if (header[0] === 0xFF && header[1] === 0xD8) return 'JPEG';
+  if (ascii(header, 0, 4) === 'RIFF' && ascii(header, 8, 4) === 'WEBP') return 'WEBP';
+  if (ascii(header, 0, 6) === 'GIF87a' || ascii(header, 0, 6) === 'GIF89a') return 'GIF';
+  if (ascii(header, 0, 2) === 'BM') return 'BMP';
+  if (ascii(header, 0, 4) === 'II*\0' || ascii(header, 0, 4) === 'MM\0*') return 'TIFF';
+
+  if (ascii(header, 4, 4) === 'ftyp') {
+    const size = Math.min((header[0] << 24) | (header[1] << 16) | (header[2] << 8) | header[3], header.length);
+    const brands = [ascii(header, 8, 4)];
+    for (let offset = 16; offset + 4 <= size; offset += 4) {
+      brands.push(ascii(header, offset, 4));
+    }
+    if (brands.some((brand) => HEIC_BRANDS.includes(brand))) return 'HEIC';
+    if (brands.some((brand) => HEIF_BRANDS.includes(brand))) return 'HEIF';
+  }
+
+  return 'UNKNOWN';
+};
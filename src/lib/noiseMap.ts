@@ -0,0 +1,46 @@
+// Noise residual of the uploaded image: each pixel's luminance minus the mean
+// of its four neighbours, amplified. Rendered UI is flat, so pasted or
+// retouched areas carry a different noise texture than their surroundings.
+
+// Residuals are small, so they are stretched to be visible
+const AMPLIFY = 8;
+
+const loadImage = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load image for the noise map'));
+    image.src = url;
+  });
+
+export const computeNoiseMap = async (imageUrl: string): Promise<string> => {
+  const image = await loadImage(imageUrl);
+  const { naturalWidth: width, naturalHeight: height } = image;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+  context.drawImage(image, 0, 0);
+
+  const pixels = context.getImageData(0, 0, width, height);
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * pixels.data[i * 4] + 0.587 * pixels.data[i * 4 + 1] + 0.114 * pixels.data[i * 4 + 2];
+  }
+
+  const output = context.createImageData(width, height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const mean = (luma[i - 1] + luma[i + 1] + luma[i - width] + luma[i + width]) / 4;
+      const value = Math.min(255, Math.abs(luma[i] - mean) * AMPLIFY);
+      output.data[i * 4] = value;
+      output.data[i * 4 + 1] = value;
+      output.data[i * 4 + 2] = value;
+      output.data[i * 4 + 3] = 255;
+    }
+  }
+  context.putImageData(output, 0, 0);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { MatrixRain } from '@/components/MatrixRain';
+import { ResultsDisplay } from '@/components/ResultsDisplay';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import { getClientId } from '@/lib/clientId';
+import logo from '@/assets/logo.png';
+import type { AnalysisResult, SubmissionSummary } from '@/types/analysis';
+
+// An earlier analysis opened from a similar-submission link. The image itself is not
+// stored, so the result is shown without the viewer and overlays. Only the original
+// submitter gets the full report; anyone else sees the verdict.
+const Analysis = () => {
+  const { submissionId } = useParams<{ submissionId: string }>();
+  const [analysisResult, setAnalysisResult] = useState<AnalysisResult | SubmissionSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setAnalysisResult(null);
+    setError(null);
+
+    const clientId = getClientId();
+    supabase.functions.invoke('analyze-payment', {
+      body: { submissionId, ...(clientId ? { clientId } : {}) }
+    }).then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) {
+        console.error('Loading analysis failed:', error);
+        setError('This analysis could not be found.');
+      } else {
+        setAnalysisResult(data);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [submissionId]);
+
+  return (
+    <div className="min-h-screen bg-cyber-darker relative overflow-hidden">
+      <MatrixRain />
+
+      <div className="relative z-10">
+        <header className="border-b border-primary/30 bg-cyber-dark/80 backdrop-blur">
+          <div className="container mx-auto px-4 py-6">
+            <div className="flex items-center justify-center gap-4">
+              <img src={logo} alt="Tech Pimp" className="h-16 w-auto" />
+              <h1 className="text-3xl font-bold text-primary glow-text">
+                Payment Verification
+              </h1>
+            </div>
+          </div>
+        </header>
+
+        <main className="container mx-auto px-4 py-12">
+          <div className="space-y-8">
+            <div className="flex justify-center mb-8">
+              <Link to="/" className="text-primary hover:text-primary/80 underline">
+                ← Analyze another screenshot
+              </Link>
+            </div>
+            {error && <p className="text-center text-destructive">{error}</p>}
+            {!error && !analysisResult && (
+              <p className="text-center text-muted-foreground animate-pulse">Loading earlier analysis…</p>
+            )}
+            {analysisResult && ('restricted' in analysisResult
+              ? <SubmissionVerdict summary={analysisResult} />
+              : <ResultsDisplay result={analysisResult} />)}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+};
+
+const SubmissionVerdict = ({ summary }: { summary: SubmissionSummary }) => (
+  <Card className="p-6 cyber-border bg-card/50 backdrop-blur max-w-2xl mx-auto">
+    <div className="flex items-center justify-between gap-4 mb-4">
+      <h3 className="text-xl font-bold">Earlier Submission</h3>
+      {summary.authentic === null ? (
+        <Badge variant="outline">No verdict</Badge>
+      ) : (
+        <Badge variant={summary.authentic ? 'outline' : 'destructive'}>
+          {summary.authentic ? 'Authentic' : 'Modified'} · {summary.confidence}%
+        </Badge>
+      )}
+    </div>
+    <p className="text-sm text-muted-foreground mb-4">
+      This screenshot was submitted by someone else, so only its verdict is shown.
+    </p>
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-4 p-3 rounded bg-muted/30">
+        <span className="text-sm text-muted-foreground">Analyzed</span>
+        <span className="text-sm text-foreground">{new Date(summary.analyzedAt).toLocaleString()}</span>
+      </div>
+      {summary.hashes && (
+        <div className="flex items-center justify-between gap-4 p-3 rounded bg-muted/30">
+          <span className="text-sm text-muted-foreground">Perceptual Hashes</span>
+          <span className="text-xs font-mono text-foreground">
+            {summary.hashes.phash} · {summary.hashes.dhash}
+          </span>
+        </div>
+      )}
+    </div>
+  </Card>
+);
+
+export default Analysis;
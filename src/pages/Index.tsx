@@ -4,18 +4,37 @@ import { UploadZone } from '@/components/UploadZone';
 import { ResultsDisplay } from '@/components/ResultsDisplay';
 import { AnalysisProgress } from '@/components/AnalysisProgress';
 import logo from '@/assets/logo.png';
+import type { AnalysisProgressEvent, AnalysisResult } from '@/types/analysis';
 
 const Index = () => {
-  const [analysisResult, setAnalysisResult] = useState<any>(null);
+  const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
+  const [imageUrl, setImageUrl] = useState<string>();
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [progressEvents, setProgressEvents] = useState<AnalysisProgressEvent[]>([]);
 
   const handleAnalysisStart = () => {
+    setProgressEvents([]);
     setIsAnalyzing(true);
   };
 
-  const handleAnalysisComplete = (result: any) => {
+  const handleAnalysisProgress = (event: AnalysisProgressEvent) => {
+    setProgressEvents((events) => [...events, event]);
+  };
+
+  const handleAnalysisComplete = (result: AnalysisResult, file: File) => {
     setIsAnalyzing(false);
     setAnalysisResult(result);
+    // Most browsers cannot render HEIF or TIFF, so the overlays fall back to placeholders
+    const format = result.metadata.format;
+    if (format !== 'HEIC' && format !== 'HEIF' && format !== 'TIFF') {
+      setImageUrl(URL.createObjectURL(file));
+    }
+  };
+
+  const handleReset = () => {
+    if (imageUrl) URL.revokeObjectURL(imageUrl);
+    setImageUrl(undefined);
+    setAnalysisResult(null);
   };
 
   return (
@@ -52,10 +71,11 @@ const Index = () => {
 
               <UploadZone 
                 onAnalysisStart={handleAnalysisStart}
+                onAnalysisProgress={handleAnalysisProgress}
                 onAnalysisComplete={handleAnalysisComplete} 
               />
 
-              <AnalysisProgress isAnalyzing={isAnalyzing} />
+              <AnalysisProgress isAnalyzing={isAnalyzing} events={progressEvents} />
 
               {/* Features */}
               <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-16">
@@ -83,13 +103,13 @@ const Index = () => {
             <div className="space-y-8">
               <div className="flex justify-center mb-8">
                 <button
-                  onClick={() => setAnalysisResult(null)}
+                  onClick={handleReset}
                   className="text-primary hover:text-primary/80 underline"
                 >
                   ← Analyze another screenshot
                 </button>
               </div>
-              <ResultsDisplay result={analysisResult} />
+              <ResultsDisplay result={analysisResult} imageUrl={imageUrl} />
             </div>
           )}
         </main>
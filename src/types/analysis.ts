@@ -0,0 +1,506 @@
+// Mirrors the response of the analyze-payment edge function
+
+export type FindingType = 'info' | 'warning' | 'critical';
+
+export interface RegionBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type FindingCategory = 'metadata' | 'format' | 'device' | 'pixel' | 'content' | 'ai' | 'history' | 'summary';
+
+export interface AnalysisFinding {
+  type: FindingType;
+  // Stable identifier such as META_EDITOR_SOFTWARE
+  code: string;
+  category: FindingCategory;
+  message: string;
+  detector?: { id: string; version: string };
+  // Confidence points this finding removed
+  contribution: number;
+  evidence?: Record<string, unknown>;
+  // Image regions the finding refers to, in pixel coordinates
+  regions?: RegionBox[];
+}
+
+export type ExifValue = string | number | number[];
+
+export type ExifTags = Record<string, ExifValue>;
+
+export interface ExifData {
+  byteOrder: 'little-endian' | 'big-endian';
+  ifd0: ExifTags;
+  exif: ExifTags;
+  gps: ExifTags;
+  interop: ExifTags;
+  ifd1: ExifTags;
+  thumbnail?: { offset: number; length: number };
+}
+
+export interface PngChunk {
+  type: string;
+  offset: number;
+  length: number;
+  crcValid: boolean;
+  ancillary: boolean;
+  private: boolean;
+}
+
+export interface PngTextEntry {
+  chunk: 'tEXt' | 'zTXt' | 'iTXt';
+  keyword: string;
+  text: string;
+  language?: string;
+}
+
+export interface PngInfo {
+  ihdr: {
+    width: number;
+    height: number;
+    bitDepth: number;
+    colorType: number;
+    colorTypeName: string;
+    interlaced: boolean;
+  } | null;
+  chunks: PngChunk[];
+  text: PngTextEntry[];
+  iccProfileName?: string;
+  srgbIntent?: number;
+  gamma?: number;
+  physical?: { pixelsPerUnitX: number; pixelsPerUnitY: number; unit: 'meter' | 'unknown' };
+  modified?: string;
+  unknownChunks: string[];
+  trailingBytes: number;
+  exif: ExifData | null;
+}
+
+export interface HeifItem {
+  id: number;
+  type: string;
+  name?: string;
+  contentType?: string;
+  width?: number;
+  height?: number;
+  length: number;
+  references?: Record<string, number[]>;
+}
+
+export type HeifColorProfile =
+  | {
+    type: 'nclx';
+    colourPrimaries: number;
+    transferCharacteristics: number;
+    matrixCoefficients: number;
+    fullRange: boolean;
+  }
+  | { type: 'prof' | 'rICC'; offset: number; size: number };
+
+export interface HeifInfo {
+  majorBrand: string;
+  compatibleBrands: string[];
+  primaryItemId: number | null;
+  primary: HeifItem | null;
+  items: HeifItem[];
+  colorProfile?: HeifColorProfile;
+  exif: ExifData | null;
+  xmp?: string;
+  thumbnails: number[];
+  unknownBoxes: string[];
+}
+
+export interface WebpInfo {
+  bitstream: 'VP8' | 'VP8L' | null;
+  lossy: boolean;
+  width: number;
+  height: number;
+  hasAlpha: boolean;
+  animated: boolean;
+  frameCount: number;
+  declared?: { icc: boolean; alpha: boolean; exif: boolean; xmp: boolean; animation: boolean };
+  chunks: Array<{ type: string; offset: number; length: number }>;
+  unknownChunks: string[];
+  iccProfileSize?: number;
+  exif: ExifData | null;
+  xmp?: string;
+  riffSizeMismatch: number;
+}
+
+export interface GifInfo {
+  version: '87a' | '89a';
+  width: number;
+  height: number;
+  globalColors: number;
+  frameCount: number;
+  localColorTables: number;
+  loopCount?: number;
+  comments: string[];
+  applications: string[];
+  xmp?: string;
+  trailingBytes: number;
+}
+
+export interface BmpInfo {
+  headerType: string;
+  width: number;
+  height: number;
+  topDown: boolean;
+  bitsPerPixel: number;
+  compression: string;
+  colorsUsed: number;
+  pixelsPerMeter: { x: number; y: number };
+  colorSpace?: string;
+  embeddedProfileSize?: number;
+  pixelOffset: number;
+  fileSizeMismatch: number;
+}
+
+export interface TiffInfo {
+  width: number;
+  height: number;
+  pages: number;
+  compression: string;
+  bitsPerSample: number[];
+  exif: ExifData | null;
+  xmp?: string;
+  iccProfileSize?: number;
+}
+
+export interface ElaResult {
+  quality: number;
+  score: number;
+  meanError: number;
+  maxError: number;
+  outlierRatio: number;
+  heatmap: {
+    width: number;
+    height: number;
+    dataUrl: string;
+  };
+}
+
+export interface CompressionRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  kind: 'single-compressed' | 'misaligned-grid';
+}
+
+export interface CompressionAnomalies {
+  score: number;
+  doubleQuantization: {
+    detected: boolean;
+    periodicRatio: number;
+    period: number;
+    singleCompressedRatio: number;
+  } | null;
+  grid: {
+    offsetX: number;
+    offsetY: number;
+    strength: number;
+    present: boolean;
+  } | null;
+  regions?: CompressionRegion[];
+  blockMap?: { width: number; height: number; dataUrl: string };
+}
+
+export interface CopyMovePair {
+  // The upper of the two matched regions; which one is the original is unknown
+  source: RegionBox;
+  target: RegionBox;
+  offset: { dx: number; dy: number };
+  similarity: number;
+  blocks: number;
+}
+
+export interface CopyMoveResult {
+  width: number;
+  height: number;
+  pairs: CopyMovePair[];
+  blocksCompared: number;
+  elapsedMs: number;
+  truncated: boolean;
+}
+
+export interface XmpHistoryEvent {
+  action: string;
+  when?: string;
+  softwareAgent?: string;
+  instanceId?: string;
+  changed?: string;
+  parameters?: string;
+}
+
+export interface XmpInfo {
+  creatorTool?: string;
+  createDate?: string;
+  modifyDate?: string;
+  metadataDate?: string;
+  documentId?: string;
+  instanceId?: string;
+  originalDocumentId?: string;
+  history: XmpHistoryEvent[];
+  documentAncestors: string[];
+  documentAncestorCount: number;
+  derivedFrom?: { documentId?: string; instanceId?: string };
+  extended: boolean;
+  size: number;
+}
+
+export interface IccProfile {
+  size: number;
+  cmm: string;
+  version: string;
+  deviceClass: string;
+  colorSpace: string;
+  connectionSpace: string;
+  created?: string;
+  platform: string;
+  manufacturer: string;
+  model: string;
+  creator: string;
+  renderingIntent: number;
+  description?: string;
+  copyright?: string;
+  profileId?: string;
+  md5: string;
+}
+
+export interface DeviceResolution {
+  width: number;
+  height: number;
+  platform: 'iOS' | 'macOS' | 'Android' | 'Windows';
+  devices: string[];
+  cutout?: 'none' | 'notch' | 'island' | 'hole';
+}
+
+export interface ResolutionCheck {
+  width: number;
+  height: number;
+  classification: 'native' | 'cropped' | 'scaled' | 'unknown';
+  matches: DeviceResolution[];
+  scale?: number;
+}
+
+export interface TransactionField<T = string> {
+  value: T;
+  text: string;
+  confidence: number;
+  box: RegionBox | null;
+}
+
+export interface TransactionParty extends TransactionField {
+  kind: 'cashtag' | 'handle' | 'email' | 'phone' | 'name';
+}
+
+export interface TransactionDate extends TransactionField {
+  iso?: string;
+}
+
+export interface Transaction {
+  amount?: TransactionField<number>;
+  currency?: TransactionField;
+  sender?: TransactionParty;
+  recipient?: TransactionParty;
+  memo?: TransactionField;
+  transactionId?: TransactionField;
+  dateTime?: TransactionDate;
+  status?: TransactionField<'completed' | 'pending' | 'failed' | 'canceled' | 'refunded'>;
+}
+
+export interface TemplateDeviation {
+  kind: 'layout' | 'alignment' | 'accent' | 'background';
+  severity: 'info' | 'warning';
+  message: string;
+  box?: RegionBox;
+}
+
+export interface ProviderCheck {
+  provider: 'cashapp' | 'venmo' | 'paypal' | 'chime' | 'applepay' | 'zelle';
+  name: string;
+  confidence: number;
+  evidence: string[];
+  era: string;
+  variant: 'light' | 'dark' | 'unknown';
+  background: [number, number, number] | null;
+  accent: [number, number, number] | null;
+  score: number;
+  deviations: TemplateDeviation[];
+  fonts: string[];
+  icons: string[];
+}
+
+export interface StatusBarIssue {
+  kind: 'pasted' | 'alignment' | 'battery' | 'layout' | 'style' | 'cutout';
+  severity: 'info' | 'warning';
+  message: string;
+  box?: RegionBox;
+}
+
+export interface StatusBarAnalysis {
+  height: number;
+  background: [number, number, number] | null;
+  style: 'iOS' | 'Android' | 'unknown';
+  styleEvidence: string[];
+  clock: { text: string; position: 'left' | 'center' | 'right'; box: RegionBox } | null;
+  battery: { percent?: number; fill?: number; box?: RegionBox } | null;
+  signal: { bars: number; filled: number; box: RegionBox } | null;
+  carrier: string | null;
+  network: string | null;
+  cutout: { expected: 'none' | 'notch' | 'island' | 'hole' | null; drawn: 'notch' | 'island' | null; box?: RegionBox };
+  issues: StatusBarIssue[];
+}
+
+export type TimeSourceId = 'statusBar' | 'receipt' | 'exifOriginal' | 'xmpCreate' | 'pngTime' | 'fileModified' | 'upload';
+
+export interface TimeSource {
+  id: TimeSourceId;
+  label: string;
+  raw: string;
+  local?: string;
+  timeOfDay?: number;
+  twelveHour?: boolean;
+  instant?: string;
+  box?: RegionBox;
+}
+
+export interface TimestampContradiction {
+  kind: 'mockup-clock' | 'clock-before-receipt' | 'clock-mismatch' | 'capture-before-payment' | 'stale-capture' | 'file-predates' | 'future';
+  severity: 'info' | 'warning' | 'critical';
+  sources: TimeSourceId[];
+  message: string;
+  regions?: RegionBox[];
+}
+
+export interface TimestampAnalysis {
+  sources: TimeSource[];
+  contradictions: TimestampContradiction[];
+}
+
+export interface AiStageStatus {
+  status: 'ok' | 'repaired' | 'failed' | 'skipped';
+  attempts: number;
+  error?: string;
+}
+
+export type AiCategoryKey =
+  | 'clonedRegions'
+  | 'lightingInconsistencies'
+  | 'pixelManipulation'
+  | 'fontInconsistencies'
+  | 'colorAnomalies'
+  | 'artificialElements';
+
+export interface AiCategoryVote {
+  key: AiCategoryKey;
+  flagged: number;
+  votes: number;
+  // Share of successful passes that flagged the category
+  agreement: number;
+  accepted: boolean;
+  descriptions: string[];
+}
+
+export interface AiEnsemble {
+  passes: Array<{ provider: string; model: string; status: AiStageStatus }>;
+  threshold: number;
+  categories: AiCategoryVote[];
+}
+
+export interface AiStatus {
+  provider: string | null;
+  model: string | null;
+  analysis: AiStageStatus;
+  ocr: AiStageStatus;
+  ensemble: AiEnsemble | null;
+}
+
+// 64-bit hashes as hex; similar images differ in few bits
+export interface PerceptualHashes {
+  phash: string;
+  dhash: string;
+  amount: string | null;
+}
+
+export interface SimilarSubmission {
+  id: string;
+  // Only set for the requester's own submissions
+  filename: string | null;
+  ownSubmission: boolean;
+  createdAt: string;
+  authentic: boolean | null;
+  confidence: number | null;
+  // Differing bits out of 64
+  distance: { phash: number; dhash: number; amount: number | null };
+}
+
+// What revisiting someone else's submission returns instead of the full report
+export interface SubmissionSummary {
+  submissionId: string;
+  restricted: true;
+  authentic: boolean | null;
+  confidence: number | null;
+  analyzedAt: string;
+  hashes: PerceptualHashes | null;
+}
+
+export interface AnalysisResult {
+  authentic: boolean;
+  confidence: number;
+  findings: AnalysisFinding[];
+  metadata: {
+    format: string;
+    software?: string;
+    encoder?: string;
+    estimatedQuality?: number;
+    editingDetected: boolean;
+    compressionAnomalies: CompressionAnomalies;
+    metadataInconsistencies: boolean;
+  };
+  exif?: ExifData | null;
+  png?: PngInfo | null;
+  heif?: HeifInfo | null;
+  webp?: WebpInfo | null;
+  gif?: GifInfo | null;
+  bmp?: BmpInfo | null;
+  tiff?: TiffInfo | null;
+  xmp?: XmpInfo | null;
+  icc?: IccProfile | null;
+  resolution?: ResolutionCheck | null;
+  transaction?: Transaction | null;
+  provider?: ProviderCheck | null;
+  statusBar?: StatusBarAnalysis | null;
+  timestamps?: TimestampAnalysis | null;
+  ela?: ElaResult | null;
+  copyMove?: CopyMoveResult | null;
+  ai?: AiStatus;
+  cache?: {
+    // Served from an earlier analysis of the same bytes
+    hit: boolean;
+    sha256: string;
+    analyzerVersion: string;
+    analyzedAt: string;
+  };
+  hashes?: PerceptualHashes | null;
+  submissionId?: string | null;
+  similar?: SimilarSubmission[];
+}
+
+// Events analyze-payment streams when asked for text/event-stream
+export type AnalysisPhaseId = 'cache' | 'forensics' | 'pixels' | 'vision' | 'ocr' | 'content' | 'detectors' | 'history' | 'scoring';
+
+export type AnalysisPhaseStatus = 'started' | 'finished' | 'skipped' | 'failed';
+
+export type DetectorRunStatus = 'ok' | 'skipped' | 'disabled' | 'failed';
+
+export type AnalysisProgressEvent =
+  | { type: 'phase'; phase: AnalysisPhaseId; status: AnalysisPhaseStatus; detail?: string }
+  | {
+    type: 'detector';
+    detector: { id: string; version: string; category: FindingCategory };
+    status: DetectorRunStatus;
+    findings: Array<Pick<AnalysisFinding, 'type' | 'code' | 'message'>>;
+    error?: string;
+  };
@@ -0,0 +1,108 @@
+import { AI_CATEGORY_KEYS, type AiAnalysis, type AiStageStatus } from './ai-output.ts';
+import type { VisionProvider } from './vision.ts';
+
+export type AiCategoryKey = typeof AI_CATEGORY_KEYS[number];
+
+export interface EnsembleConfig {
+  // Analysis passes per model
+  passes: number;
+  // Models to ask; empty uses the provider's configured model
+  models: string[];
+  // Share of successful passes that must flag a category before it is penalized
+  threshold: number;
+}
+
+export const DEFAULT_ENSEMBLE: EnsembleConfig = {
+  passes: 1,
+  models: [],
+  threshold: 0.5,
+};
+
+// AI_ENSEMBLE holds a JSON object with any subset of the config fields
+export function loadEnsembleConfig(): EnsembleConfig {
+  const raw = Deno.env.get('AI_ENSEMBLE');
+  if (!raw) return DEFAULT_ENSEMBLE;
+  try {
+    // Each field falls back to its default on its own, so one bad value keeps the rest
+    const overrides = JSON.parse(raw) as Record<keyof EnsembleConfig, unknown>;
+    const number = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+    const threshold = number(overrides.threshold);
+    return {
+      passes: Math.max(1, Math.min(10, Math.round(number(overrides.passes) ?? DEFAULT_ENSEMBLE.passes))),
+      models: Array.isArray(overrides.models)
+        ? overrides.models.filter((model): model is string => typeof model === 'string' && model.length > 0)
+        : DEFAULT_ENSEMBLE.models,
+      // A share, so anything outside 0..1 is a mistake rather than a stricter setting
+      threshold: threshold !== undefined && threshold >= 0 && threshold <= 1 ? threshold : DEFAULT_ENSEMBLE.threshold,
+    };
+  } catch (error) {
+    console.error('Invalid AI_ENSEMBLE, using a single pass:', error);
+    return DEFAULT_ENSEMBLE;
+  }
+}
+
+export interface EnsemblePass {
+  provider: string;
+  model: string;
+  status: AiStageStatus;
+}
+
+export interface CategoryVote {
+  key: AiCategoryKey;
+  // Successful passes that flagged the category, out of all successful passes
+  flagged: number;
+  votes: number;
+  // flagged / votes; values near 0.5 mean the passes disagree
+  agreement: number;
+  // Whether the agreement reached the threshold, making the category a finding
+  accepted: boolean;
+  // What each flagging pass reported, in pass order
+  descriptions: string[];
+}
+
+export interface EnsembleAnalysis {
+  passes: EnsemblePass[];
+  threshold: number;
+  categories: CategoryVote[];
+  // Combined status of the passes: failed only when none succeeded
+  status: AiStageStatus;
+}
+
+// Runs every model the configured number of times in parallel and votes per category
+export async function runEnsemble(
+  providers: VisionProvider[],
+  config: EnsembleConfig,
+  analyze: (vision: VisionProvider) => Promise<{ value: AiAnalysis | null; status: AiStageStatus }>
+): Promise<EnsembleAnalysis> {
+  const runs = providers.flatMap((vision) => Array.from({ length: config.passes }, () => vision));
+  const results = await Promise.all(runs.map(async (vision) => ({ vision, ...await analyze(vision) })));
+
+  const answers = results.flatMap((result) => result.value ? [result.value] : []);
+  const categories = AI_CATEGORY_KEYS.map((key): CategoryVote => {
+    const descriptions = answers.flatMap((answer) => answer[key] ? [answer[key]!] : []);
+    const agreement = answers.length > 0 ? descriptions.length / answers.length : 0;
+    return {
+      key,
+      flagged: descriptions.length,
+      votes: answers.length,
+      agreement: Math.round(agreement * 100) / 100,
+      accepted: descriptions.length > 0 && agreement >= config.threshold,
+      descriptions,
+    };
+  });
+
+  const statuses = results.map((result) => result.status);
+  const failed = statuses.filter((status) => status.status === 'failed');
+  return {
+    passes: results.map(({ vision, status }) => ({ provider: vision.id, model: vision.model, status })),
+    threshold: config.threshold,
+    categories,
+    status: {
+      status: answers.length === 0
+        ? 'failed'
+        : statuses.some((status) => status.status === 'repaired') ? 'repaired' : 'ok',
+      attempts: statuses.reduce((sum, status) => sum + status.attempts, 0),
+      error: failed.length > 0 ? failed[failed.length - 1].error : undefined,
+    },
+  };
+}
@@ -0,0 +1,145 @@
+import { z } from 'https://esm.sh/zod@3.25.76';
+import { VisionRequestError, type VisionProvider, type VisionRequest } from './vision.ts';
+
+// Models write "none" or an empty string instead of null for clean categories
+const observation = z.string().nullish().transform((value) => {
+  const text = value?.trim();
+  return !text || /^(null|none|n\/a)$/i.test(text) ? null : text;
+});
+
+export const AI_CATEGORY_KEYS = [
+  'clonedRegions',
+  'lightingInconsistencies',
+  'pixelManipulation',
+  'fontInconsistencies',
+  'colorAnomalies',
+  'artificialElements',
+] as const;
+
+export const AiAnalysisSchema = z.object(
+  Object.fromEntries(AI_CATEGORY_KEYS.map((key) => [key, observation])) as Record<typeof AI_CATEGORY_KEYS[number], typeof observation>
+);
+
+export type AiAnalysis = z.infer<typeof AiAnalysisSchema>;
+
+export const OcrOutputSchema = z.object({
+  lines: z.array(z.object({
+    text: z.string(),
+    box: z.array(z.number()).length(4).nullish(),
+    confidence: z.number().nullish(),
+  })),
+});
+
+// JSON schemas sent with the request so providers that support structured output
+// constrain the reply; the zod schemas above remain the source of truth
+export const AI_ANALYSIS_JSON_SCHEMA = {
+  name: 'screenshot_forensics',
+  schema: {
+    type: 'object',
+    properties: Object.fromEntries(AI_CATEGORY_KEYS.map((key) => [key, { type: ['string', 'null'] }])),
+    required: [...AI_CATEGORY_KEYS],
+    additionalProperties: false,
+  },
+};
+
+export const OCR_JSON_SCHEMA = {
+  name: 'screenshot_text',
+  schema: {
+    type: 'object',
+    properties: {
+      lines: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            text: { type: 'string' },
+            box: { type: 'array', items: { type: 'number' }, minItems: 4, maxItems: 4 },
+            confidence: { type: 'number' },
+          },
+          required: ['text', 'box', 'confidence'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['lines'],
+    additionalProperties: false,
+  },
+};
+
+export type AiStageOutcome = 'ok' | 'repaired' | 'failed' | 'skipped';
+
+export interface AiStageStatus {
+  status: AiStageOutcome;
+  // Requests sent to the provider, including retries
+  attempts: number;
+  // Why the last attempt was rejected, when the stage failed
+  error?: string;
+}
+
+// One initial request and up to two retries
+const MAX_ATTEMPTS = 3;
+// Keeps the echoed reply in a repair prompt from crowding out the instructions
+const MAX_ECHO = 2000;
+
+function parseReply<T>(content: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): { success: true; data: T } | { success: false; error: string } {
+  // Some models wrap JSON in a markdown fence despite being told not to
+  const text = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    return { success: false, error: `reply is not valid JSON (${error instanceof Error ? error.message : error})` };
+  }
+  const result = schema.safeParse(json);
+  if (result.success) return { success: true, data: result.data };
+  return {
+    success: false,
+    error: result.error.issues.map((issue) => `${issue.path.join('.') || 'reply'}: ${issue.message}`).join('; '),
+  };
+}
+
+const isClientError = (status: number) => status >= 400 && status < 500 && status !== 408 && status !== 429;
+
+const repairPrompt = (prompt: string, reply: string, error: string) => `${prompt}
+
+Your previous reply could not be used: ${error}.
+Previous reply:
+${reply.slice(0, MAX_ECHO)}
+
+Reply again with only the corrected JSON object.`;
+
+// Asks for JSON matching the schema, retrying failed requests and sending a repair
+// prompt that quotes the validation errors when the reply does not match
+export async function requestStructured<T>(
+  vision: VisionProvider,
+  request: VisionRequest,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): Promise<{ value: T | null; status: AiStageStatus }> {
+  let prompt = request.prompt;
+  let error = '';
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    let reply: string;
+    try {
+      reply = await vision.complete({ ...request, prompt });
+    } catch (requestError) {
+      error = requestError instanceof Error ? requestError.message : String(requestError);
+      console.error(`Vision ${request.task} request failed (attempt ${attempt}):`, error);
+      // The same request would be rejected again; only timeouts and rate limits are worth retrying
+      if (requestError instanceof VisionRequestError && isClientError(requestError.status)) {
+        return { value: null, status: { status: 'failed', attempts: attempt, error } };
+      }
+      continue;
+    }
+
+    const parsed = parseReply(reply, schema);
+    if (parsed.success) {
+      return { value: parsed.data, status: { status: prompt === request.prompt ? 'ok' : 'repaired', attempts: attempt } };
+    }
+    error = parsed.error;
+    console.error(`Vision ${request.task} reply rejected (attempt ${attempt}):`, error);
+    prompt = repairPrompt(request.prompt, reply, error);
+  }
+
+  return { value: null, status: { status: 'failed', attempts: MAX_ATTEMPTS, error } };
+}
@@ -0,0 +1,149 @@
+import { readAscii, startsWithAscii } from './bytes.ts';
+import type { DecodedImage } from './image.ts';
+
+const HEADER_TYPES: Record<number, string> = {
+  12: 'BITMAPCOREHEADER',
+  40: 'BITMAPINFOHEADER',
+  52: 'BITMAPV2INFOHEADER',
+  56: 'BITMAPV3INFOHEADER',
+  108: 'BITMAPV4HEADER',
+  124: 'BITMAPV5HEADER',
+};
+
+const COMPRESSION_TYPES: Record<number, string> = {
+  0: 'BI_RGB',
+  1: 'BI_RLE8',
+  2: 'BI_RLE4',
+  3: 'BI_BITFIELDS',
+  4: 'BI_JPEG',
+  5: 'BI_PNG',
+  6: 'BI_ALPHABITFIELDS',
+};
+
+// bV4CSType values; the four-character codes are stored little-endian, so they read reversed
+const COLOR_SPACES: Record<string, string> = {
+  'BGRs': 'sRGB',
+  ' niW': 'Windows default',
+  'KNIL': 'Linked profile',
+  'DEBM': 'Embedded profile',
+};
+
+export interface BmpInfo {
+  headerType: string;
+  width: number;
+  height: number;
+  // Rows are stored top-down when the height field is negative
+  topDown: boolean;
+  bitsPerPixel: number;
+  compression: string;
+  colorsUsed: number;
+  pixelsPerMeter: { x: number; y: number };
+  colorSpace?: string;
+  embeddedProfileSize?: number;
+  pixelOffset: number;
+  // Difference between the size in the file header and the actual file size
+  fileSizeMismatch: number;
+}
+
+export function isBmp(data: Uint8Array): boolean {
+  return startsWithAscii(data, 'BM') && data.length >= 26;
+}
+
+export function parseBmp(data: Uint8Array): BmpInfo | null {
+  if (!isBmp(data)) return null;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  const headerSize = view.getUint32(14, true);
+  if (data.length < 14 + headerSize) return null;
+
+  const core = headerSize === 12;
+  const rawHeight = core ? view.getInt16(20, true) : view.getInt32(22, true);
+  const info: BmpInfo = {
+    headerType: HEADER_TYPES[headerSize] ?? `Unknown (${headerSize} bytes)`,
+    width: core ? view.getUint16(18, true) : view.getInt32(18, true),
+    height: Math.abs(rawHeight),
+    topDown: rawHeight < 0,
+    bitsPerPixel: core ? view.getUint16(24, true) : view.getUint16(28, true),
+    compression: 'BI_RGB',
+    colorsUsed: 0,
+    pixelsPerMeter: { x: 0, y: 0 },
+    pixelOffset: view.getUint32(10, true),
+    fileSizeMismatch: data.length - view.getUint32(2, true),
+  };
+
+  if (!core && headerSize >= 40) {
+    const compression = view.getUint32(30, true);
+    info.compression = COMPRESSION_TYPES[compression] ?? `Unknown (${compression})`;
+    info.pixelsPerMeter = { x: view.getInt32(38, true), y: view.getInt32(42, true) };
+    info.colorsUsed = view.getUint32(46, true);
+  }
+
+  if (headerSize >= 108) {
+    const csType = readAscii(data, 70, 4);
+    info.colorSpace = COLOR_SPACES[csType] ?? csType;
+    // V5 headers locate an embedded ICC profile relative to the info header
+    if (headerSize >= 124 && csType === 'DEBM') {
+      info.embeddedProfileSize = view.getUint32(130, true);
+    }
+  }
+
+  return info;
+}
+
+export function analyzeBmp(bmp: BmpInfo): { suspicious: boolean; reasons: string[] } {
+  const reasons: string[] = [];
+
+  if (bmp.fileSizeMismatch > 0) {
+    reasons.push(`${bmp.fileSizeMismatch} bytes beyond the size in the file header`);
+  } else if (bmp.fileSizeMismatch < 0) {
+    reasons.push('file is shorter than its header declares');
+  }
+  if (bmp.compression === 'BI_JPEG' || bmp.compression === 'BI_PNG') {
+    reasons.push(`pixel data is an embedded ${bmp.compression === 'BI_JPEG' ? 'JPEG' : 'PNG'} stream`);
+  }
+
+  return { suspicious: reasons.length > 0, reasons };
+}
+
+// Decodes uncompressed 8-, 24- and 32-bit bitmaps, the variants screenshot and
+// paint tools write; other variants return null
+export function decodeBmp(data: Uint8Array, bmp: BmpInfo): DecodedImage | null {
+  const { width, height, bitsPerPixel } = bmp;
+  const uncompressed = bmp.compression === 'BI_RGB' || (bmp.compression === 'BI_BITFIELDS' && bitsPerPixel === 32);
+  if (!uncompressed || ![8, 24, 32].includes(bitsPerPixel) || width <= 0 || height <= 0) return null;
+
+  // Rows are padded to a multiple of four bytes
+  const stride = Math.ceil((width * bitsPerPixel) / 32) * 4;
+  if (bmp.pixelOffset + stride * height > data.length) return null;
+
+  let palette: Uint8Array | null = null;
+  if (bitsPerPixel === 8) {
+    const headerSize = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(14, true);
+    const entries = bmp.colorsUsed || 256;
+    palette = data.subarray(14 + headerSize, 14 + headerSize + entries * 4);
+  }
+
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const row = bmp.pixelOffset + (bmp.topDown ? y : height - 1 - y) * stride;
+    for (let x = 0; x < width; x++) {
+      const target = (y * width + x) * 4;
+      if (palette) {
+        const index = data[row + x] * 4;
+        rgba[target] = palette[index + 2];
+        rgba[target + 1] = palette[index + 1];
+        rgba[target + 2] = palette[index];
+      } else {
+        // Pixels are stored as BGR(A); the alpha byte of 32-bit files is
+        // usually unused, so it is ignored
+        const source = row + x * (bitsPerPixel / 8);
+        rgba[target] = data[source + 2];
+        rgba[target + 1] = data[source + 1];
+        rgba[target + 2] = data[source];
+      }
+      rgba[target + 3] = 255;
+    }
+  }
+
+  return { width, height, rgba };
+}
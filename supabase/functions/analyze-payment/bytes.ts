@@ -0,0 +1,78 @@
+export function startsWithAscii(data: Uint8Array, text: string, offset = 0): boolean {
+  if (data.length < offset + text.length) return false;
+  for (let i = 0; i < text.length; i++) {
+    if (data[offset + i] !== text.charCodeAt(i)) return false;
+  }
+  return true;
+}
+
+export function readAscii(data: Uint8Array, offset: number, length: number): string {
+  const end = Math.min(data.length, offset + length);
+  let result = '';
+  for (let i = offset; i < end; i++) {
+    result += String.fromCharCode(data[i]);
+  }
+  return result;
+}
+
+export function readUint32BE(data: Uint8Array, offset: number): number {
+  return ((data[offset] << 24) | (data[offset + 1] << 16) | (data[offset + 2] << 8) | data[offset + 3]) >>> 0;
+}
+
+export function indexOfByte(data: Uint8Array, value: number, from = 0): number {
+  for (let i = from; i < data.length; i++) {
+    if (data[i] === value) return i;
+  }
+  return -1;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array, initial = 0): number {
+  let crc = (initial ^ 0xFFFFFFFF) >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+// Inflates zlib-wrapped data, refusing to expand past maxOutput bytes so a
+// crafted chunk cannot exhaust the function's memory
+export async function inflateZlib(data: Uint8Array, maxOutput = 4 * 1024 * 1024): Promise<Uint8Array | null> {
+  try {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+    const reader = stream.getReader();
+    const parts: Uint8Array[] = [];
+    let total = 0;
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      total += value.length;
+      if (total > maxOutput) {
+        await reader.cancel();
+        return null;
+      }
+      parts.push(value);
+    }
+    const output = new Uint8Array(total);
+    let offset = 0;
+    for (const part of parts) {
+      output.set(part, offset);
+      offset += part.length;
+    }
+    return output;
+  } catch (error) {
+    console.error('Inflate error:', error);
+    return null;
+  }
+}
@@ -0,0 +1,68 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.83.0';
+import { crypto } from 'https://deno.land/std@0.168.0/crypto/mod.ts';
+
+const RESULTS_TABLE = 'analysis_results';
+
+const toHex = (bytes: Uint8Array) => [...bytes].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+
+export async function sha256Hex(data: Uint8Array): Promise<string> {
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', data)));
+}
+
+// Short hash of everything that shapes a result: detector versions, the vision model
+// and ensemble settings. A change to any of them makes earlier cache entries miss.
+export async function analyzerVersion(parts: Record<string, unknown>): Promise<string> {
+  return (await sha256Hex(new TextEncoder().encode(JSON.stringify(parts)))).slice(0, 16);
+}
+
+// Service-role client the edge runtime provides; null disables caching and history
+export function createCacheClient(): SupabaseClient | null {
+  const url = Deno.env.get('SUPABASE_URL');
+  const key = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!url || !key) {
+    console.warn('SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY not found; results are not cached.');
+    return null;
+  }
+  return createClient(url, key, { auth: { persistSession: false } });
+}
+
+export async function loadCachedRun<T>(
+  client: SupabaseClient,
+  sha256: string,
+  version: string
+): Promise<{ run: T; createdAt: string } | null> {
+  const { data, error } = await client
+    .from(RESULTS_TABLE)
+    .select('result, created_at')
+    .eq('sha256', sha256)
+    .eq('analyzer_version', version)
+    .maybeSingle();
+  if (error) {
+    console.error('Cache lookup failed:', error.message);
+    return null;
+  }
+  return data ? { run: data.result as T, createdAt: data.created_at } : null;
+}
+
+export async function storeRun<T>(client: SupabaseClient, sha256: string, version: string, run: T): Promise<void> {
+  const { error } = await client
+    .from(RESULTS_TABLE)
+    .upsert({ sha256, analyzer_version: version, result: run });
+  if (error) console.error('Cache store failed:', error.message);
+}
+
+// Newest run for the bytes under any analyzer version, for revisiting an earlier analysis
+export async function loadLatestRun<T>(client: SupabaseClient, sha256: string): Promise<{ run: T; createdAt: string; analyzerVersion: string } | null> {
+  const { data, error } = await client
+    .from(RESULTS_TABLE)
+    .select('result, created_at, analyzer_version')
+    .eq('sha256', sha256)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) {
+    console.error('Cache lookup failed:', error.message);
+    return null;
+  }
+  return data ? { run: data.result as T, createdAt: data.created_at, analyzerVersion: data.analyzer_version } : null;
+}
@@ -0,0 +1,399 @@
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { decodeLumaCoefficients, type CoefficientPlane } from './jpeg-coefficients.ts';
+import { encodePng, type DecodedImage } from './image.ts';
+import { ZIGZAG } from './jpeg.ts';
+
+// Low-frequency AC positions (zigzag order) where double quantization is most visible
+const DQ_POSITIONS = [1, 2, 3, 4, 5, 6, 7, 8, 9];
+const HISTOGRAM_RANGE = 40;
+const MIN_POSITION_SAMPLES = 2000;
+// Share of near-empty bins between two populated neighbours above which a
+// histogram counts as periodic; smooth single-compression histograms have none
+const VALLEY_THRESHOLD = 0.2;
+const VALLEY_SEARCH = 6;
+
+const GRID_TILE_BLOCKS = 8;
+const MIN_GRID_STRENGTH = 0.25;
+const MAX_REGIONS = 10;
+const MIN_REGION_BLOCKS = 6;
+
+export interface CompressionRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  kind: 'single-compressed' | 'misaligned-grid';
+}
+
+export interface DoubleQuantization {
+  detected: boolean;
+  // Share of analyzed frequencies whose histograms are periodic
+  periodicRatio: number;
+  // Median period, which approximates the ratio of the first to the second quantization step
+  period: number;
+  // Share of blocks that look singly compressed when the image as a whole is doubly compressed
+  singleCompressedRatio: number;
+}
+
+export interface BlockGrid {
+  // Offset of the 8x8 grid from the image origin; 0/0 means aligned
+  offsetX: number;
+  offsetY: number;
+  // How strongly block boundaries stand out from other pixel columns/rows
+  strength: number;
+  present: boolean;
+}
+
+export interface CompressionAnomalies {
+  score: number;
+  doubleQuantization: DoubleQuantization | null;
+  grid: BlockGrid | null;
+  regions?: CompressionRegion[];
+  // Per-block map: red marks singly compressed blocks inside a doubly compressed image
+  blockMap?: { width: number; height: number; dataUrl: string };
+}
+
+// Formats whose pixels are stored without loss; JPEG block artifacts in them
+// were baked in before the file was written
+export const LOSSLESS_FORMATS = new Set(['PNG', 'GIF', 'BMP', 'TIFF']);
+
+export async function analyzeCompression(
+  data: Uint8Array,
+  format: string,
+  image: DecodedImage | null
+): Promise<CompressionAnomalies> {
+  const plane = format === 'JPEG' ? decodeLumaCoefficients(data) : null;
+  const dq = plane ? detectDoubleQuantization(plane) : null;
+  const grid = image ? measureBlockGrid(image) : null;
+
+  const regions: CompressionRegion[] = [];
+  let blockMap: CompressionAnomalies['blockMap'];
+
+  if (dq && plane && dq.result.detected) {
+    regions.push(...findRegions(dq.singleBlocks, plane.blocksX, plane.blocksY, 8, 'single-compressed'));
+    blockMap = await renderBlockMap(dq.singleBlocks, plane.blocksX, plane.blocksY);
+  }
+  if (image && grid?.present) {
+    regions.push(...findMisalignedTiles(image, grid));
+  }
+
+  let score = 0;
+  if (dq?.result.detected) {
+    score = Math.max(score, Math.round(50 + 50 * dq.result.periodicRatio));
+  }
+  // A visible grid that does not start at the origin means the JPEG was cropped or shifted
+  if (grid?.present && (grid.offsetX !== 0 || grid.offsetY !== 0)) {
+    score = Math.max(score, 60);
+  }
+  // Block artifacts inside a lossless file mean the pixels went through JPEG first
+  if (grid?.present && LOSSLESS_FORMATS.has(format)) {
+    score = Math.max(score, 40);
+  }
+  if (regions.length > 0) {
+    score = Math.min(100, score + 10 * regions.length);
+  }
+
+  return {
+    score,
+    doubleQuantization: dq?.result ?? null,
+    grid,
+    regions: regions.length > 0 ? regions.slice(0, MAX_REGIONS) : undefined,
+    blockMap,
+  };
+}
+
+interface PositionModel {
+  position: number;
+  histogram: Float64Array;
+  // Smoothed histogram, i.e. what a single quantization would have produced
+  envelope: Float64Array;
+}
+
+function detectDoubleQuantization(
+  plane: CoefficientPlane
+): { result: DoubleQuantization; singleBlocks: Uint8Array } | null {
+  const blockCount = plane.blocksX * plane.blocksY;
+  if (blockCount * DQ_POSITIONS.length < MIN_POSITION_SAMPLES) return null;
+
+  const size = HISTOGRAM_RANGE * 2 + 1;
+  const models: PositionModel[] = [];
+  const periods: number[] = [];
+  let analyzed = 0;
+
+  for (const zigzagIndex of DQ_POSITIONS) {
+    const position = ZIGZAG[zigzagIndex];
+    const histogram = new Float64Array(size);
+    let samples = 0;
+    for (let block = 0; block < blockCount; block++) {
+      const value = plane.coefficients[block * 64 + position];
+      if (value !== 0 && Math.abs(value) <= HISTOGRAM_RANGE) {
+        histogram[value + HISTOGRAM_RANGE]++;
+        samples++;
+      }
+    }
+    if (samples < MIN_POSITION_SAMPLES / DQ_POSITIONS.length) continue;
+    analyzed++;
+
+    const envelope = smoothHistogram(histogram);
+    const period = estimatePeriod(histogram, envelope);
+    if (period > 1) {
+      periods.push(period);
+      models.push({ position, histogram, envelope });
+    }
+  }
+
+  if (analyzed === 0) return null;
+
+  const periodicRatio = periods.length / analyzed;
+  const detected = periods.length >= 2 && periodicRatio >= 0.3;
+  const singleBlocks = new Uint8Array(blockCount);
+  let singleCount = 0;
+
+  if (detected) {
+    // Per block, compare the likelihood of its coefficients under the periodic
+    // (doubly quantized) histogram against the smooth single-quantization envelope.
+    // Coefficients of pasted, singly compressed content land in the valleys.
+    const flagged = new Uint8Array(blockCount);
+    for (let block = 0; block < blockCount; block++) {
+      let logRatio = 0;
+      let used = 0;
+      for (const model of models) {
+        const value = plane.coefficients[block * 64 + model.position];
+        if (value === 0 || Math.abs(value) > HISTOGRAM_RANGE) continue;
+        const bin = value + HISTOGRAM_RANGE;
+        logRatio += Math.log(Math.max(model.histogram[bin], 0.5) / Math.max(model.envelope[bin], 0.5));
+        used++;
+      }
+      if (used > 0 && logRatio < 0) flagged[block] = 1;
+    }
+
+    // Majority filter so isolated misclassified blocks do not form regions
+    for (let y = 0; y < plane.blocksY; y++) {
+      for (let x = 0; x < plane.blocksX; x++) {
+        let votes = 0;
+        let total = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const nx = x + dx;
+            const ny = y + dy;
+            if (nx < 0 || ny < 0 || nx >= plane.blocksX || ny >= plane.blocksY) continue;
+            votes += flagged[ny * plane.blocksX + nx];
+            total++;
+          }
+        }
+        if (votes * 2 > total) {
+          singleBlocks[y * plane.blocksX + x] = 1;
+          singleCount++;
+        }
+      }
+    }
+  }
+
+  const sortedPeriods = [...periods].sort((a, b) => a - b);
+  return {
+    result: {
+      detected,
+      periodicRatio: Math.round(periodicRatio * 100) / 100,
+      period: sortedPeriods.length > 0 ? sortedPeriods[Math.floor(sortedPeriods.length / 2)] : 1,
+      singleCompressedRatio: Math.round((singleCount / blockCount) * 1000) / 1000,
+    },
+    singleBlocks,
+  };
+}
+
+function smoothHistogram(histogram: Float64Array): Float64Array {
+  // Wide enough to average over the ripple of any period up to the search limit
+  const radius = 6;
+  const envelope = new Float64Array(histogram.length);
+  for (let i = 0; i < histogram.length; i++) {
+    let sum = 0;
+    let count = 0;
+    for (let j = Math.max(0, i - radius); j <= Math.min(histogram.length - 1, i + radius); j++) {
+      sum += histogram[j];
+      count++;
+    }
+    envelope[i] = sum / count;
+  }
+  return envelope;
+}
+
+function estimatePeriod(histogram: Float64Array, envelope: Float64Array): number {
+  const center = HISTOGRAM_RANGE;
+  const peak = Math.max(...envelope);
+  let support = 0;
+  let valleys = 0;
+  let runs = 0;
+  let previousValley = true;
+
+  for (let i = 0; i < histogram.length; i++) {
+    if (i === center) continue;
+    // Only the populated part of the histogram carries evidence
+    if (envelope[i] < Math.max(5, 0.05 * peak)) continue;
+    support++;
+
+    // A valley is a bin far below populated bins on both sides, which
+    // requantizing with a smaller step leaves empty
+    let left = 0;
+    let right = 0;
+    for (let d = 1; d <= VALLEY_SEARCH; d++) {
+      if (i - d >= 0 && i - d !== center) left = Math.max(left, histogram[i - d]);
+      if (i + d < histogram.length && i + d !== center) right = Math.max(right, histogram[i + d]);
+    }
+    const valley = histogram[i] < 0.25 * Math.min(left, right);
+    if (valley) valleys++;
+    if (!valley && previousValley) runs++;
+    previousValley = valley;
+  }
+
+  if (support < 10 || valleys / support < VALLEY_THRESHOLD || runs < 2) return 1;
+  // Populated runs repeat once per period
+  return Math.round((support / runs) * 10) / 10;
+}
+
+function luminanceAt(image: DecodedImage, x: number, y: number): number {
+  const p = (y * image.width + x) * 4;
+  return 0.299 * image.rgba[p] + 0.587 * image.rgba[p + 1] + 0.114 * image.rgba[p + 2];
+}
+
+// Block artifact grid: JPEG block boundaries produce discontinuities every
+// 8 pixels. Returns the phase of the strongest discontinuity on each axis.
+function gridPhase(image: DecodedImage, x0: number, y0: number, x1: number, y1: number) {
+  const columns = new Float64Array(8);
+  const rows = new Float64Array(8);
+
+  for (let y = Math.max(1, y0); y < Math.min(image.height - 2, y1); y++) {
+    for (let x = Math.max(1, x0); x < Math.min(image.width - 2, x1); x++) {
+      const here = luminanceAt(image, x, y);
+      const right = luminanceAt(image, x + 1, y);
+      const below = luminanceAt(image, x, y + 1);
+      // Step across the boundary minus the average step on either side of it
+      columns[x % 8] += Math.abs(right - here) -
+        (Math.abs(luminanceAt(image, x + 2, y) - right) + Math.abs(here - luminanceAt(image, x - 1, y))) / 2;
+      rows[y % 8] += Math.abs(below - here) -
+        (Math.abs(luminanceAt(image, x, y + 2) - below) + Math.abs(here - luminanceAt(image, x, y - 1))) / 2;
+    }
+  }
+
+  const best = (energy: Float64Array) => {
+    let phase = 0;
+    for (let i = 1; i < 8; i++) if (energy[i] > energy[phase]) phase = i;
+    const others = energy.reduce((sum, value) => sum + Math.abs(value), 0) / 8;
+    return { phase, strength: others > 0 ? (energy[phase] - others) / others : 0 };
+  };
+
+  const column = best(columns);
+  const row = best(rows);
+  return {
+    // An aligned grid has its boundary between pixels 7 and 8, i.e. phase 7
+    offsetX: (column.phase + 1) % 8,
+    offsetY: (row.phase + 1) % 8,
+    strength: Math.min(column.strength, row.strength),
+  };
+}
+
+function measureBlockGrid(image: DecodedImage): BlockGrid {
+  const { offsetX, offsetY, strength } = gridPhase(image, 0, 0, image.width, image.height);
+  return {
+    offsetX,
+    offsetY,
+    strength: Math.round(strength * 100) / 100,
+    present: strength >= MIN_GRID_STRENGTH,
+  };
+}
+
+function findMisalignedTiles(image: DecodedImage, grid: BlockGrid): CompressionRegion[] {
+  const tileSize = GRID_TILE_BLOCKS * 8;
+  const tilesX = Math.floor(image.width / tileSize);
+  const tilesY = Math.floor(image.height / tileSize);
+  const misaligned = new Uint8Array(tilesX * tilesY);
+
+  for (let ty = 0; ty < tilesY; ty++) {
+    for (let tx = 0; tx < tilesX; tx++) {
+      const tile = gridPhase(image, tx * tileSize, ty * tileSize, (tx + 1) * tileSize, (ty + 1) * tileSize);
+      // Flat tiles carry no grid evidence either way
+      if (tile.strength < MIN_GRID_STRENGTH * 2) continue;
+      if (tile.offsetX !== grid.offsetX || tile.offsetY !== grid.offsetY) {
+        misaligned[ty * tilesX + tx] = 1;
+      }
+    }
+  }
+
+  // Single misaligned tiles are usually noise around strong UI edges
+  return findRegions(misaligned, tilesX, tilesY, tileSize, 'misaligned-grid', 2);
+}
+
+// Groups flagged cells into bounding boxes of 4-connected components
+function findRegions(
+  cells: Uint8Array,
+  columns: number,
+  rows: number,
+  cellSize: number,
+  kind: CompressionRegion['kind'],
+  minCells = MIN_REGION_BLOCKS
+): CompressionRegion[] {
+  const visited = new Uint8Array(cells.length);
+  const regions: Array<CompressionRegion & { cells: number }> = [];
+
+  for (let start = 0; start < cells.length; start++) {
+    if (!cells[start] || visited[start]) continue;
+    const stack = [start];
+    visited[start] = 1;
+    let minX = columns, minY = rows, maxX = 0, maxY = 0, count = 0;
+
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const x = cell % columns;
+      const y = Math.floor(cell / columns);
+      count++;
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+      for (const [nx, ny] of [[x - 1, y], [x + 1, y], [x, y - 1], [x, y + 1]]) {
+        if (nx < 0 || ny < 0 || nx >= columns || ny >= rows) continue;
+        const next = ny * columns + nx;
+        if (cells[next] && !visited[next]) {
+          visited[next] = 1;
+          stack.push(next);
+        }
+      }
+    }
+
+    if (count >= minCells) {
+      regions.push({
+        x: minX * cellSize,
+        y: minY * cellSize,
+        width: (maxX - minX + 1) * cellSize,
+        height: (maxY - minY + 1) * cellSize,
+        kind,
+        cells: count,
+      });
+    }
+  }
+
+  return regions
+    .sort((a, b) => b.cells - a.cells)
+    .slice(0, MAX_REGIONS)
+    .map(({ cells: _cells, ...region }) => region);
+}
+
+async function renderBlockMap(
+  singleBlocks: Uint8Array,
+  blocksX: number,
+  blocksY: number
+): Promise<CompressionAnomalies['blockMap']> {
+  const rgba = new Uint8ClampedArray(blocksX * blocksY * 4);
+  for (let i = 0; i < singleBlocks.length; i++) {
+    const p = i * 4;
+    if (singleBlocks[i]) {
+      rgba[p] = 255;
+      rgba[p + 3] = 180;
+    } else {
+      // Doubly compressed blocks are tinted faintly so the grid stays readable
+      rgba[p + 1] = 200;
+      rgba[p + 3] = 40;
+    }
+  }
+  const png = await encodePng({ width: blocksX, height: blocksY, rgba });
+  return { width: blocksX, height: blocksY, dataUrl: `data:image/png;base64,${encodeBase64(png)}` };
+}
@@ -0,0 +1,295 @@
+import type { DecodedImage } from './image.ts';
+
+// Phone screenshots are analysed at full size; larger uploads are downscaled
+// so the cost stays bounded
+const MAX_WORKING_PIXELS = 3_200_000;
+const BLOCK_SIZE = 12;
+const CELL_SIZE = BLOCK_SIZE / 3;
+// Flat backgrounds repeat everywhere in a screenshot and prove nothing
+const MIN_BLOCK_STD = 12;
+// Buckets this large are repeated UI texture (gradients, dotted rules)
+const MAX_BUCKET_SIZE = 24;
+// Allows for resampling and recompression differences between the copies
+const MAX_MEAN_ABS_DIFF = 3;
+const MIN_SHIFT = BLOCK_SIZE * 1.5;
+// Matched positions a duplicated region needs; a digit in a 3x screenshot
+// yields several hundred, coincidentally identical strokes a few dozen
+const MIN_CLUSTER_BLOCKS = 100;
+// Matches with one shift this close together belong to the same pasted region
+const MERGE_DISTANCE = BLOCK_SIZE;
+// Share of a region's blocks that must match nowhere else in the image
+const MIN_UNIQUE_RATIO = 0.5;
+const MAX_PAIRS = 10;
+const DEFAULT_BUDGET_MS = 1500;
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CopyMovePair {
+  // Pixels cannot tell the original from the copy; source is the upper one
+  source: Box;
+  target: Box;
+  offset: { dx: number; dy: number };
+  // 1 means pixel-identical
+  similarity: number;
+  blocks: number;
+}
+
+export interface CopyMoveResult {
+  // Dimensions of the analysed image; boxes are in these pixel coordinates
+  width: number;
+  height: number;
+  pairs: CopyMovePair[];
+  blocksCompared: number;
+  elapsedMs: number;
+  // True when the time budget ran out before every bucket was compared
+  truncated: boolean;
+}
+
+interface WorkingImage {
+  width: number;
+  height: number;
+  luma: Float32Array;
+  scale: number;
+}
+
+interface ShiftCluster {
+  dx: number;
+  dy: number;
+  positions: Array<[number, number]>;
+  differenceSum: number;
+}
+
+export function detectCopyMove(image: DecodedImage, budgetMs = DEFAULT_BUDGET_MS): CopyMoveResult {
+  const started = performance.now();
+  const working = toWorkingLuma(image);
+  const { width, height, luma } = working;
+
+  const integral = buildIntegral(luma, width, height, false);
+  const integralSquared = buildIntegral(luma, width, height, true);
+  const area = (table: Float64Array, x: number, y: number, size: number) => {
+    const w = width + 1;
+    return table[(y + size) * w + x + size] - table[y * w + x + size] - table[(y + size) * w + x] + table[y * w + x];
+  };
+
+  // Mean of the cell anchored at every pixel, so descriptors are nine lookups
+  const cellMeans = new Float32Array(width * height);
+  for (let y = 0; y + CELL_SIZE <= height; y++) {
+    for (let x = 0; x + CELL_SIZE <= width; x++) {
+      cellMeans[y * width + x] = area(integral, x, y, CELL_SIZE) / (CELL_SIZE * CELL_SIZE);
+    }
+  }
+
+  const clusters = new Map<string, ShiftCluster>();
+  let blocksCompared = 0;
+  let truncated = false;
+
+  // Bucket textured blocks by a coarse descriptor: 3x3 cell means relative to
+  // the block mean, packed 5 bits per cell above the quantized block mean
+  // Positions are stored as raster indices, so each bucket is in raster order
+  const buckets = new Map<number, number[]>();
+  const pixels = BLOCK_SIZE * BLOCK_SIZE;
+  for (let y = 0; y + BLOCK_SIZE <= height; y++) {
+    if (performance.now() - started > budgetMs) {
+      truncated = true;
+      break;
+    }
+    for (let x = 0; x + BLOCK_SIZE <= width; x++) {
+      const mean = area(integral, x, y, BLOCK_SIZE) / pixels;
+      const variance = area(integralSquared, x, y, BLOCK_SIZE) / pixels - mean * mean;
+      if (variance < MIN_BLOCK_STD * MIN_BLOCK_STD) continue;
+
+      let key = Math.round(mean / 8);
+      for (let cy = 0; cy < 3; cy++) {
+        for (let cx = 0; cx < 3; cx++) {
+          const cellMean = cellMeans[(y + cy * CELL_SIZE) * width + x + cx * CELL_SIZE];
+          const level = Math.max(-15, Math.min(15, Math.round((cellMean - mean) / 6)));
+          key = key * 32 + level + 16;
+        }
+      }
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(y * width + x);
+      else buckets.set(key, [y * width + x]);
+    }
+  }
+
+  // Distinct matches per block position; glyphs and icons repeated across the
+  // UI match in many places, while a cloned region has a single partner
+  const partners = new Uint8Array(width * height);
+
+  outer:
+  for (const bucket of buckets.values()) {
+    if (truncated) break;
+    if (bucket.length < 2 || bucket.length > MAX_BUCKET_SIZE) continue;
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        if ((++blocksCompared & 0xFF) === 0 && performance.now() - started > budgetMs) {
+          truncated = true;
+          break outer;
+        }
+
+        // Raster order gives every pair the same direction, so A→B and B→A
+        // land in the same cluster
+        const ax = bucket[i] % width;
+        const ay = Math.floor(bucket[i] / width);
+        const bx = bucket[j] % width;
+        const by = Math.floor(bucket[j] / width);
+        const dx = bx - ax;
+        const dy = by - ay;
+        if (Math.hypot(dx, dy) < MIN_SHIFT) continue;
+
+        const difference = meanAbsDifference(luma, width, ax, ay, bx, by);
+        if (difference > MAX_MEAN_ABS_DIFF) continue;
+
+        partners[bucket[i]]++;
+        partners[bucket[j]]++;
+        const key = `${dx},${dy}`;
+        const cluster = clusters.get(key);
+        if (cluster) {
+          cluster.positions.push([ax, ay]);
+          cluster.differenceSum += difference;
+        } else {
+          clusters.set(key, { dx, dy, positions: [[ax, ay]], differenceSum: difference });
+        }
+      }
+    }
+  }
+
+  const pairs: CopyMovePair[] = [];
+  for (const cluster of clusters.values()) {
+    if (cluster.positions.length < MIN_CLUSTER_BLOCKS) continue;
+    const similarity = Math.round((1 - cluster.differenceSum / cluster.positions.length / 255) * 1000) / 1000;
+    for (const component of connectedComponents(cluster.positions)) {
+      if (component.length < MIN_CLUSTER_BLOCKS) continue;
+      const unique = component.filter(([x, y]) =>
+        partners[y * width + x] === 1 && partners[(y + cluster.dy) * width + x + cluster.dx] === 1
+      ).length;
+      if (unique < component.length * MIN_UNIQUE_RATIO) continue;
+      const source = boundingBox(component);
+      pairs.push({
+        source: scaleBox(source, working.scale),
+        target: scaleBox({ ...source, x: source.x + cluster.dx, y: source.y + cluster.dy }, working.scale),
+        offset: { dx: Math.round(cluster.dx * working.scale), dy: Math.round(cluster.dy * working.scale) },
+        similarity,
+        blocks: component.length,
+      });
+    }
+  }
+
+  pairs.sort((a, b) => b.blocks - a.blocks);
+
+  return {
+    width: image.width,
+    height: image.height,
+    pairs: pairs.slice(0, MAX_PAIRS),
+    blocksCompared,
+    elapsedMs: Math.round(performance.now() - started),
+    truncated,
+  };
+}
+
+function toWorkingLuma(image: DecodedImage): WorkingImage {
+  // Integer factors keep copies pixel-identical after downscaling when their
+  // offset is a multiple of the factor
+  const scale = Math.ceil(Math.sqrt((image.width * image.height) / MAX_WORKING_PIXELS));
+  const width = Math.floor(image.width / scale);
+  const height = Math.floor(image.height / scale);
+  const luma = new Float32Array(width * height);
+
+  // Box filter: every source pixel contributes to exactly one working pixel
+  const counts = new Uint16Array(width * height);
+  for (let y = 0; y < image.height; y++) {
+    const wy = Math.min(height - 1, Math.floor(y / scale));
+    for (let x = 0; x < image.width; x++) {
+      const wx = Math.min(width - 1, Math.floor(x / scale));
+      const p = (y * image.width + x) * 4;
+      luma[wy * width + wx] += 0.299 * image.rgba[p] + 0.587 * image.rgba[p + 1] + 0.114 * image.rgba[p + 2];
+      counts[wy * width + wx]++;
+    }
+  }
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] /= counts[i] || 1;
+  }
+
+  return { width, height, luma, scale };
+}
+
+function buildIntegral(luma: Float32Array, width: number, height: number, squared: boolean): Float64Array {
+  const w = width + 1;
+  const table = new Float64Array(w * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      const value = luma[y * width + x];
+      rowSum += squared ? value * value : value;
+      table[(y + 1) * w + x + 1] = table[y * w + x + 1] + rowSum;
+    }
+  }
+  return table;
+}
+
+function meanAbsDifference(luma: Float32Array, width: number, ax: number, ay: number, bx: number, by: number): number {
+  let sum = 0;
+  for (let y = 0; y < BLOCK_SIZE; y++) {
+    const rowA = (ay + y) * width + ax;
+    const rowB = (by + y) * width + bx;
+    for (let x = 0; x < BLOCK_SIZE; x++) {
+      sum += Math.abs(luma[rowA + x] - luma[rowB + x]);
+    }
+  }
+  return sum / (BLOCK_SIZE * BLOCK_SIZE);
+}
+
+// Splits block positions sharing one shift vector into spatially separate
+// groups, bridging the flat gaps between glyphs of one pasted region
+function connectedComponents(positions: Array<[number, number]>): Array<Array<[number, number]>> {
+  const remaining = new Map(positions.map((position) => [`${position[0]},${position[1]}`, position]));
+  const components: Array<Array<[number, number]>> = [];
+
+  for (const [key, start] of remaining) {
+    remaining.delete(key);
+    const component: Array<[number, number]> = [start];
+    const stack = [start];
+    while (stack.length > 0) {
+      const [x, y] = stack.pop()!;
+      for (let dy = -MERGE_DISTANCE; dy <= MERGE_DISTANCE; dy++) {
+        for (let dx = -MERGE_DISTANCE; dx <= MERGE_DISTANCE; dx++) {
+          const neighbourKey = `${x + dx},${y + dy}`;
+          const neighbour = remaining.get(neighbourKey);
+          if (neighbour) {
+            remaining.delete(neighbourKey);
+            component.push(neighbour);
+            stack.push(neighbour);
+          }
+        }
+      }
+    }
+    components.push(component);
+  }
+
+  return components;
+}
+
+function boundingBox(positions: Array<[number, number]>): Box {
+  let minX = Infinity, minY = Infinity, maxX = 0, maxY = 0;
+  for (const [x, y] of positions) {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }
+  return { x: minX, y: minY, width: maxX - minX + BLOCK_SIZE, height: maxY - minY + BLOCK_SIZE };
+}
+
+function scaleBox(box: Box, scale: number): Box {
+  return {
+    x: Math.round(box.x * scale),
+    y: Math.round(box.y * scale),
+    width: Math.round(box.width * scale),
+    height: Math.round(box.height * scale),
+  };
+}
@@ -0,0 +1,160 @@
+import type { EnsembleAnalysis } from './ai-ensemble.ts';
+import type { Box, CopyMoveResult } from './copy-move.ts';
+import type { BmpInfo } from './bmp.ts';
+import type { CompressionAnomalies } from './compression.ts';
+import type { ResolutionCheck } from './devices.ts';
+import type { ElaResult } from './ela.ts';
+import type { ExifData } from './exif.ts';
+import type { GifInfo } from './gif.ts';
+import type { HeifInfo } from './heif.ts';
+import type { IccProfile, Platform } from './icc.ts';
+import type { DecodedImage } from './image.ts';
+import type { EncoderMatch, JpegFingerprint } from './jpeg-encoders.ts';
+import type { OcrLine } from './ocr.ts';
+import type { PngInfo } from './png.ts';
+import type { TemplateVerification } from './provider-verifier.ts';
+import type { ProviderClassification } from './providers.ts';
+import type { StatusBarAnalysis } from './statusbar.ts';
+import type { TiffInfo } from './tiff.ts';
+import type { TimestampAnalysis } from './timestamps.ts';
+import type { Transaction } from './transaction.ts';
+import type { WebpInfo } from './webp.ts';
+import type { XmpInfo } from './xmp.ts';
+
+// Everything the pipeline parsed and measured, shared by all detectors
+export interface DetectorContext {
+  data: Uint8Array;
+  format: string;
+  exif: ExifData | null;
+  png: PngInfo | null;
+  heif: HeifInfo | null;
+  webp: WebpInfo | null;
+  gif: GifInfo | null;
+  bmp: BmpInfo | null;
+  tiff: TiffInfo | null;
+  xmp: XmpInfo | null;
+  icc: IccProfile | null;
+  platform: Platform | null;
+  resolution: ResolutionCheck | null;
+  jpeg: { fingerprint: JpegFingerprint; match: EncoderMatch } | null;
+  // Editor and app names found in metadata
+  signatures: { software: string[]; apps: string[] };
+  decoded: DecodedImage | null;
+  ela: ElaResult | null;
+  compression: CompressionAnomalies;
+  copyMove: CopyMoveResult | null;
+  ocrLines: OcrLine[] | null;
+  transaction: Transaction | null;
+  provider: (ProviderClassification & TemplateVerification) | null;
+  statusBar: StatusBarAnalysis | null;
+  ai: EnsembleAnalysis | null;
+}
+
+// What request detectors see. Their checks depend on the upload itself, such as the file's
+// modification time and when it arrived, so they run on every request outside the cached run.
+export interface RequestContext {
+  format: string;
+  timestamps: TimestampAnalysis | null;
+}
+
+// Groups findings in the report
+export type FindingCategory = 'metadata' | 'format' | 'device' | 'pixel' | 'content' | 'ai' | 'history';
+
+export interface DetectorFinding {
+  type: 'info' | 'warning' | 'critical';
+  // Stable identifier the scoring policy and clients refer to, e.g. "META_EXIF_MISSING"
+  code: string;
+  message: string;
+  // Confidence penalty before the policy is applied
+  weight: number;
+  regions?: Box[];
+  // Raw values the finding was derived from: tag values, byte offsets, scores
+  evidence?: Record<string, unknown>;
+  // The finding proves the file was edited
+  editing?: boolean;
+  // The finding is a contradiction within the metadata
+  metadata?: boolean;
+}
+
+export interface Detector<Context = DetectorContext> {
+  id: string;
+  version: string;
+  category: FindingCategory;
+  // Formats from detectImageFormat the detector applies to; all when omitted
+  formats?: string[];
+  run(context: Context): DetectorFinding[];
+}
+
+// What a finding records about its detector; plain data, so outputs survive the result cache
+export type DetectorInfo = Pick<Detector, 'id' | 'version' | 'category'>;
+
+export interface DetectorOutput {
+  detector: DetectorInfo;
+  finding: DetectorFinding;
+}
+
+const registry = new Map<string, Detector>();
+const requestRegistry = new Map<string, Detector<RequestContext>>();
+
+export function registerDetector(detector: Detector): void {
+  if (registry.has(detector.id) || requestRegistry.has(detector.id)) {
+    throw new Error(`Detector ${detector.id} is already registered`);
+  }
+  registry.set(detector.id, detector);
+}
+
+export function registerRequestDetector(detector: Detector<RequestContext>): void {
+  if (registry.has(detector.id) || requestRegistry.has(detector.id)) {
+    throw new Error(`Detector ${detector.id} is already registered`);
+  }
+  requestRegistry.set(detector.id, detector);
+}
+
+// Registration order, which is also the order findings are reported in
+export function getDetectors(): Detector[] {
+  return [...registry.values()];
+}
+
+export function getRequestDetectors(): Detector<RequestContext>[] {
+  return [...requestRegistry.values()];
+}
+
+// ok when the detector ran, whether or not it found anything; skipped when the format does not apply
+export type DetectorStatus = 'ok' | 'skipped' | 'failed';
+
+export interface DetectorOutcome {
+  detector: DetectorInfo;
+  status: DetectorStatus;
+  findings: DetectorFinding[];
+  error?: string;
+}
+
+export function runDetectors<Context extends { format: string }>(
+  detectors: Detector<Context>[],
+  context: Context,
+  onOutcome: (outcome: DetectorOutcome) => void = () => {}
+): DetectorOutput[] {
+  const outputs: DetectorOutput[] = [];
+  for (const detector of detectors) {
+    const info = { id: detector.id, version: detector.version, category: detector.category };
+    if (detector.formats && !detector.formats.includes(context.format)) {
+      onOutcome({ detector: info, status: 'skipped', findings: [] });
+      continue;
+    }
+    let findings: DetectorFinding[];
+    try {
+      findings = detector.run(context);
+    } catch (error) {
+      // One failing detector must not take the whole analysis down
+      console.error(`Detector ${detector.id} failed:`, error);
+      onOutcome({ detector: info, status: 'failed', findings: [], error: error instanceof Error ? error.message : String(error) });
+      continue;
+    }
+    for (const finding of findings) {
+      outputs.push({ detector: info, finding });
+    }
+    // Reported outside the try, so only the detector itself can mark it failed
+    onOutcome({ detector: info, status: 'ok', findings });
+  }
+  return outputs;
+}
@@ -0,0 +1,156 @@
+import type { AiCategoryKey } from '../ai-ensemble.ts';
+import type { Detector, DetectorFinding, RequestContext } from '../detector.ts';
+
+export const providerTemplateDetector: Detector = {
+  id: 'provider-template',
+  version: '1.0.0',
+  category: 'content',
+  run({ provider }) {
+    if (!provider) return [];
+    return provider.deviations.map((deviation): DetectorFinding => ({
+      type: deviation.severity,
+      code: `CONTENT_TEMPLATE_${deviation.kind.toUpperCase()}`,
+      message: `${provider.name} template deviation: ${deviation.message}.`,
+      weight: deviation.severity === 'warning' ? 8 : 0,
+      regions: deviation.box ? [deviation.box] : undefined,
+      evidence: { provider: provider.provider, era: provider.era, score: provider.score },
+    }));
+  },
+};
+
+export const statusBarDetector: Detector = {
+  id: 'status-bar',
+  version: '1.0.0',
+  category: 'content',
+  run({ statusBar }) {
+    if (!statusBar) return [];
+    return statusBar.issues.map((issue): DetectorFinding => ({
+      type: issue.severity,
+      code: `CONTENT_STATUS_BAR_${issue.kind.toUpperCase()}`,
+      message: `Status bar: ${issue.message}.`,
+      weight: issue.severity === 'warning' ? 10 : 0,
+      regions: issue.box ? [issue.box] : undefined,
+      evidence: { style: statusBar.style, cutout: statusBar.cutout.expected },
+    }));
+  },
+};
+
+const TIMESTAMP_WEIGHTS = { info: 0, warning: 10, critical: 25 };
+
+export const timestampDetector: Detector<RequestContext> = {
+  id: 'timestamps',
+  version: '1.0.0',
+  category: 'content',
+  run({ timestamps }) {
+    if (!timestamps) return [];
+    return timestamps.contradictions.map((contradiction): DetectorFinding => ({
+      type: contradiction.severity,
+      code: `CONTENT_TIME_${contradiction.kind.toUpperCase().replace(/-/g, '_')}`,
+      message: `Timestamp contradiction: ${contradiction.message}.`,
+      weight: TIMESTAMP_WEIGHTS[contradiction.severity],
+      regions: contradiction.regions,
+      evidence: Object.fromEntries(
+        timestamps.sources
+          .filter((source) => contradiction.sources.includes(source.id))
+          .map((source) => [source.id, source.raw])
+      ),
+    }));
+  },
+};
+
+// How each category the vision model reports is judged
+const AI_CATEGORIES: Array<{
+  key: AiCategoryKey;
+  code: string;
+  type: DetectorFinding['type'];
+  weight: number;
+  editing: boolean;
+  describe: (text: string) => string;
+}> = [
+  {
+    key: 'clonedRegions',
+    code: 'AI_CLONED_REGIONS',
+    type: 'critical',
+    weight: 35,
+    editing: true,
+    describe: (text) => `AI detected cloned/copied regions: ${text}. This indicates copy-paste manipulation.`,
+  },
+  {
+    key: 'lightingInconsistencies',
+    code: 'AI_LIGHTING_INCONSISTENCIES',
+    type: 'critical',
+    weight: 30,
+    editing: true,
+    describe: (text) => `Lighting inconsistencies detected: ${text}. Different parts of the image have inconsistent illumination.`,
+  },
+  {
+    key: 'pixelManipulation',
+    code: 'AI_PIXEL_MANIPULATION',
+    type: 'critical',
+    weight: 40,
+    editing: true,
+    describe: (text) => `Pixel-level manipulation detected: ${text}. Text or numbers appear to have been altered.`,
+  },
+  {
+    key: 'fontInconsistencies',
+    code: 'AI_FONT_INCONSISTENCIES',
+    type: 'warning',
+    weight: 15,
+    editing: false,
+    describe: (text) => `Font inconsistencies detected: ${text}. Text rendering appears unnatural.`,
+  },
+  {
+    key: 'colorAnomalies',
+    code: 'AI_COLOR_ANOMALIES',
+    type: 'warning',
+    weight: 10,
+    editing: false,
+    describe: (text) => `Color anomalies detected: ${text}. Color distribution is inconsistent with authentic screenshots.`,
+  },
+  {
+    key: 'artificialElements',
+    code: 'AI_ARTIFICIAL_ELEMENTS',
+    type: 'info',
+    weight: 5,
+    editing: false,
+    describe: (text) => `Possible artificial elements: ${text}`,
+  },
+];
+
+export const aiVisualDetector: Detector = {
+  id: 'ai-visual',
+  version: '1.1.0',
+  category: 'ai',
+  run({ ai }) {
+    if (!ai) return [];
+    return AI_CATEGORIES.flatMap((category): DetectorFinding[] => {
+      const vote = ai.categories.find((candidate) => candidate.key === category.key);
+      if (!vote || vote.flagged === 0) return [];
+      const evidence = {
+        [category.key]: vote.descriptions[0],
+        flagged: vote.flagged,
+        votes: vote.votes,
+        agreement: vote.agreement,
+      };
+      // A category only some passes report is shown without a penalty
+      if (!vote.accepted) {
+        return [{
+          type: 'info',
+          code: `${category.code}_UNCONFIRMED`,
+          message: `Unconfirmed: ${category.describe(vote.descriptions[0])} Only ${vote.flagged} of ${vote.votes} AI passes reported this, below the ${Math.round(ai.threshold * 100)}% agreement threshold.`,
+          weight: 0,
+          evidence,
+        }];
+      }
+      const passes = vote.votes > 1 ? ` ${vote.flagged} of ${vote.votes} AI passes agree.` : '';
+      return [{
+        type: category.type,
+        code: category.code,
+        message: `${category.describe(vote.descriptions[0])}${passes}`,
+        weight: category.weight,
+        evidence,
+        editing: category.editing || undefined,
+      }];
+    });
+  },
+};
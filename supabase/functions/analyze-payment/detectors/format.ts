@@ -0,0 +1,179 @@
+import { analyzeBmp } from '../bmp.ts';
+import type { Detector, DetectorFinding } from '../detector.ts';
+import { analyzeGif } from '../gif.ts';
+import { analyzeHeif } from '../heif.ts';
+import { analyzePNG } from '../png.ts';
+import { analyzeTiff } from '../tiff.ts';
+import { analyzeWebp } from '../webp.ts';
+
+// Container anomalies share one shape across the formats that report them
+const structureFinding = (
+  code: string,
+  analysis: { suspicious: boolean; reasons: string[] },
+  describe: (reasons: string) => string
+): DetectorFinding[] => analysis.suspicious
+  ? [{ type: 'warning', code, message: describe(analysis.reasons.join('; ')), weight: 10, evidence: { reasons: analysis.reasons } }]
+  : [];
+
+export const pngDetector: Detector = {
+  id: 'png',
+  version: '1.0.0',
+  category: 'format',
+  formats: ['PNG'],
+  run({ png }) {
+    if (!png) return [];
+    return structureFinding('FORMAT_PNG_STRUCTURE', analyzePNG(png), (reasons) =>
+      `PNG metadata suggests possible screenshot conversion or editing: ${reasons}.`
+    );
+  },
+};
+
+export const jpegDetector: Detector = {
+  id: 'jpeg',
+  version: '1.0.0',
+  category: 'format',
+  formats: ['JPEG'],
+  run({ jpeg }) {
+    if (!jpeg) return [];
+    const findings: DetectorFinding[] = [];
+    const { fingerprint, match } = jpeg;
+    const qualityText = match.quality !== null ? ` (estimated quality ${match.quality})` : '';
+    const evidence = { encoder: match.encoder, category: match.category, quality: match.quality };
+
+    if (match.category === 'editor') {
+      findings.push({
+        type: 'critical',
+        code: 'FORMAT_JPEG_EDITOR_ENCODER',
+        message: `JPEG quantization tables and markers match ${match.encoder}${qualityText}. Genuine phone screenshots are never encoded by desktop editors.`,
+        weight: 30,
+        evidence,
+        editing: true,
+      });
+    } else if (match.category === 'messaging') {
+      findings.push({
+        type: 'warning',
+        code: 'FORMAT_JPEG_MESSAGING_ENCODER',
+        message: `JPEG was re-encoded by ${match.encoder}${qualityText}. The original screenshot and its metadata are no longer available.`,
+        weight: 5,
+        evidence,
+      });
+    } else {
+      findings.push({
+        type: 'info',
+        code: 'FORMAT_JPEG_ENCODER',
+        message: `JPEG encoder fingerprint: ${match.encoder}${qualityText}.`,
+        weight: 0,
+        evidence,
+      });
+    }
+
+    if (fingerprint.tablesRedefined) {
+      findings.push({
+        type: 'critical',
+        code: 'FORMAT_JPEG_TABLES_REDEFINED',
+        message: 'JPEG redefines the same quantization table with different values, indicating selective editing or manipulation.',
+        weight: 25,
+      });
+    }
+    return findings;
+  },
+};
+
+export const heifDetector: Detector = {
+  id: 'heif',
+  version: '1.0.0',
+  category: 'format',
+  formats: ['HEIC', 'HEIF'],
+  run({ heif }) {
+    if (!heif) return [];
+    return structureFinding('FORMAT_HEIF_STRUCTURE', analyzeHeif(heif), (reasons) =>
+      `HEIF container structure suggests the image was modified after capture: ${reasons}.`
+    );
+  },
+};
+
+export const webpDetector: Detector = {
+  id: 'webp',
+  version: '1.0.0',
+  category: 'format',
+  formats: ['WEBP'],
+  run({ webp }) {
+    if (!webp) return [];
+    const findings: DetectorFinding[] = [webp.lossy
+      ? {
+          type: 'warning',
+          code: 'FORMAT_WEBP_LOSSY',
+          message: 'Lossy WebP (VP8) re-encode. Phones save screenshots as PNG, JPEG or HEIC, so this file was converted by a messaging app, browser or converter, which also hides pixel-level editing traces.',
+          weight: 5,
+        }
+      : {
+          type: 'info',
+          code: 'FORMAT_WEBP_LOSSLESS',
+          message: 'Lossless WebP (VP8L). The pixels were converted from another format without further loss.',
+          weight: 0,
+        }];
+    return findings.concat(structureFinding('FORMAT_WEBP_STRUCTURE', analyzeWebp(webp), (reasons) =>
+      `WebP container structure is unusual: ${reasons}.`
+    ));
+  },
+};
+
+export const gifDetector: Detector = {
+  id: 'gif',
+  version: '1.0.0',
+  category: 'format',
+  formats: ['GIF'],
+  run({ gif }) {
+    if (!gif) return [];
+    const findings: DetectorFinding[] = [{
+      type: 'warning',
+      code: 'FORMAT_GIF_PALETTE',
+      message: `GIF limits each frame to 256 colors${gif.globalColors ? ` (this file uses a ${gif.globalColors}-color palette)` : ''}. Screenshots are never captured as GIF, so the image was converted and its original metadata is gone.`,
+      weight: 10,
+      evidence: { globalColors: gif.globalColors },
+    }];
+    return findings.concat(structureFinding('FORMAT_GIF_STRUCTURE', analyzeGif(gif), (reasons) =>
+      `GIF structure is unusual: ${reasons}.`
+    ));
+  },
+};
+
+export const bmpDetector: Detector = {
+  id: 'bmp',
+  version: '1.0.0',
+  category: 'format',
+  formats: ['BMP'],
+  run({ bmp }) {
+    if (!bmp) return [];
+    const findings: DetectorFinding[] = [{
+      type: 'warning',
+      code: 'FORMAT_BMP',
+      message: `BMP (${bmp.headerType}, ${bmp.bitsPerPixel}-bit) carries no capture metadata. Phones never save screenshots as BMP; it is typically written by desktop tools such as Paint after pasting from the clipboard.`,
+      weight: 5,
+      evidence: { headerType: bmp.headerType, bitsPerPixel: bmp.bitsPerPixel },
+    }];
+    return findings.concat(structureFinding('FORMAT_BMP_STRUCTURE', analyzeBmp(bmp), (reasons) =>
+      `BMP structure is unusual: ${reasons}.`
+    ));
+  },
+};
+
+export const tiffDetector: Detector = {
+  id: 'tiff',
+  version: '1.0.0',
+  category: 'format',
+  formats: ['TIFF'],
+  run({ tiff }) {
+    if (!tiff) return [];
+    const findings: DetectorFinding[] = [{
+      type: 'info',
+      code: 'FORMAT_TIFF',
+      message: `TIFF (${tiff.compression} compression, ${tiff.width}x${tiff.height}). TIFF screenshots come from desktop capture or export tools rather than phones.`,
+      weight: 0,
+      evidence: { compression: tiff.compression },
+    }];
+    return findings.concat(structureFinding('FORMAT_TIFF_STRUCTURE', analyzeTiff(tiff), (reasons) =>
+      `TIFF structure is unusual: ${reasons}.`
+    ));
+  },
+};
@@ -0,0 +1,40 @@
+import { registerDetector, registerRequestDetector } from '../detector.ts';
+import { aiVisualDetector, providerTemplateDetector, statusBarDetector, timestampDetector } from './content.ts';
+import { bmpDetector, gifDetector, heifDetector, jpegDetector, pngDetector, tiffDetector, webpDetector } from './format.ts';
+import {
+  appSignatureDetector,
+  exifDetector,
+  iccDetector,
+  resolutionDetector,
+  softwareDetector,
+  xmpDetector,
+} from './metadata.ts';
+import { compressionDetector, copyMoveDetector, elaDetector } from './pixel.ts';
+
+// Built-in detectors, in the order their findings are reported
+[
+  exifDetector,
+  softwareDetector,
+  xmpDetector,
+  iccDetector,
+  resolutionDetector,
+  pngDetector,
+  jpegDetector,
+  heifDetector,
+  webpDetector,
+  gifDetector,
+  bmpDetector,
+  tiffDetector,
+  appSignatureDetector,
+  elaDetector,
+  compressionDetector,
+  copyMoveDetector,
+  providerTemplateDetector,
+  statusBarDetector,
+  aiVisualDetector,
+].forEach(registerDetector);
+
+// Built-in request detectors, reported after the pipeline's findings
+[
+  timestampDetector,
+].forEach(registerRequestDetector);
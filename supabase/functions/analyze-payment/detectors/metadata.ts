@@ -0,0 +1,232 @@
+import type { Detector, DetectorFinding } from '../detector.ts';
+import { getExifString, parseExifDate } from '../exif.ts';
+import { analyzeIcc, compareIccProfile } from '../icc.ts';
+import { findEditorEvents } from '../xmp.ts';
+
+// Where each name first appears in the file, ignoring case; null when it
+// was only found in a parsed value that is stored compressed
+function locate(data: Uint8Array, names: string[]): Array<{ name: string; offset: number | null }> {
+  return names.map((name) => {
+    const needle = [...name.toLowerCase()].map((char) => char.charCodeAt(0));
+    for (let i = 0; i + needle.length <= data.length; i++) {
+      let j = 0;
+      while (j < needle.length && (data[i + j] | 0x20) === (needle[j] | 0x20)) j++;
+      if (j === needle.length) return { name, offset: i };
+    }
+    return { name, offset: null };
+  });
+}
+
+// Both signature lists agreeing is treated as proof rather than a hint
+const strongEvidence = (signatures: { software: string[]; apps: string[] }) =>
+  signatures.software.length + signatures.apps.length > 1;
+
+export const exifDetector: Detector = {
+  id: 'exif',
+  version: '1.0.0',
+  category: 'metadata',
+  run({ exif, format }) {
+    // GIF and BMP have no EXIF container; their format findings cover provenance
+    if (!exif) {
+      if (format === 'GIF' || format === 'BMP') return [];
+      return [{
+        type: 'warning',
+        code: 'META_EXIF_MISSING',
+        message: 'No EXIF data found. This could indicate metadata has been stripped, which is common with edited images.',
+        weight: 15,
+        metadata: true,
+      }];
+    }
+
+    const modifiedAt = parseExifDate(getExifString(exif, 'DateTime'), getExifString(exif, 'OffsetTime'));
+    const capturedAt = parseExifDate(getExifString(exif, 'DateTimeOriginal'), getExifString(exif, 'OffsetTimeOriginal'));
+    // Cameras and screenshot tools write both tags at capture time; editors bump DateTime on save
+    if (modifiedAt && capturedAt && Math.abs(modifiedAt.getTime() - capturedAt.getTime()) > 60_000) {
+      return [{
+        type: 'warning',
+        code: 'META_EXIF_RESAVED',
+        message: `EXIF modification date (${getExifString(exif, 'DateTime')}) differs from the original capture date (${getExifString(exif, 'DateTimeOriginal')}), indicating the file was re-saved after capture.`,
+        weight: 10,
+        evidence: { modified: getExifString(exif, 'DateTime'), captured: getExifString(exif, 'DateTimeOriginal') },
+        metadata: true,
+      }];
+    }
+    return [];
+  },
+};
+
+export const softwareDetector: Detector = {
+  id: 'software',
+  version: '1.0.0',
+  category: 'metadata',
+  run({ signatures, data }) {
+    if (signatures.software.length === 0) return [];
+    const strong = strongEvidence(signatures);
+    return [{
+      type: strong ? 'critical' : 'warning',
+      code: strong ? 'META_EDITOR_SOFTWARE' : 'META_EDITOR_SOFTWARE_HINT',
+      message: `Editing software detected in metadata: ${signatures.software.join(', ')}.`,
+      weight: strong ? 30 : 10,
+      evidence: { software: locate(data, signatures.software) },
+      editing: strong,
+    }];
+  },
+};
+
+export const xmpDetector: Detector = {
+  id: 'xmp',
+  version: '1.0.0',
+  category: 'metadata',
+  run({ xmp }) {
+    if (!xmp) return [];
+    const findings: DetectorFinding[] = [];
+
+    const editorEvents = findEditorEvents(xmp);
+    if (editorEvents.length > 0) {
+      const agents = [...new Set(editorEvents.map((event) => event.softwareAgent))].join(', ');
+      const last = editorEvents[editorEvents.length - 1];
+      findings.push({
+        type: 'critical',
+        code: 'META_XMP_EDIT_HISTORY',
+        message: `XMP edit history records ${editorEvents.length} save/convert event(s) by ${agents}${last.when ? `, the last at ${last.when}` : ''}. The image was written by an editor after capture.`,
+        weight: 30,
+        evidence: { events: editorEvents },
+        editing: true,
+      });
+    }
+
+    if (xmp.documentAncestorCount > 0) {
+      findings.push({
+        type: 'warning',
+        code: 'META_XMP_ANCESTORS',
+        message: `XMP lists ${xmp.documentAncestorCount} ancestor document(s) whose content was placed into this image, a sign of compositing.`,
+        weight: 15,
+        evidence: { ancestors: xmp.documentAncestors },
+        metadata: true,
+      });
+    } else if (xmp.derivedFrom) {
+      findings.push({
+        type: 'info',
+        code: 'META_XMP_DERIVED',
+        message: 'XMP records that this file was derived from another document (saved as or exported from it).',
+        weight: 0,
+        evidence: { derivedFrom: xmp.derivedFrom },
+      });
+    }
+    return findings;
+  },
+};
+
+export const iccDetector: Detector = {
+  id: 'icc',
+  version: '1.0.0',
+  category: 'metadata',
+  run({ icc, platform, format }) {
+    const findings: DetectorFinding[] = [];
+    if (icc) {
+      const iccAnalysis = analyzeIcc(icc);
+      if (iccAnalysis.suspicious) {
+        findings.push({
+          type: 'warning',
+          code: 'META_ICC_INCONSISTENT',
+          message: `ICC profile is inconsistent: ${iccAnalysis.reasons.join('; ')}.`,
+          weight: 10,
+          evidence: { reasons: iccAnalysis.reasons },
+          metadata: true,
+        });
+      }
+    }
+    if (platform && format !== 'GIF' && format !== 'UNKNOWN') {
+      const comparison = compareIccProfile(icc, platform);
+      if (!comparison.matches) {
+        findings.push({
+          type: 'warning',
+          code: 'META_ICC_PLATFORM_MISMATCH',
+          message: `Color profile does not match a ${platform} screenshot: ${comparison.reasons.join('; ')}.`,
+          weight: 15,
+          evidence: { platform, profile: icc?.description ?? null },
+          metadata: true,
+        });
+      }
+    }
+    return findings;
+  },
+};
+
+export const resolutionDetector: Detector = {
+  id: 'resolution',
+  version: '1.0.0',
+  category: 'device',
+  run({ resolution, platform }) {
+    // Desktop screenshots are not in the phone table
+    if (!resolution || platform === 'macOS' || platform === 'Windows') return [];
+    const size = `${resolution.width}x${resolution.height}`;
+    const names = (count: number) =>
+      resolution.matches.slice(0, count).map((device) => device.devices.slice(0, 2).join('/')).join(', ');
+    const evidence = { width: resolution.width, height: resolution.height, classification: resolution.classification };
+
+    if (resolution.classification === 'native') {
+      const findings: DetectorFinding[] = [{
+        type: 'info',
+        code: 'DEVICE_RESOLUTION_NATIVE',
+        message: `Dimensions ${size} match the native screenshot size of ${names(3)}.`,
+        weight: 0,
+        evidence,
+      }];
+      if (platform && !resolution.matches.some((device) => device.platform === platform)) {
+        findings.push({
+          type: 'warning',
+          code: 'DEVICE_RESOLUTION_PLATFORM_MISMATCH',
+          message: `Dimensions ${size} belong to ${resolution.matches[0].platform} devices, but the metadata identifies a ${platform} device.`,
+          weight: 10,
+          evidence: { ...evidence, platform },
+          metadata: true,
+        });
+      }
+      return findings;
+    }
+    if (resolution.classification === 'cropped') {
+      return [{
+        type: 'warning',
+        code: 'DEVICE_RESOLUTION_CROPPED',
+        message: `Dimensions ${size} are a crop of the ${names(1)} screen (${resolution.matches[0].width}x${resolution.matches[0].height}). The original screenshot was trimmed.`,
+        weight: 5,
+        evidence,
+      }];
+    }
+    if (resolution.classification === 'scaled') {
+      return [{
+        type: 'info',
+        code: 'DEVICE_RESOLUTION_SCALED',
+        message: `Dimensions ${size} are the ${names(1)} screen scaled to ${Math.round((resolution.scale ?? 1) * 100)}%, as messaging apps do when forwarding images.`,
+        weight: 0,
+        evidence: { ...evidence, scale: resolution.scale },
+      }];
+    }
+    return [{
+      type: 'warning',
+      code: 'DEVICE_RESOLUTION_UNKNOWN',
+      message: `Dimensions ${size} match no known phone screen (closest aspect ratio: ${names(3)}). Screenshots rebuilt in design tools use arbitrary canvas sizes.`,
+      weight: 10,
+      evidence,
+    }];
+  },
+};
+
+export const appSignatureDetector: Detector = {
+  id: 'app-signatures',
+  version: '1.0.0',
+  category: 'metadata',
+  run({ signatures, data }) {
+    if (signatures.apps.length === 0) return [];
+    const strong = strongEvidence(signatures);
+    return [{
+      type: strong ? 'critical' : 'warning',
+      code: strong ? 'META_EDITING_APP' : 'META_EDITING_APP_HINT',
+      message: `Detected traces of editing apps in metadata: ${signatures.apps.join(', ')}.`,
+      weight: strong ? 25 : 8,
+      evidence: { apps: locate(data, signatures.apps) },
+      editing: strong,
+    }];
+  },
+};
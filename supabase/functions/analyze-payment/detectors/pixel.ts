@@ -0,0 +1,101 @@
+import { LOSSLESS_FORMATS } from '../compression.ts';
+import type { Detector, DetectorFinding } from '../detector.ts';
+
+export const elaDetector: Detector = {
+  id: 'ela',
+  version: '1.0.0',
+  category: 'pixel',
+  run({ ela }) {
+    if (!ela || ela.score < 60) return [];
+    return [{
+      type: 'warning',
+      code: 'PIXEL_ELA_OUTLIERS',
+      message: `Error level analysis found ${(ela.outlierRatio * 100).toFixed(1)}% of the image with unusually high error levels. Regions that were pasted or retouched re-compress differently from the rest of the screenshot.`,
+      weight: 10,
+      evidence: { score: ela.score, outlierRatio: ela.outlierRatio },
+    }];
+  },
+};
+
+export const compressionDetector: Detector = {
+  id: 'compression',
+  version: '1.0.0',
+  category: 'pixel',
+  run({ compression, format }) {
+    const findings: DetectorFinding[] = [];
+
+    const dq = compression.doubleQuantization;
+    if (dq?.detected) {
+      findings.push({
+        type: 'warning',
+        code: 'PIXEL_DOUBLE_QUANTIZATION',
+        message: `DCT coefficient histograms show periodic double-quantization artifacts (period ≈ ${dq.period}). The image was saved as JPEG at least twice, suggesting possible editing.`,
+        weight: 20,
+        evidence: { period: dq.period },
+      });
+    }
+
+    const singleRegions = compression.regions?.filter((region) => region.kind === 'single-compressed') ?? [];
+    if (singleRegions.length > 0) {
+      findings.push({
+        type: 'critical',
+        code: 'PIXEL_SINGLE_COMPRESSED_REGIONS',
+        message: `${singleRegions.length} region(s) appear singly compressed inside a doubly compressed image. Content pasted in after the first save leaves exactly this trace.`,
+        weight: 25,
+        regions: singleRegions.map(({ x, y, width, height }) => ({ x, y, width, height })),
+        editing: true,
+      });
+    }
+
+    const grid = compression.grid;
+    if (grid?.present && format === 'JPEG' && (grid.offsetX !== 0 || grid.offsetY !== 0)) {
+      findings.push({
+        type: 'warning',
+        code: 'PIXEL_GRID_OFFSET',
+        message: `The 8x8 compression grid is offset by (${grid.offsetX}, ${grid.offsetY}) pixels. The image was cropped or shifted after an earlier JPEG save.`,
+        weight: 10,
+        evidence: { offsetX: grid.offsetX, offsetY: grid.offsetY },
+      });
+    } else if (grid?.present && LOSSLESS_FORMATS.has(format)) {
+      findings.push({
+        type: 'warning',
+        code: 'PIXEL_LOSSLESS_BLOCKING',
+        message: 'JPEG block artifacts were found in a lossless image. The pixels passed through JPEG compression before this file was created.',
+        weight: 10,
+      });
+    }
+
+    const misalignedRegions = compression.regions?.filter((region) => region.kind === 'misaligned-grid') ?? [];
+    if (misalignedRegions.length > 0) {
+      findings.push({
+        type: 'warning',
+        code: 'PIXEL_MISALIGNED_GRID_REGIONS',
+        message: `${misalignedRegions.length} region(s) carry a compression grid that does not line up with the rest of the image, a sign of pasted content.`,
+        weight: 10,
+        regions: misalignedRegions.map(({ x, y, width, height }) => ({ x, y, width, height })),
+      });
+    }
+    return findings;
+  },
+};
+
+export const copyMoveDetector: Detector = {
+  id: 'copy-move',
+  version: '1.0.0',
+  category: 'pixel',
+  run({ copyMove }) {
+    if (!copyMove || copyMove.pairs.length === 0) return [];
+    const strongest = copyMove.pairs[0];
+    // Pixel-identical repeats of a sizeable area do not happen in rendered UI
+    const exact = strongest.similarity >= 0.995 && strongest.blocks >= 300;
+    return [{
+      type: exact ? 'critical' : 'warning',
+      code: exact ? 'PIXEL_COPY_MOVE_EXACT' : 'PIXEL_COPY_MOVE_SIMILAR',
+      message: `Copy-move analysis found ${copyMove.pairs.length} duplicated region(s). The largest (${strongest.source.width}x${strongest.source.height} px) is repeated ${Math.round(Math.hypot(strongest.offset.dx, strongest.offset.dy))} px away with ${(strongest.similarity * 100).toFixed(1)}% similarity, which suggests content was copied within the image.`,
+      weight: exact ? 30 : 15,
+      regions: copyMove.pairs.flatMap((pair) => [pair.source, pair.target]),
+      evidence: { pairs: copyMove.pairs.length, similarity: strongest.similarity, blocks: strongest.blocks },
+      editing: exact,
+    }];
+  },
+};
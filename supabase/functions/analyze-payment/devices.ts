@@ -0,0 +1,106 @@
+import type { Platform } from './icc.ts';
+
+// Screen cutout the status bar is laid out around
+export type Cutout = 'none' | 'notch' | 'island' | 'hole';
+
+export interface DeviceResolution {
+  // Portrait screenshot size in pixels
+  width: number;
+  height: number;
+  platform: Platform;
+  devices: string[];
+  // Omitted when the models sharing the size differ
+  cutout?: Cutout;
+}
+
+// Screenshot sizes as the OS writes them, which for some models differ from
+// the panel (Plus models render at 1242x2208 on a 1080x1920 panel).
+// Keep entries unique per size and platform; add new models to existing rows.
+export const DEVICE_RESOLUTIONS: DeviceResolution[] = [
+  { width: 640, height: 1136, platform: 'iOS', devices: ['iPhone SE (1st gen)', 'iPhone 5s'], cutout: 'none' },
+  { width: 750, height: 1334, platform: 'iOS', devices: ['iPhone SE (2nd/3rd gen)', 'iPhone 8', 'iPhone 7', 'iPhone 6s'], cutout: 'none' },
+  { width: 1242, height: 2208, platform: 'iOS', devices: ['iPhone 8 Plus', 'iPhone 7 Plus', 'iPhone 6s Plus'], cutout: 'none' },
+  { width: 828, height: 1792, platform: 'iOS', devices: ['iPhone XR', 'iPhone 11'], cutout: 'notch' },
+  { width: 1125, height: 2436, platform: 'iOS', devices: ['iPhone X', 'iPhone XS', 'iPhone 11 Pro'], cutout: 'notch' },
+  { width: 1242, height: 2688, platform: 'iOS', devices: ['iPhone XS Max', 'iPhone 11 Pro Max'], cutout: 'notch' },
+  { width: 1080, height: 2340, platform: 'iOS', devices: ['iPhone 12 mini', 'iPhone 13 mini'], cutout: 'notch' },
+  { width: 1170, height: 2532, platform: 'iOS', devices: ['iPhone 12', 'iPhone 12 Pro', 'iPhone 13', 'iPhone 13 Pro', 'iPhone 14', 'iPhone 16e'], cutout: 'notch' },
+  { width: 1284, height: 2778, platform: 'iOS', devices: ['iPhone 12 Pro Max', 'iPhone 13 Pro Max', 'iPhone 14 Plus'], cutout: 'notch' },
+  { width: 1179, height: 2556, platform: 'iOS', devices: ['iPhone 14 Pro', 'iPhone 15', 'iPhone 15 Pro', 'iPhone 16'], cutout: 'island' },
+  { width: 1290, height: 2796, platform: 'iOS', devices: ['iPhone 14 Pro Max', 'iPhone 15 Plus', 'iPhone 15 Pro Max', 'iPhone 16 Plus'], cutout: 'island' },
+  { width: 1206, height: 2622, platform: 'iOS', devices: ['iPhone 16 Pro'], cutout: 'island' },
+  { width: 1320, height: 2868, platform: 'iOS', devices: ['iPhone 16 Pro Max'], cutout: 'island' },
+  { width: 1620, height: 2160, platform: 'iOS', devices: ['iPad (7th-9th gen)'], cutout: 'none' },
+  { width: 1640, height: 2360, platform: 'iOS', devices: ['iPad Air (4th/5th gen)', 'iPad (10th gen)'], cutout: 'none' },
+  { width: 1668, height: 2388, platform: 'iOS', devices: ['iPad Pro 11"'], cutout: 'none' },
+  { width: 2048, height: 2732, platform: 'iOS', devices: ['iPad Pro 12.9"'], cutout: 'none' },
+  { width: 720, height: 1600, platform: 'Android', devices: ['Galaxy A05', 'Galaxy A14', 'Moto G Play', 'Redmi 12C'], cutout: 'notch' },
+  { width: 1080, height: 1920, platform: 'Android', devices: ['Galaxy S7', 'Pixel 2', 'Moto G5 Plus'], cutout: 'none' },
+  { width: 1080, height: 2280, platform: 'Android', devices: ['Pixel 4', 'Galaxy S10e'] },
+  { width: 1080, height: 2340, platform: 'Android', devices: ['Galaxy S23', 'Galaxy S24', 'Pixel 5', 'Galaxy A54'], cutout: 'hole' },
+  { width: 1080, height: 2400, platform: 'Android', devices: ['Pixel 7', 'Pixel 8', 'Galaxy A15', 'Galaxy A34', 'Pixel 6a', 'Moto G Power'], cutout: 'hole' },
+  { width: 1080, height: 2408, platform: 'Android', devices: ['Galaxy A52', 'Galaxy A53'], cutout: 'hole' },
+  { width: 1080, height: 2412, platform: 'Android', devices: ['OnePlus Nord 3', 'Redmi Note 12', 'Nothing Phone (2a)'], cutout: 'hole' },
+  { width: 1080, height: 2424, platform: 'Android', devices: ['Pixel 9'], cutout: 'hole' },
+  { width: 1220, height: 2712, platform: 'Android', devices: ['Xiaomi 13T', 'Redmi Note 13 Pro'], cutout: 'hole' },
+  { width: 1240, height: 2772, platform: 'Android', devices: ['OnePlus 11', 'OnePlus 12R'], cutout: 'hole' },
+  { width: 1280, height: 2856, platform: 'Android', devices: ['Pixel 9 Pro'], cutout: 'hole' },
+  { width: 1344, height: 2992, platform: 'Android', devices: ['Pixel 8 Pro', 'Pixel 9 Pro XL'], cutout: 'hole' },
+  { width: 1440, height: 2560, platform: 'Android', devices: ['Galaxy S6', 'Pixel XL'], cutout: 'none' },
+  { width: 1440, height: 3088, platform: 'Android', devices: ['Galaxy S22 Ultra', 'Galaxy S23 Ultra'], cutout: 'hole' },
+  { width: 1440, height: 3120, platform: 'Android', devices: ['Galaxy S24 Ultra', 'Galaxy S24+', 'Pixel 7 Pro'], cutout: 'hole' },
+  { width: 1440, height: 3168, platform: 'Android', devices: ['OnePlus 12'], cutout: 'hole' },
+  { width: 1440, height: 3200, platform: 'Android', devices: ['Galaxy S20', 'Galaxy S21 Ultra'], cutout: 'hole' },
+];
+
+// Aspect ratios within this relative tolerance count as the same screen
+const ASPECT_TOLERANCE = 0.005;
+// Crops that keep less of the screen than this are treated as unrelated sizes
+const MIN_CROP_RATIO = 0.5;
+const MAX_CLOSEST = 3;
+
+export type ResolutionClass = 'native' | 'cropped' | 'scaled' | 'unknown';
+
+export interface ResolutionCheck {
+  width: number;
+  height: number;
+  classification: ResolutionClass;
+  // Devices the size matches for the classification, or the closest ones when unknown
+  matches: DeviceResolution[];
+  // Image size relative to the matched screen, for scaled images
+  scale?: number;
+}
+
+const aspectDistance = (a: number, b: number) => Math.abs(Math.log(a / b));
+
+export function classifyResolution(width: number, height: number): ResolutionCheck {
+  // Compare in portrait orientation; landscape screenshots are rotated screens
+  const short = Math.min(width, height);
+  const long = Math.max(width, height);
+  const result = (classification: ResolutionClass, matches: DeviceResolution[], scale?: number): ResolutionCheck =>
+    ({ width, height, classification, matches: matches.slice(0, MAX_CLOSEST), scale });
+
+  const native = DEVICE_RESOLUTIONS.filter((device) => device.width === short && device.height === long);
+  if (native.length > 0) return result('native', native);
+
+  // Cropping keeps one side at the screen's size and shortens the other
+  const cropped = DEVICE_RESOLUTIONS.filter((device) =>
+    (device.width === short && device.height > long && long >= device.height * MIN_CROP_RATIO) ||
+    (device.height === long && device.width > short && short >= device.width * MIN_CROP_RATIO)
+  );
+  if (cropped.length > 0) {
+    // The smallest screen that still contains the image is the likeliest source
+    return result('cropped', cropped.sort((a, b) => a.width * a.height - b.width * b.height));
+  }
+
+  const aspect = short / long;
+  const scaled = DEVICE_RESOLUTIONS
+    .filter((device) => aspectDistance(aspect, device.width / device.height) < ASPECT_TOLERANCE)
+    .sort((a, b) => aspectDistance(aspect, a.width / a.height) - aspectDistance(aspect, b.width / b.height));
+  if (scaled.length > 0) return result('scaled', scaled, short / scaled[0].width);
+
+  const closest = [...DEVICE_RESOLUTIONS].sort(
+    (a, b) => aspectDistance(aspect, a.width / a.height) - aspectDistance(aspect, b.width / b.height)
+  );
+  return result('unknown', closest);
+}
@@ -0,0 +1,129 @@
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { decodeImage, encodeJpeg, encodePng, type DecodedImage } from './image.ts';
+
+// Re-encoding quality used for every analysis so scores are comparable
+export const ELA_QUALITY = 90;
+
+const BLOCK_SIZE = 8;
+const MAX_HEATMAP_WIDTH = 256;
+
+// Blocks below this mean error are compression noise, not evidence
+const MIN_OUTLIER_ERROR = 4;
+
+export interface ElaResult {
+  quality: number;
+  // 0-100: how strongly a minority of blocks stand out from the rest of the image
+  score: number;
+  meanError: number;
+  maxError: number;
+  outlierRatio: number;
+  heatmap: {
+    width: number;
+    height: number;
+    // data:image/png;base64 URL, stretched over the original image by the client
+    dataUrl: string;
+  };
+}
+
+export async function performErrorLevelAnalysis(image: DecodedImage): Promise<ElaResult | null> {
+  try {
+    const resaved = await decodeImage(await encodeJpeg(image, ELA_QUALITY), 'JPEG');
+    if (!resaved || resaved.width !== image.width || resaved.height !== image.height) {
+      return null;
+    }
+
+    const blocksX = Math.ceil(image.width / BLOCK_SIZE);
+    const blocksY = Math.ceil(image.height / BLOCK_SIZE);
+    const blockErrors = new Float32Array(blocksX * blocksY);
+    const blockCounts = new Uint16Array(blocksX * blocksY);
+
+    for (let y = 0; y < image.height; y++) {
+      const blockRow = Math.floor(y / BLOCK_SIZE) * blocksX;
+      for (let x = 0; x < image.width; x++) {
+        const p = (y * image.width + x) * 4;
+        // Largest per-channel difference, so colored text edits are not averaged away
+        const error = Math.max(
+          Math.abs(image.rgba[p] - resaved.rgba[p]),
+          Math.abs(image.rgba[p + 1] - resaved.rgba[p + 1]),
+          Math.abs(image.rgba[p + 2] - resaved.rgba[p + 2])
+        );
+        const block = blockRow + Math.floor(x / BLOCK_SIZE);
+        blockErrors[block] += error;
+        blockCounts[block]++;
+      }
+    }
+
+    let sum = 0;
+    let maxError = 0;
+    for (let i = 0; i < blockErrors.length; i++) {
+      blockErrors[i] /= blockCounts[i];
+      sum += blockErrors[i];
+      maxError = Math.max(maxError, blockErrors[i]);
+    }
+    const meanError = sum / blockErrors.length;
+
+    let variance = 0;
+    for (const error of blockErrors) {
+      variance += (error - meanError) ** 2;
+    }
+    const threshold = Math.max(MIN_OUTLIER_ERROR, meanError + 3 * Math.sqrt(variance / blockErrors.length));
+
+    let outliers = 0;
+    for (const error of blockErrors) {
+      if (error > threshold) outliers++;
+    }
+    const outlierRatio = outliers / blockErrors.length;
+
+    return {
+      quality: ELA_QUALITY,
+      // A handful of outlier blocks is normal around sharp UI edges; 5% or more saturates the score
+      score: Math.round(Math.min(1, outlierRatio * 20) * 100),
+      meanError: round(meanError),
+      maxError: round(maxError),
+      outlierRatio: round(outlierRatio, 4),
+      heatmap: await renderHeatmap(blockErrors, blocksX, blocksY, maxError),
+    };
+  } catch (error) {
+    console.error('Error level analysis failed:', error);
+    return null;
+  }
+}
+
+async function renderHeatmap(
+  blockErrors: Float32Array,
+  blocksX: number,
+  blocksY: number,
+  maxError: number
+): Promise<ElaResult['heatmap']> {
+  // One heatmap pixel per block, further reduced for very wide images
+  const step = Math.max(1, Math.ceil(blocksX / MAX_HEATMAP_WIDTH));
+  const width = Math.ceil(blocksX / step);
+  const height = Math.ceil(blocksY / step);
+  const rgba = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let peak = 0;
+      for (let by = y * step; by < Math.min(blocksY, (y + 1) * step); by++) {
+        for (let bx = x * step; bx < Math.min(blocksX, (x + 1) * step); bx++) {
+          peak = Math.max(peak, blockErrors[by * blocksX + bx]);
+        }
+      }
+      // Transparent → yellow → red as the error level rises
+      const level = maxError > 0 ? peak / maxError : 0;
+      const p = (y * width + x) * 4;
+      rgba[p] = 255;
+      rgba[p + 1] = Math.round(255 * (1 - level));
+      rgba[p + 2] = 0;
+      rgba[p + 3] = Math.round(220 * level);
+    }
+  }
+
+  const png = await encodePng({ width, height, rgba });
+  return { width, height, dataUrl: `data:image/png;base64,${encodeBase64(png)}` };
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,411 @@
+import { readJpegSegments } from './jpeg.ts';
+import { readAscii, startsWithAscii } from './bytes.ts';
+
+export type ExifValue = string | number | number[];
+
+export type ExifTags = Record<string, ExifValue>;
+
+export interface ExifData {
+  byteOrder: 'little-endian' | 'big-endian';
+  ifd0: ExifTags;
+  exif: ExifTags;
+  gps: ExifTags;
+  interop: ExifTags;
+  // IFD1 describes the embedded thumbnail
+  ifd1: ExifTags;
+  thumbnail?: { offset: number; length: number };
+}
+
+const TIFF_TAGS: Record<number, string> = {
+  0x000B: 'ProcessingSoftware',
+  0x00FE: 'NewSubfileType',
+  0x0100: 'ImageWidth',
+  0x0101: 'ImageLength',
+  0x0102: 'BitsPerSample',
+  0x0103: 'Compression',
+  0x0106: 'PhotometricInterpretation',
+  0x010E: 'ImageDescription',
+  0x010F: 'Make',
+  0x0110: 'Model',
+  0x0111: 'StripOffsets',
+  0x0112: 'Orientation',
+  0x0115: 'SamplesPerPixel',
+  0x0116: 'RowsPerStrip',
+  0x0117: 'StripByteCounts',
+  0x011A: 'XResolution',
+  0x011B: 'YResolution',
+  0x011C: 'PlanarConfiguration',
+  0x0128: 'ResolutionUnit',
+  0x0131: 'Software',
+  0x0132: 'DateTime',
+  0x013B: 'Artist',
+  0x013C: 'HostComputer',
+  0x0201: 'JPEGInterchangeFormat',
+  0x0202: 'JPEGInterchangeFormatLength',
+  0x0211: 'YCbCrCoefficients',
+  0x0212: 'YCbCrSubSampling',
+  0x0213: 'YCbCrPositioning',
+  0x0214: 'ReferenceBlackWhite',
+  0x02BC: 'XMLPacket',
+  0x4746: 'Rating',
+  0x8298: 'Copyright',
+  0x8769: 'ExifIFDPointer',
+  0x8773: 'InterColorProfile',
+  0x8825: 'GPSInfoIFDPointer',
+};
+
+const EXIF_TAGS: Record<number, string> = {
+  0x829A: 'ExposureTime',
+  0x829D: 'FNumber',
+  0x8822: 'ExposureProgram',
+  0x8827: 'ISOSpeedRatings',
+  0x8830: 'SensitivityType',
+  0x9000: 'ExifVersion',
+  0x9003: 'DateTimeOriginal',
+  0x9004: 'DateTimeDigitized',
+  0x9010: 'OffsetTime',
+  0x9011: 'OffsetTimeOriginal',
+  0x9012: 'OffsetTimeDigitized',
+  0x9101: 'ComponentsConfiguration',
+  0x9201: 'ShutterSpeedValue',
+  0x9202: 'ApertureValue',
+  0x9203: 'BrightnessValue',
+  0x9204: 'ExposureBiasValue',
+  0x9207: 'MeteringMode',
+  0x9209: 'Flash',
+  0x920A: 'FocalLength',
+  0x9214: 'SubjectArea',
+  0x927C: 'MakerNote',
+  0x9286: 'UserComment',
+  0x9290: 'SubSecTime',
+  0x9291: 'SubSecTimeOriginal',
+  0x9292: 'SubSecTimeDigitized',
+  0xA000: 'FlashpixVersion',
+  0xA001: 'ColorSpace',
+  0xA002: 'PixelXDimension',
+  0xA003: 'PixelYDimension',
+  0xA005: 'InteroperabilityIFDPointer',
+  0xA217: 'SensingMethod',
+  0xA300: 'FileSource',
+  0xA301: 'SceneType',
+  0xA401: 'CustomRendered',
+  0xA402: 'ExposureMode',
+  0xA403: 'WhiteBalance',
+  0xA404: 'DigitalZoomRatio',
+  0xA405: 'FocalLengthIn35mmFilm',
+  0xA406: 'SceneCaptureType',
+  0xA420: 'ImageUniqueID',
+  0xA430: 'CameraOwnerName',
+  0xA431: 'BodySerialNumber',
+  0xA432: 'LensSpecification',
+  0xA433: 'LensMake',
+  0xA434: 'LensModel',
+};
+
+const GPS_TAGS: Record<number, string> = {
+  0x0000: 'GPSVersionID',
+  0x0001: 'GPSLatitudeRef',
+  0x0002: 'GPSLatitude',
+  0x0003: 'GPSLongitudeRef',
+  0x0004: 'GPSLongitude',
+  0x0005: 'GPSAltitudeRef',
+  0x0006: 'GPSAltitude',
+  0x0007: 'GPSTimeStamp',
+  0x000C: 'GPSSpeedRef',
+  0x000D: 'GPSSpeed',
+  0x0010: 'GPSImgDirectionRef',
+  0x0011: 'GPSImgDirection',
+  0x0012: 'GPSMapDatum',
+  0x0017: 'GPSDestBearingRef',
+  0x0018: 'GPSDestBearing',
+  0x001D: 'GPSDateStamp',
+  0x001F: 'GPSHPositioningError',
+};
+
+const INTEROP_TAGS: Record<number, string> = {
+  0x0001: 'InteroperabilityIndex',
+  0x0002: 'InteroperabilityVersion',
+};
+
+// Byte size of each TIFF field type, indexed by type id
+const TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8];
+
+// UNDEFINED-typed tags that actually hold short ASCII version strings
+const ASCII_UNDEFINED_TAGS = new Set(['ExifVersion', 'FlashpixVersion', 'InteroperabilityVersion']);
+
+// Large binary blobs are summarized instead of being returned byte-by-byte
+const MAX_INLINE_BYTES = 64;
+const MAX_IFD_ENTRIES = 1000;
+
+class TiffReader {
+  readonly littleEndian: boolean;
+  private readonly view: DataView;
+
+  constructor(readonly data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    this.littleEndian = data[0] === 0x49;
+  }
+
+  inBounds(offset: number, length: number): boolean {
+    return offset >= 0 && length >= 0 && offset + length <= this.data.length;
+  }
+
+  uint16(offset: number): number {
+    return this.view.getUint16(offset, this.littleEndian);
+  }
+
+  uint32(offset: number): number {
+    return this.view.getUint32(offset, this.littleEndian);
+  }
+
+  int16(offset: number): number {
+    return this.view.getInt16(offset, this.littleEndian);
+  }
+
+  int32(offset: number): number {
+    return this.view.getInt32(offset, this.littleEndian);
+  }
+
+  float32(offset: number): number {
+    return this.view.getFloat32(offset, this.littleEndian);
+  }
+
+  float64(offset: number): number {
+    return this.view.getFloat64(offset, this.littleEndian);
+  }
+}
+
+interface IfdResult {
+  tags: ExifTags;
+  // Raw numeric pointers keyed by tag id, used to follow sub-IFDs
+  pointers: Map<number, number>;
+  nextIfdOffset: number;
+}
+
+export function parseTiff(data: Uint8Array): ExifData | null {
+  if (data.length < 8) return null;
+  const isLittle = data[0] === 0x49 && data[1] === 0x49;
+  const isBig = data[0] === 0x4D && data[1] === 0x4D;
+  if (!isLittle && !isBig) return null;
+
+  const reader = new TiffReader(data);
+  if (reader.uint16(2) !== 42) return null;
+
+  const visited = new Set<number>();
+  const ifd0 = readIfd(reader, reader.uint32(4), TIFF_TAGS, visited);
+  if (!ifd0) return null;
+
+  const result: ExifData = {
+    byteOrder: isLittle ? 'little-endian' : 'big-endian',
+    ifd0: ifd0.tags,
+    exif: {},
+    gps: {},
+    interop: {},
+    ifd1: {},
+  };
+
+  const exifPointer = ifd0.pointers.get(0x8769);
+  if (exifPointer) {
+    const exifIfd = readIfd(reader, exifPointer, EXIF_TAGS, visited);
+    if (exifIfd) {
+      result.exif = exifIfd.tags;
+      const interopPointer = exifIfd.pointers.get(0xA005);
+      if (interopPointer) {
+        result.interop = readIfd(reader, interopPointer, INTEROP_TAGS, visited)?.tags ?? {};
+      }
+    }
+  }
+
+  const gpsPointer = ifd0.pointers.get(0x8825);
+  if (gpsPointer) {
+    result.gps = readIfd(reader, gpsPointer, GPS_TAGS, visited)?.tags ?? {};
+  }
+
+  if (ifd0.nextIfdOffset) {
+    const ifd1 = readIfd(reader, ifd0.nextIfdOffset, TIFF_TAGS, visited);
+    if (ifd1) {
+      result.ifd1 = ifd1.tags;
+      const thumbOffset = ifd1.pointers.get(0x0201);
+      const thumbLength = ifd1.pointers.get(0x0202);
+      if (thumbOffset && thumbLength && reader.inBounds(thumbOffset, thumbLength)) {
+        result.thumbnail = { offset: thumbOffset, length: thumbLength };
+      }
+    }
+  }
+
+  return result;
+}
+
+function readIfd(
+  reader: TiffReader,
+  offset: number,
+  names: Record<number, string>,
+  visited: Set<number>
+): IfdResult | null {
+  // Guard against IFD loops, which malformed or hostile files can contain
+  if (visited.has(offset) || !reader.inBounds(offset, 2)) return null;
+  visited.add(offset);
+
+  const count = reader.uint16(offset);
+  if (count > MAX_IFD_ENTRIES || !reader.inBounds(offset + 2, count * 12)) return null;
+
+  const tags: ExifTags = {};
+  const pointers = new Map<number, number>();
+
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    const tag = reader.uint16(entry);
+    const type = reader.uint16(entry + 2);
+    const valueCount = reader.uint32(entry + 4);
+    const typeSize = TYPE_SIZES[type];
+    if (!typeSize) continue;
+
+    const byteLength = typeSize * valueCount;
+    const valueOffset = byteLength <= 4 ? entry + 8 : reader.uint32(entry + 8);
+    if (!reader.inBounds(valueOffset, byteLength)) continue;
+
+    const name = names[tag] ?? `Tag0x${tag.toString(16).padStart(4, '0').toUpperCase()}`;
+    const value = readValue(reader, name, type, valueCount, valueOffset);
+    tags[name] = value;
+
+    if (typeof value === 'number' && (type === 3 || type === 4)) {
+      pointers.set(tag, value);
+    }
+  }
+
+  const nextPointerOffset = offset + 2 + count * 12;
+  const nextIfdOffset = reader.inBounds(nextPointerOffset, 4) ? reader.uint32(nextPointerOffset) : 0;
+
+  return { tags, pointers, nextIfdOffset };
+}
+
+function readValue(
+  reader: TiffReader,
+  name: string,
+  type: number,
+  count: number,
+  offset: number
+): ExifValue {
+  const data = reader.data;
+
+  if (type === 2) {
+    return readAscii(data, offset, count).replace(/\0+$/, '').trim();
+  }
+
+  if (type === 7) {
+    if (ASCII_UNDEFINED_TAGS.has(name)) {
+      return readAscii(data, offset, count);
+    }
+    if (name === 'UserComment') {
+      return decodeUserComment(data.subarray(offset, offset + count));
+    }
+    if (count > MAX_INLINE_BYTES) {
+      return `[${count} bytes]`;
+    }
+    return Array.from(data.subarray(offset, offset + count));
+  }
+
+  if ((type === 1 || type === 6) && count > MAX_INLINE_BYTES) {
+    return `[${count} bytes]`;
+  }
+
+  const values: number[] = [];
+  const size = TYPE_SIZES[type];
+  for (let i = 0; i < count; i++) {
+    const at = offset + i * size;
+    switch (type) {
+      case 1: values.push(data[at]); break;
+      case 3: values.push(reader.uint16(at)); break;
+      case 4: values.push(reader.uint32(at)); break;
+      case 5: values.push(toRational(reader.uint32(at), reader.uint32(at + 4))); break;
+      case 6: values.push((data[at] << 24) >> 24); break;
+      case 8: values.push(reader.int16(at)); break;
+      case 9: values.push(reader.int32(at)); break;
+      case 10: values.push(toRational(reader.int32(at), reader.int32(at + 4))); break;
+      case 11: values.push(reader.float32(at)); break;
+      case 12: values.push(reader.float64(at)); break;
+    }
+  }
+
+  return values.length === 1 ? values[0] : values;
+}
+
+function toRational(numerator: number, denominator: number): number {
+  if (denominator === 0) return 0;
+  return Math.round((numerator / denominator) * 1e6) / 1e6;
+}
+
+function decodeUserComment(bytes: Uint8Array): string {
+  // The first 8 bytes name the character code, followed by the comment itself
+  const charset = readAscii(bytes, 0, 8).replace(/\0+$/, '');
+  const body = bytes.subarray(8);
+  if (charset === 'UNICODE') {
+    return new TextDecoder('utf-16be').decode(body).replace(/\0+$/, '').trim();
+  }
+  return readAscii(body, 0, body.length).replace(/\0+$/, '').trim();
+}
+
+// Raw bytes of an IFD0 entry, for blobs such as XMLPacket that parseTiff only summarizes
+export function readTiffTagBytes(data: Uint8Array, tag: number): Uint8Array | null {
+  if (parseTiff(data) === null) return null;
+  const reader = new TiffReader(data);
+  const offset = reader.uint32(4);
+  if (!reader.inBounds(offset, 2)) return null;
+
+  const count = reader.uint16(offset);
+  for (let i = 0; i < count && reader.inBounds(offset + 2 + i * 12, 12); i++) {
+    const entry = offset + 2 + i * 12;
+    if (reader.uint16(entry) !== tag) continue;
+    const typeSize = TYPE_SIZES[reader.uint16(entry + 2)] ?? 0;
+    const byteLength = typeSize * reader.uint32(entry + 4);
+    const valueOffset = byteLength <= 4 ? entry + 8 : reader.uint32(entry + 8);
+    return reader.inBounds(valueOffset, byteLength) ? data.subarray(valueOffset, valueOffset + byteLength) : null;
+  }
+  return null;
+}
+
+// Number of IFDs in the main chain; in a TIFF file each one is a page
+export function countTiffIfds(data: Uint8Array): number {
+  if (parseTiff(data) === null) return 0;
+  const reader = new TiffReader(data);
+  const visited = new Set<number>();
+  let offset = reader.uint32(4);
+  while (offset && !visited.has(offset) && reader.inBounds(offset, 2)) {
+    visited.add(offset);
+    const next = offset + 2 + reader.uint16(offset) * 12;
+    offset = reader.inBounds(next, 4) ? reader.uint32(next) : 0;
+  }
+  return visited.size;
+}
+
+export function extractJpegExif(data: Uint8Array): ExifData | null {
+  for (const segment of readJpegSegments(data)) {
+    // APP1 segments carry either EXIF ("Exif\0\0") or XMP packets
+    if (segment.marker === 0xE1 && startsWithAscii(segment.data, 'Exif\0\0')) {
+      return parseTiff(segment.data.subarray(6));
+    }
+  }
+  return null;
+}
+
+export function getExifString(exif: ExifData | null, name: string): string | undefined {
+  if (!exif) return undefined;
+  for (const ifd of [exif.ifd0, exif.exif, exif.gps, exif.interop]) {
+    const value = ifd[name];
+    if (typeof value === 'string' && value.length > 0) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+// EXIF dates use "YYYY:MM:DD HH:MM:SS"; OffsetTime tags hold "+HH:MM" when present
+export function parseExifDate(value: string | undefined, offset?: string): Date | null {
+  if (!value) return null;
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second] = match;
+  const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : 'Z';
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`);
+  return isNaN(date.getTime()) ? null : date;
+}
@@ -0,0 +1,144 @@
+import { readAscii, startsWithAscii } from './bytes.ts';
+
+export interface GifInfo {
+  version: '87a' | '89a';
+  width: number;
+  height: number;
+  // Entries in the global color table, 0 when absent
+  globalColors: number;
+  frameCount: number;
+  // Local color tables let each frame use its own 256 colors
+  localColorTables: number;
+  loopCount?: number;
+  comments: string[];
+  // Application extension identifiers, e.g. NETSCAPE2.0 or "XMP DataXMP"
+  applications: string[];
+  xmp?: string;
+  trailingBytes: number;
+}
+
+export function isGif(data: Uint8Array): boolean {
+  return startsWithAscii(data, 'GIF87a') || startsWithAscii(data, 'GIF89a');
+}
+
+function readUint16LE(data: Uint8Array, offset: number): number {
+  return data[offset] | (data[offset + 1] << 8);
+}
+
+// Sub-blocks are length-prefixed runs terminated by a zero length; returns
+// the offset after the terminator and the joined payload
+function readSubBlocks(data: Uint8Array, offset: number): { next: number; payload: Uint8Array } {
+  const parts: Uint8Array[] = [];
+  let total = 0;
+  while (offset < data.length) {
+    const size = data[offset];
+    if (size === 0) {
+      offset++;
+      break;
+    }
+    parts.push(data.subarray(offset + 1, offset + 1 + size));
+    total += size;
+    offset += 1 + size;
+  }
+
+  const payload = new Uint8Array(total);
+  let at = 0;
+  for (const part of parts) {
+    payload.set(part, at);
+    at += part.length;
+  }
+  return { next: offset, payload };
+}
+
+export function parseGif(data: Uint8Array): GifInfo | null {
+  if (!isGif(data) || data.length < 13) return null;
+
+  const packed = data[10];
+  const hasGlobalTable = (packed & 0x80) !== 0;
+  const info: GifInfo = {
+    version: readAscii(data, 3, 3) as GifInfo['version'],
+    width: readUint16LE(data, 6),
+    height: readUint16LE(data, 8),
+    globalColors: hasGlobalTable ? 2 << (packed & 0x07) : 0,
+    frameCount: 0,
+    localColorTables: 0,
+    comments: [],
+    applications: [],
+    trailingBytes: 0,
+  };
+
+  let offset = 13 + info.globalColors * 3;
+  while (offset < data.length) {
+    const introducer = data[offset];
+
+    if (introducer === 0x3B) {
+      info.trailingBytes = data.length - offset - 1;
+      break;
+    }
+
+    if (introducer === 0x2C) {
+      // Image descriptor: position and size (8 bytes), then packed flags
+      if (offset + 10 > data.length) break;
+      const imagePacked = data[offset + 9];
+      offset += 10;
+      if (imagePacked & 0x80) {
+        info.localColorTables++;
+        offset += (2 << (imagePacked & 0x07)) * 3;
+      }
+      // LZW minimum code size, then the compressed image data
+      offset = readSubBlocks(data, offset + 1).next;
+      info.frameCount++;
+      continue;
+    }
+
+    if (introducer === 0x21) {
+      const label = data[offset + 1];
+      if (label === 0xFF && data[offset + 2] === 11) {
+        const identifier = readAscii(data, offset + 3, 11);
+        info.applications.push(identifier);
+        const start = offset + 14;
+        if (identifier === 'XMP DataXMP') {
+          // XMP is stored raw rather than in sub-blocks, followed by a
+          // "magic trailer" that makes naive sub-block readers skip it
+          const text = new TextDecoder().decode(data.subarray(start, Math.min(data.length, start + 1024 * 1024)));
+          const close = text.indexOf('</x:xmpmeta>');
+          if (close >= 0) info.xmp = text.slice(0, close + '</x:xmpmeta>'.length);
+        }
+        const { next, payload } = readSubBlocks(data, start);
+        if (identifier === 'NETSCAPE2.0' && payload.length >= 3 && payload[0] === 1) {
+          info.loopCount = readUint16LE(payload, 1);
+        }
+        offset = next;
+        continue;
+      }
+
+      const { next, payload } = readSubBlocks(data, offset + 2);
+      if (label === 0xFE) {
+        info.comments.push(new TextDecoder('latin1').decode(payload).replace(/\0+$/, '').trim());
+      }
+      offset = next;
+      continue;
+    }
+
+    // Unknown introducer: the stream is corrupt from here on
+    break;
+  }
+
+  return info;
+}
+
+export function analyzeGif(gif: GifInfo): { suspicious: boolean; reasons: string[] } {
+  const reasons: string[] = [];
+
+  if (gif.frameCount > 1) {
+    reasons.push(`${gif.frameCount} frames, so different viewers may show different content`);
+  }
+  if (gif.localColorTables > 0 && gif.globalColors > 0) {
+    reasons.push(`${gif.localColorTables} frame(s) override the global palette`);
+  }
+  if (gif.trailingBytes > 0) {
+    reasons.push(`${gif.trailingBytes} bytes after the GIF trailer`);
+  }
+
+  return { suspicious: reasons.length > 0, reasons };
+}
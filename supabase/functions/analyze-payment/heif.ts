@@ -0,0 +1,423 @@
+import { readAscii, readUint32BE } from './bytes.ts';
+import { parseTiff, type ExifData } from './exif.ts';
+
+// Major/compatible brands of HEVC-coded HEIF files ("HEIC") and of the
+// generic image container
+const HEIC_BRANDS = new Set(['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'hevm', 'hevs']);
+const HEIF_BRANDS = new Set(['mif1', 'msf1', 'mif2']);
+
+// Item data larger than this is not read; metadata items are a few kilobytes
+const MAX_ITEM_BYTES = 4 * 1024 * 1024;
+
+interface IsoBox {
+  type: string;
+  offset: number;
+  // Payload bounds, after the size/type header
+  start: number;
+  end: number;
+}
+
+export interface HeifItem {
+  id: number;
+  type: string;
+  name?: string;
+  contentType?: string;
+  width?: number;
+  height?: number;
+  // Extents total, in bytes
+  length: number;
+  // Item ids this item points to through iref, keyed by reference type
+  references?: Record<string, number[]>;
+}
+
+export type HeifColorProfile =
+  | {
+    type: 'nclx';
+    colourPrimaries: number;
+    transferCharacteristics: number;
+    matrixCoefficients: number;
+    fullRange: boolean;
+  }
+  // Offset of the embedded ICC profile within the file
+  | { type: 'prof' | 'rICC'; offset: number; size: number };
+
+export interface HeifInfo {
+  majorBrand: string;
+  compatibleBrands: string[];
+  primaryItemId: number | null;
+  primary: HeifItem | null;
+  items: HeifItem[];
+  colorProfile?: HeifColorProfile;
+  exif: ExifData | null;
+  xmp?: string;
+  // Item ids of thumbnails of the primary image
+  thumbnails: number[];
+  unknownBoxes: string[];
+}
+
+interface ItemLocation {
+  constructionMethod: number;
+  baseOffset: number;
+  extents: Array<{ offset: number; length: number }>;
+}
+
+export function isHeif(data: Uint8Array): boolean {
+  return heifBrand(data) !== null;
+}
+
+// Returns 'HEIC' or 'HEIF' from the ftyp box, or null for other files
+export function heifBrand(data: Uint8Array): 'HEIC' | 'HEIF' | null {
+  if (data.length < 16 || readAscii(data, 4, 4) !== 'ftyp') return null;
+  const size = Math.min(readUint32BE(data, 0), data.length);
+  const brands = [readAscii(data, 8, 4)];
+  for (let offset = 16; offset + 4 <= size; offset += 4) {
+    brands.push(readAscii(data, offset, 4));
+  }
+  if (brands.some((brand) => HEIC_BRANDS.has(brand))) return 'HEIC';
+  if (brands.some((brand) => HEIF_BRANDS.has(brand))) return 'HEIF';
+  return null;
+}
+
+function readUint(data: Uint8Array, offset: number, size: number): number {
+  switch (size) {
+    case 0: return 0;
+    case 1: return data[offset];
+    case 2: return (data[offset] << 8) | data[offset + 1];
+    case 4: return readUint32BE(data, offset);
+    case 8: return readUint32BE(data, offset) * 0x100000000 + readUint32BE(data, offset + 4);
+    default: throw new Error(`Unsupported field size ${size}`);
+  }
+}
+
+function readCString(data: Uint8Array, offset: number, end: number): { value: string; next: number } {
+  let stop = offset;
+  while (stop < end && data[stop] !== 0) stop++;
+  return { value: new TextDecoder().decode(data.subarray(offset, stop)), next: stop + 1 };
+}
+
+function readBoxes(data: Uint8Array, start: number, end: number): IsoBox[] {
+  const boxes: IsoBox[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = readUint32BE(data, offset);
+    const type = readAscii(data, offset + 4, 4);
+    let header = 8;
+    if (size === 1) {
+      if (offset + 16 > end) break;
+      size = readUint(data, offset + 8, 8);
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) break;
+    boxes.push({ type, offset, start: offset + header, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+function children(data: Uint8Array, box: IsoBox): IsoBox[] {
+  // meta is a FullBox: version and flags precede the children
+  return readBoxes(data, box.type === 'meta' ? box.start + 4 : box.start, box.end);
+}
+
+function find(data: Uint8Array, box: IsoBox | undefined, type: string): IsoBox | undefined {
+  return box ? children(data, box).find((child) => child.type === type) : undefined;
+}
+
+export function parseHeif(data: Uint8Array): HeifInfo | null {
+  if (!isHeif(data)) return null;
+
+  try {
+    const topLevel = readBoxes(data, 0, data.length);
+    const ftyp = topLevel.find((box) => box.type === 'ftyp')!;
+    const compatibleBrands: string[] = [];
+    for (let offset = ftyp.start + 8; offset + 4 <= ftyp.end; offset += 4) {
+      compatibleBrands.push(readAscii(data, offset, 4));
+    }
+
+    const info: HeifInfo = {
+      majorBrand: readAscii(data, ftyp.start, 4),
+      compatibleBrands,
+      primaryItemId: null,
+      primary: null,
+      items: [],
+      exif: null,
+      thumbnails: [],
+      unknownBoxes: topLevel
+        .map((box) => box.type)
+        .filter((type) => !['ftyp', 'meta', 'mdat', 'free', 'skip', 'moov', 'uuid'].includes(type)),
+    };
+
+    const meta = topLevel.find((box) => box.type === 'meta');
+    if (!meta) return info;
+
+    const pitm = find(data, meta, 'pitm');
+    if (pitm) {
+      info.primaryItemId = data[pitm.start] === 0 ? readUint(data, pitm.start + 4, 2) : readUint(data, pitm.start + 4, 4);
+    }
+
+    const items = parseItemInfo(data, find(data, meta, 'iinf'));
+    const locations = parseItemLocations(data, find(data, meta, 'iloc'));
+    const idat = find(data, meta, 'idat');
+
+    for (const [fromId, references] of parseItemReferences(data, find(data, meta, 'iref'))) {
+      const item = items.get(fromId);
+      if (item) item.references = references;
+    }
+
+    const iprp = find(data, meta, 'iprp');
+    const ipco = find(data, iprp, 'ipco');
+    const properties = ipco ? children(data, ipco) : [];
+    const associations = parseItemPropertyAssociations(data, find(data, iprp, 'ipma'));
+
+    for (const item of items.values()) {
+      const location = locations.get(item.id);
+      item.length = location ? location.extents.reduce((sum, extent) => sum + extent.length, 0) : 0;
+
+      for (const index of associations.get(item.id) ?? []) {
+        // Property indices are 1-based; 0 means "no property"
+        const property = properties[index - 1];
+        if (property?.type === 'ispe') {
+          item.width = readUint32BE(data, property.start + 4);
+          item.height = readUint32BE(data, property.start + 8);
+        }
+        if (property?.type === 'colr' && item.id === info.primaryItemId) {
+          info.colorProfile = parseColourInformation(data, property);
+        }
+      }
+
+      if (item.type === 'Exif' && location) {
+        const payload = readItemData(data, location, idat);
+        // The payload starts with the offset to the TIFF header, usually
+        // skipping an "Exif\0\0" prefix
+        if (payload && payload.length > 4) {
+          info.exif = parseTiff(payload.subarray(4 + readUint32BE(payload, 0)));
+        }
+      }
+
+      if (item.type === 'mime' && item.contentType === 'application/rdf+xml' && location) {
+        const payload = readItemData(data, location, idat);
+        if (payload) info.xmp = new TextDecoder().decode(payload);
+      }
+    }
+
+    info.items = [...items.values()];
+    info.primary = info.primaryItemId !== null ? items.get(info.primaryItemId) ?? null : null;
+    info.thumbnails = info.items
+      .filter((item) => item.references?.thmb?.includes(info.primaryItemId ?? -1))
+      .map((item) => item.id);
+
+    return info;
+  } catch (error) {
+    console.error('HEIF parse error:', error);
+    return null;
+  }
+}
+
+function parseItemInfo(data: Uint8Array, iinf: IsoBox | undefined): Map<number, HeifItem> {
+  const items = new Map<number, HeifItem>();
+  if (!iinf) return items;
+
+  const version = data[iinf.start];
+  const entriesStart = iinf.start + 4 + (version === 0 ? 2 : 4);
+  for (const infe of readBoxes(data, entriesStart, iinf.end)) {
+    if (infe.type !== 'infe') continue;
+    const infeVersion = data[infe.start];
+    // Versions 0 and 1 predate item types and never describe image items
+    if (infeVersion < 2) continue;
+
+    let offset = infe.start + 4;
+    const idSize = infeVersion === 2 ? 2 : 4;
+    const id = readUint(data, offset, idSize);
+    offset += idSize + 2;
+    const type = readAscii(data, offset, 4);
+    offset += 4;
+    const name = readCString(data, offset, infe.end);
+
+    const item: HeifItem = { id, type, length: 0 };
+    if (name.value) item.name = name.value;
+    if (type === 'mime' && name.next < infe.end) {
+      item.contentType = readCString(data, name.next, infe.end).value;
+    }
+    items.set(id, item);
+  }
+
+  return items;
+}
+
+function parseItemLocations(data: Uint8Array, iloc: IsoBox | undefined): Map<number, ItemLocation> {
+  const locations = new Map<number, ItemLocation>();
+  if (!iloc) return locations;
+
+  const version = data[iloc.start];
+  let offset = iloc.start + 4;
+  const offsetSize = data[offset] >> 4;
+  const lengthSize = data[offset] & 0x0F;
+  const baseOffsetSize = data[offset + 1] >> 4;
+  const indexSize = version === 1 || version === 2 ? data[offset + 1] & 0x0F : 0;
+  offset += 2;
+
+  const itemCount = version < 2 ? readUint(data, offset, 2) : readUint(data, offset, 4);
+  offset += version < 2 ? 2 : 4;
+
+  for (let i = 0; i < itemCount && offset < iloc.end; i++) {
+    const id = version < 2 ? readUint(data, offset, 2) : readUint(data, offset, 4);
+    offset += version < 2 ? 2 : 4;
+
+    let constructionMethod = 0;
+    if (version === 1 || version === 2) {
+      constructionMethod = readUint(data, offset, 2) & 0x0F;
+      offset += 2;
+    }
+    // data_reference_index: only 0 (this file) is supported
+    offset += 2;
+    const baseOffset = readUint(data, offset, baseOffsetSize);
+    offset += baseOffsetSize;
+
+    const extentCount = readUint(data, offset, 2);
+    offset += 2;
+    const extents: ItemLocation['extents'] = [];
+    for (let e = 0; e < extentCount; e++) {
+      offset += indexSize;
+      const extentOffset = readUint(data, offset, offsetSize);
+      offset += offsetSize;
+      const extentLength = readUint(data, offset, lengthSize);
+      offset += lengthSize;
+      extents.push({ offset: extentOffset, length: extentLength });
+    }
+
+    locations.set(id, { constructionMethod, baseOffset, extents });
+  }
+
+  return locations;
+}
+
+function parseItemReferences(data: Uint8Array, iref: IsoBox | undefined): Map<number, Record<string, number[]>> {
+  const references = new Map<number, Record<string, number[]>>();
+  if (!iref) return references;
+
+  const idSize = data[iref.start] === 0 ? 2 : 4;
+  for (const reference of readBoxes(data, iref.start + 4, iref.end)) {
+    let offset = reference.start;
+    const fromId = readUint(data, offset, idSize);
+    const count = readUint(data, offset + idSize, 2);
+    offset += idSize + 2;
+
+    const targets: number[] = [];
+    for (let i = 0; i < count && offset + idSize <= reference.end; i++) {
+      targets.push(readUint(data, offset, idSize));
+      offset += idSize;
+    }
+
+    const entry = references.get(fromId) ?? {};
+    entry[reference.type] = [...(entry[reference.type] ?? []), ...targets];
+    references.set(fromId, entry);
+  }
+
+  return references;
+}
+
+function parseItemPropertyAssociations(data: Uint8Array, ipma: IsoBox | undefined): Map<number, number[]> {
+  const associations = new Map<number, number[]>();
+  if (!ipma) return associations;
+
+  const version = data[ipma.start];
+  const wideIndices = (data[ipma.start + 3] & 1) === 1;
+  let offset = ipma.start + 4;
+  const entryCount = readUint32BE(data, offset);
+  offset += 4;
+
+  for (let i = 0; i < entryCount && offset < ipma.end; i++) {
+    const id = version < 1 ? readUint(data, offset, 2) : readUint(data, offset, 4);
+    offset += version < 1 ? 2 : 4;
+    const count = data[offset++];
+
+    const indices: number[] = [];
+    for (let a = 0; a < count; a++) {
+      // The top bit marks the property as essential
+      const index = wideIndices ? readUint(data, offset, 2) & 0x7FFF : data[offset] & 0x7F;
+      offset += wideIndices ? 2 : 1;
+      indices.push(index);
+    }
+    associations.set(id, indices);
+  }
+
+  return associations;
+}
+
+function parseColourInformation(data: Uint8Array, colr: IsoBox): HeifColorProfile | undefined {
+  const colourType = readAscii(data, colr.start, 4);
+  if (colourType === 'nclx') {
+    return {
+      type: 'nclx',
+      colourPrimaries: readUint(data, colr.start + 4, 2),
+      transferCharacteristics: readUint(data, colr.start + 6, 2),
+      matrixCoefficients: readUint(data, colr.start + 8, 2),
+      fullRange: (data[colr.start + 10] & 0x80) !== 0,
+    };
+  }
+  if (colourType === 'prof' || colourType === 'rICC') {
+    return { type: colourType, offset: colr.start + 4, size: colr.end - colr.start - 4 };
+  }
+  return undefined;
+}
+
+function readItemData(data: Uint8Array, location: ItemLocation, idat: IsoBox | undefined): Uint8Array | null {
+  // Construction method 0 addresses the file, 1 the idat box; 2 (item
+  // references) is only used for derived images
+  if (location.constructionMethod > 1 || (location.constructionMethod === 1 && !idat)) return null;
+  const origin = location.constructionMethod === 1 ? idat!.start : 0;
+  const limit = location.constructionMethod === 1 ? idat!.end : data.length;
+
+  const parts: Uint8Array[] = [];
+  let total = 0;
+  for (const extent of location.extents) {
+    const start = origin + location.baseOffset + extent.offset;
+    // A zero length extent runs to the end of the file
+    const end = extent.length === 0 ? limit : start + extent.length;
+    if (start >= limit || end > limit || total + end - start > MAX_ITEM_BYTES) return null;
+    parts.push(data.subarray(start, end));
+    total += end - start;
+  }
+
+  if (parts.length === 1) return parts[0];
+  const joined = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    joined.set(part, offset);
+    offset += part.length;
+  }
+  return joined;
+}
+
+export function analyzeHeif(heif: HeifInfo): { suspicious: boolean; reasons: string[] } {
+  const reasons: string[] = [];
+
+  if (!heif.primary) {
+    reasons.push('no primary image item is declared');
+  }
+
+  // Capture devices write the thumbnail from the same frame; a different
+  // aspect ratio means the primary image was cropped or replaced afterwards
+  const primary = heif.primary;
+  if (primary?.width && primary.height) {
+    for (const id of heif.thumbnails) {
+      const thumbnail = heif.items.find((item) => item.id === id);
+      if (!thumbnail?.width || !thumbnail.height) continue;
+      const primaryRatio = primary.width / primary.height;
+      const thumbnailRatio = thumbnail.width / thumbnail.height;
+      if (Math.abs(primaryRatio - thumbnailRatio) / primaryRatio > 0.02) {
+        reasons.push(
+          `thumbnail ${thumbnail.width}x${thumbnail.height} does not match the ${primary.width}x${primary.height} primary image`
+        );
+      }
+    }
+  }
+
+  if (heif.unknownBoxes.length > 0) {
+    reasons.push(`unexpected top-level boxes: ${heif.unknownBoxes.join(', ')}`);
+  }
+
+  return { suspicious: reasons.length > 0, reasons };
+}
@@ -0,0 +1,30 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { duplicateFindings, type PriorSubmission } from './history.ts';
+
+const prior: PriorSubmission[] = [
+  { filename: 'alice-rent.png', submitter: 'client:alice-0001', createdAt: '2024-01-05T10:00:00Z' },
+  { filename: 'untracked.png', submitter: null, createdAt: '2024-01-06T10:00:00Z' },
+];
+
+const codes = (outputs: ReturnType<typeof duplicateFindings>) => outputs.map((output) => output.finding.code);
+
+Deno.test("duplicateFindings never shows another submitter's filename", () => {
+  const outputs = duplicateFindings(prior, 'bob.png', 'client:bob-00001');
+  assertEquals(codes(outputs), ['HISTORY_OTHER_SUBMITTER', 'HISTORY_SEEN_BEFORE']);
+  const reported = JSON.stringify(outputs);
+  assert(!reported.includes('alice-rent.png'));
+  assert(!reported.includes('untracked.png'));
+});
+
+Deno.test('duplicateFindings gives an anonymous requester no filenames', () => {
+  const outputs = duplicateFindings(prior, 'renamed.png', null);
+  assertEquals(codes(outputs), ['HISTORY_SEEN_BEFORE']);
+  assertEquals(outputs[0].finding.evidence, { submissions: 2, firstSeen: '2024-01-05T10:00:00Z' });
+  assert(!JSON.stringify(outputs).includes('alice-rent.png'));
+});
+
+Deno.test('duplicateFindings names earlier filenames to the same submitter', () => {
+  const outputs = duplicateFindings(prior, 'renamed.png', 'client:alice-0001');
+  assertEquals(codes(outputs), ['HISTORY_SEEN_BEFORE', 'HISTORY_RENAMED']);
+  assertEquals(outputs[1].finding.evidence?.filenames, ['alice-rent.png']);
+});
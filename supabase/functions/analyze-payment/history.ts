@@ -0,0 +1,263 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.83.0';
+import type { DetectorFinding, DetectorInfo, DetectorOutput } from './detector.ts';
+import type { PerceptualHashes } from './phash.ts';
+
+const SUBMISSIONS_TABLE = 'analysis_submissions';
+// Enough earlier submissions to describe the history without reading it all
+const HISTORY_LIMIT = 50;
+
+export interface PriorSubmission {
+  filename: string | null;
+  submitter: string | null;
+  createdAt: string;
+}
+
+// Runs per request rather than in the cached pipeline, since the history grows
+// with every submission of the same file
+const HISTORY_DETECTOR: DetectorInfo = { id: 'submission-history', version: '1.0.0', category: 'history' };
+
+// Signed-in users are identified by their account, anonymous visitors by the id their browser keeps
+export async function resolveSubmitter(
+  client: SupabaseClient | null,
+  authorization: string | null,
+  clientId: unknown
+): Promise<string | null> {
+  const token = authorization?.replace(/^Bearer\s+/i, '');
+  if (client && token) {
+    const { data } = await client.auth.getUser(token);
+    if (data.user) return `user:${data.user.id}`;
+  }
+  // "undefined" and "null" are what a client sends when it stringifies a missing id
+  return typeof clientId === 'string' && /^[\w-]{8,64}$/.test(clientId) && !/^(undefined|null)$/i.test(clientId)
+    ? `client:${clientId}`
+    : null;
+}
+
+// Earlier submissions of the same bytes, oldest first
+export async function loadPriorSubmissions(client: SupabaseClient, sha256: string): Promise<PriorSubmission[]> {
+  const { data, error } = await client
+    .from(SUBMISSIONS_TABLE)
+    .select('filename, submitter, created_at')
+    .eq('sha256', sha256)
+    .order('created_at', { ascending: true })
+    .limit(HISTORY_LIMIT);
+  if (error) console.error('Submission history lookup failed:', error.message);
+  return (data ?? []).map((row) => ({ filename: row.filename, submitter: row.submitter, createdAt: row.created_at }));
+}
+
+export interface SubmissionRecord<Checks> {
+  sha256: string;
+  filename: string | null;
+  submitter: string | null;
+  hashes: PerceptualHashes | null;
+  authentic: boolean;
+  confidence: number;
+  // What was scored on top of the cached run, so a revisit can show the same findings
+  requestChecks: Checks;
+}
+
+// Hex hash to the signed bigint the table stores; sent as a string so no bits are lost to JSON numbers
+const toBigint = (hex: string | null | undefined) => hex ? BigInt.asIntN(64, BigInt(`0x${hex}`)).toString() : null;
+
+// Returns the id of the new submission, which links to its analysis
+export async function recordSubmission<Checks>(client: SupabaseClient, record: SubmissionRecord<Checks>): Promise<string | null> {
+  const { data, error } = await client
+    .from(SUBMISSIONS_TABLE)
+    .insert({
+      sha256: record.sha256,
+      filename: record.filename,
+      submitter: record.submitter,
+      phash: toBigint(record.hashes?.phash),
+      dhash: toBigint(record.hashes?.dhash),
+      amount_hash: toBigint(record.hashes?.amount),
+      authentic: record.authentic,
+      confidence: record.confidence,
+      request_checks: record.requestChecks,
+    })
+    .select('id')
+    .single();
+  if (error) {
+    console.error('Recording the submission failed:', error.message);
+    return null;
+  }
+  return data.id;
+}
+
+export interface StoredSubmission<Checks> {
+  sha256: string;
+  submitter: string | null;
+  authentic: boolean | null;
+  confidence: number | null;
+  createdAt: string;
+  requestChecks: Checks | null;
+}
+
+export async function loadSubmission<Checks>(client: SupabaseClient, id: string): Promise<StoredSubmission<Checks> | null> {
+  const { data, error } = await client
+    .from(SUBMISSIONS_TABLE)
+    .select('sha256, submitter, authentic, confidence, created_at, request_checks')
+    .eq('id', id)
+    .maybeSingle();
+  if (error) console.error('Submission lookup failed:', error.message);
+  return data
+    ? {
+      sha256: data.sha256,
+      submitter: data.submitter,
+      authentic: data.authentic,
+      confidence: data.confidence,
+      createdAt: data.created_at,
+      requestChecks: data.request_checks as Checks | null,
+    }
+    : null;
+}
+
+// Only the original submitter may see the full report, which carries their transaction details
+export const isOwnSubmission = (submission: { submitter: string | null }, submitter: string | null) =>
+  Boolean(submitter) && submission.submitter === submitter;
+
+export interface SimilarSubmission {
+  id: string;
+  // Only disclosed for the requester's own submissions
+  filename: string | null;
+  ownSubmission: boolean;
+  createdAt: string;
+  authentic: boolean | null;
+  confidence: number | null;
+  // Differing bits out of 64; amount is null when either image had no amount region
+  distance: { phash: number; dhash: number; amount: number | null };
+}
+
+// Both whole-image hashes this close mean the same screenshot re-encoded, rescaled or lightly
+// cropped; either alone can collide on screenshots that are mostly flat background
+const MAX_DISTANCE = 10;
+// Amounts render alike across genuine receipts, so only near-exact amount regions count
+const MAX_AMOUNT_DISTANCE = 4;
+const SIMILAR_LIMIT = 5;
+
+export async function findSimilarSubmissions(
+  client: SupabaseClient,
+  sha256: string,
+  hashes: PerceptualHashes,
+  submitter: string | null
+): Promise<SimilarSubmission[]> {
+  const { data, error } = await client.rpc('similar_submissions', {
+    p_sha256: sha256,
+    p_phash: toBigint(hashes.phash),
+    p_dhash: toBigint(hashes.dhash),
+    p_amount_hash: toBigint(hashes.amount),
+    p_max_distance: MAX_DISTANCE,
+    p_max_amount_distance: MAX_AMOUNT_DISTANCE,
+    p_limit: SIMILAR_LIMIT,
+  });
+  if (error) {
+    console.error('Similarity search failed:', error.message);
+    return [];
+  }
+  return (data ?? []).map((row: Record<string, unknown>) => {
+    const ownSubmission = isOwnSubmission(row as { submitter: string | null }, submitter);
+    return {
+      id: row.id as string,
+      filename: ownSubmission ? row.filename as string | null : null,
+      ownSubmission,
+      createdAt: row.created_at as string,
+      authentic: row.authentic as boolean | null,
+      confidence: row.confidence as number | null,
+      distance: {
+        phash: row.phash_distance as number,
+        dhash: row.dhash_distance as number,
+        amount: row.amount_distance as number | null,
+      },
+    };
+  });
+}
+
+export function duplicateFindings(
+  prior: PriorSubmission[],
+  filename: string | null,
+  submitter: string | null
+): DetectorOutput[] {
+  const findings: DetectorFinding[] = [];
+  const firstSeen = (submissions: PriorSubmission[]) => submissions[0].createdAt.slice(0, 10);
+
+  // Other people's submissions are counted but their filenames are not disclosed
+  const others = submitter ? prior.filter((submission) => submission.submitter && submission.submitter !== submitter) : [];
+  if (others.length > 0) {
+    findings.push({
+      type: 'warning',
+      code: 'HISTORY_OTHER_SUBMITTER',
+      message: `This exact file was already submitted by another user ${others.length} time(s), first on ${firstSeen(others)}. Passing around someone else's payment screenshot is a common reuse scam.`,
+      weight: 25,
+      evidence: { submissions: others.length, firstSeen: others[0].createdAt },
+    });
+  }
+
+  // Without an identity on both sides the earlier submission may be someone else's, so
+  // only the fact that the file was seen is reported, never what it was called
+  const unattributed = prior.filter((submission) => !submitter || !submission.submitter);
+  if (unattributed.length > 0) {
+    findings.push({
+      type: 'info',
+      code: 'HISTORY_SEEN_BEFORE',
+      message: `This exact file was submitted before ${unattributed.length} time(s), first on ${firstSeen(unattributed)}, by a submitter who could not be identified.`,
+      weight: 0,
+      evidence: { submissions: unattributed.length, firstSeen: unattributed[0].createdAt },
+    });
+  }
+
+  const own = submitter ? prior.filter((submission) => submission.submitter === submitter) : [];
+  const renamed = own.filter((submission) => submission.filename && filename && submission.filename !== filename);
+  if (renamed.length > 0) {
+    const names = [...new Set(renamed.map((submission) => submission.filename!))];
+    findings.push({
+      type: 'warning',
+      code: 'HISTORY_RENAMED',
+      message: `This exact file was submitted before under a different name (${names.slice(0, 3).join(', ')}), first on ${firstSeen(renamed)}. Renaming a screenshot hides that it was already checked.`,
+      weight: 10,
+      evidence: { filenames: names, firstSeen: renamed[0].createdAt },
+    });
+  }
+
+  return findings.map((finding) => ({ detector: HISTORY_DETECTOR, finding }));
+}
+
+const describeMatch = (match: SimilarSubmission) => {
+  const verdict = match.authentic === null ? 'no verdict' : `${match.authentic ? 'authentic' : 'modified'} at ${match.confidence}%`;
+  return `${Math.max(match.distance.phash, match.distance.dhash)}/64 bits apart, ${verdict}, ${match.createdAt.slice(0, 10)}`;
+};
+
+export function similarityFindings(similar: SimilarSubmission[]): DetectorOutput[] {
+  const findings: DetectorFinding[] = [];
+  const evidence = (matches: SimilarSubmission[]) => ({
+    matches: matches.map((match) => ({
+      id: match.id,
+      distance: match.distance,
+      authentic: match.authentic,
+      confidence: match.confidence,
+      createdAt: match.createdAt,
+    })),
+  });
+
+  const nearDuplicates = similar.filter((match) => Math.max(match.distance.phash, match.distance.dhash) <= MAX_DISTANCE);
+  if (nearDuplicates.length > 0) {
+    findings.push({
+      type: 'warning',
+      code: 'HISTORY_NEAR_DUPLICATE',
+      message: `Visually near-identical to ${nearDuplicates.length} earlier submission(s) with different file bytes (closest: ${describeMatch(nearDuplicates[0])}). Fake receipts are re-cropped or re-compressed and sent to several sellers.`,
+      weight: 20,
+      evidence: evidence(nearDuplicates),
+    });
+  }
+
+  const amountOnly = similar.filter((match) => !nearDuplicates.includes(match));
+  if (amountOnly.length > 0) {
+    findings.push({
+      type: 'info',
+      code: 'HISTORY_AMOUNT_REGION_MATCH',
+      message: `The amount region matches ${amountOnly.length} earlier submission(s) whose overall image differs. This can be a crop of the same screenshot, or another receipt for the same amount.`,
+      weight: 0,
+      evidence: evidence(amountOnly),
+    });
+  }
+
+  return findings.map((finding) => ({ detector: HISTORY_DETECTOR, finding }));
+}
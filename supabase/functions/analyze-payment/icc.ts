@@ -0,0 +1,258 @@
+import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
+import { indexOfByte, inflateZlib, readAscii, readUint32BE, startsWithAscii } from './bytes.ts';
+import { readTiffTagBytes } from './exif.ts';
+import { parseHeif } from './heif.ts';
+import { readJpegSegments } from './jpeg.ts';
+import { parseWebp } from './webp.ts';
+
+const ICC_TIFF_TAG = 0x8773;
+const JPEG_ICC_MARKER = 'ICC_PROFILE\0';
+const PNG_SIGNATURE_LENGTH = 8;
+
+export type Platform = 'iOS' | 'macOS' | 'Android' | 'Windows';
+
+interface ExpectedProfile {
+  // Descriptions the platform's screenshot pipeline writes
+  descriptions: RegExp;
+  // Creator or manufacturer signatures; empty when any vendor is plausible
+  creators: string[];
+  // Whether screenshots from the platform always carry a profile
+  required: boolean;
+  mobile: boolean;
+}
+
+const EXPECTED_PROFILES: Record<Platform, ExpectedProfile> = {
+  iOS: { descriptions: /^(Display P3|sRGB IEC61966-2\.1)$/i, creators: ['appl'], required: true, mobile: true },
+  // macOS embeds the profile of the display the screenshot was taken on
+  macOS: { descriptions: /./, creators: ['appl'], required: false, mobile: false },
+  Android: { descriptions: /^(sRGB|sRGB IEC61966-2\.1|Display P3)$/i, creators: [], required: false, mobile: true },
+  Windows: { descriptions: /sRGB/i, creators: [], required: false, mobile: false },
+};
+
+// Profiles that desktop editors attach on export (Adobe's own and the HP
+// sRGB profile Photoshop embeds by default)
+const DESKTOP_SIGNATURES = new Set(['ADBE', 'Lino', 'HP']);
+const DESKTOP_COPYRIGHT = /(adobe|hewlett-packard)/i;
+
+export interface IccProfile {
+  size: number;
+  cmm: string;
+  version: string;
+  deviceClass: string;
+  colorSpace: string;
+  connectionSpace: string;
+  created?: string;
+  platform: string;
+  manufacturer: string;
+  model: string;
+  creator: string;
+  renderingIntent: number;
+  description?: string;
+  copyright?: string;
+  // Profile ID from the header; absent when the writer left it zeroed
+  profileId?: string;
+  // MD5 computed the way the ICC specification defines the profile ID
+  md5: string;
+}
+
+// Finds the embedded profile in any supported container
+export async function extractIccProfile(data: Uint8Array, format: string): Promise<Uint8Array | null> {
+  switch (format) {
+    case 'JPEG':
+      return extractJpegIcc(data);
+    case 'PNG':
+      return await extractPngIcc(data);
+    case 'HEIC':
+    case 'HEIF': {
+      const profile = parseHeif(data)?.colorProfile;
+      return profile && profile.type !== 'nclx' ? data.subarray(profile.offset, profile.offset + profile.size) : null;
+    }
+    case 'WEBP': {
+      const chunk = parseWebp(data)?.chunks.find((entry) => entry.type === 'ICCP');
+      return chunk ? data.subarray(chunk.offset + 8, chunk.offset + 8 + chunk.length) : null;
+    }
+    case 'TIFF':
+      return readTiffTagBytes(data, ICC_TIFF_TAG);
+    case 'BMP':
+      return extractBmpIcc(data);
+    default:
+      return null;
+  }
+}
+
+// Profiles larger than a segment are split across APP2 segments, each
+// prefixed with its 1-based sequence number and the total count
+function extractJpegIcc(data: Uint8Array): Uint8Array | null {
+  const parts = new Map<number, Uint8Array>();
+  let count = 0;
+  for (const segment of readJpegSegments(data)) {
+    if (segment.marker !== 0xE2 || !startsWithAscii(segment.data, JPEG_ICC_MARKER)) continue;
+    const header = JPEG_ICC_MARKER.length;
+    parts.set(segment.data[header], segment.data.subarray(header + 2));
+    count = segment.data[header + 1];
+  }
+  if (parts.size === 0 || parts.size !== count) return null;
+
+  const ordered = [...parts.entries()].sort(([a], [b]) => a - b).map(([, part]) => part);
+  const profile = new Uint8Array(ordered.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of ordered) {
+    profile.set(part, offset);
+    offset += part.length;
+  }
+  return profile;
+}
+
+// iCCP holds the profile name, a compression method byte and the zlib stream
+async function extractPngIcc(data: Uint8Array): Promise<Uint8Array | null> {
+  let offset = PNG_SIGNATURE_LENGTH;
+  while (offset + 12 <= data.length) {
+    const length = readUint32BE(data, offset);
+    const type = readAscii(data, offset + 4, 4);
+    if (type === 'iCCP') {
+      const body = data.subarray(offset + 8, offset + 8 + length);
+      const separator = indexOfByte(body, 0);
+      return separator > 0 ? await inflateZlib(body.subarray(separator + 2)) : null;
+    }
+    if (type === 'IDAT' || type === 'IEND') break;
+    offset += 12 + length;
+  }
+  return null;
+}
+
+// BITMAPV5HEADER stores the profile's offset (relative to the info header) and size
+function extractBmpIcc(data: Uint8Array): Uint8Array | null {
+  if (data.length < 138) return null;
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (view.getUint32(14, true) < 124 || readAscii(data, 70, 4) !== 'DEBM') return null;
+  const start = 14 + view.getUint32(126, true);
+  const size = view.getUint32(130, true);
+  return start + size <= data.length ? data.subarray(start, start + size) : null;
+}
+
+const signature = (data: Uint8Array, offset: number) => readAscii(data, offset, 4).replace(/[\0 ]+$/, '');
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+function readUint16BE(data: Uint8Array, offset: number): number {
+  return (data[offset] << 8) | data[offset + 1];
+}
+
+// desc (ICC v2) holds ASCII; mluc (v4) holds UTF-16BE records per language;
+// text holds plain ASCII
+function readTextTag(data: Uint8Array, start: number, size: number): string | undefined {
+  const tag = data.subarray(start, start + size);
+  const type = readAscii(tag, 0, 4);
+
+  if (type === 'desc' && tag.length >= 12) {
+    const length = readUint32BE(tag, 8);
+    return readAscii(tag, 12, length).replace(/\0[\s\S]*$/, '').trim() || undefined;
+  }
+  if (type === 'text') {
+    return readAscii(tag, 8, tag.length - 8).replace(/\0[\s\S]*$/, '').trim() || undefined;
+  }
+  if (type === 'mluc' && tag.length >= 16) {
+    const count = readUint32BE(tag, 8);
+    const recordSize = readUint32BE(tag, 12);
+    let chosen: { length: number; offset: number } | null = null;
+    for (let i = 0; i < count && 16 + (i + 1) * recordSize <= tag.length; i++) {
+      const record = 16 + i * recordSize;
+      const entry = { length: readUint32BE(tag, record + 4), offset: readUint32BE(tag, record + 8) };
+      if (!chosen || readAscii(tag, record, 4) === 'enUS') chosen = entry;
+    }
+    if (!chosen || chosen.offset + chosen.length > tag.length) return undefined;
+    return new TextDecoder('utf-16be').decode(tag.subarray(chosen.offset, chosen.offset + chosen.length)).trim() || undefined;
+  }
+  return undefined;
+}
+
+export async function parseIccProfile(data: Uint8Array): Promise<IccProfile | null> {
+  if (data.length < 132 || readAscii(data, 36, 4) !== 'acsp') return null;
+
+  const year = readUint16BE(data, 24);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const created = year > 0
+    ? `${year}-${pad(readUint16BE(data, 26))}-${pad(readUint16BE(data, 28))}T${pad(readUint16BE(data, 30))}:${pad(readUint16BE(data, 32))}:${pad(readUint16BE(data, 34))}Z`
+    : undefined;
+
+  // The profile ID is the MD5 of the profile with the flags, rendering
+  // intent and profile ID fields zeroed
+  const hashed = data.slice(0, Math.min(data.length, readUint32BE(data, 0) || data.length));
+  hashed.fill(0, 44, 48);
+  hashed.fill(0, 64, 68);
+  hashed.fill(0, 84, 100);
+  const md5 = toHex(new Uint8Array(await crypto.subtle.digest('MD5', hashed)));
+  const storedId = toHex(data.subarray(84, 100));
+
+  const profile: IccProfile = {
+    size: readUint32BE(data, 0),
+    cmm: signature(data, 4),
+    version: `${data[8]}.${data[9] >> 4}.${data[9] & 0x0F}`,
+    deviceClass: signature(data, 12),
+    colorSpace: signature(data, 16),
+    connectionSpace: signature(data, 20),
+    created,
+    platform: signature(data, 40),
+    manufacturer: signature(data, 48),
+    model: signature(data, 52),
+    creator: signature(data, 80),
+    renderingIntent: readUint32BE(data, 64),
+    profileId: /^0+$/.test(storedId) ? undefined : storedId,
+    md5,
+  };
+
+  const tagCount = readUint32BE(data, 128);
+  for (let i = 0; i < tagCount && 132 + (i + 1) * 12 <= data.length; i++) {
+    const entry = 132 + i * 12;
+    const tag = readAscii(data, entry, 4);
+    const start = readUint32BE(data, entry + 4);
+    const size = readUint32BE(data, entry + 8);
+    if (start + size > data.length) continue;
+    if (tag === 'desc') profile.description = readTextTag(data, start, size);
+    if (tag === 'cprt') profile.copyright = readTextTag(data, start, size);
+  }
+
+  return profile;
+}
+
+export function analyzeIcc(profile: IccProfile): { suspicious: boolean; reasons: string[] } {
+  const reasons: string[] = [];
+
+  if (profile.profileId && profile.profileId !== profile.md5) {
+    reasons.push('header profile ID does not match the profile contents, so the profile was modified after it was written');
+  }
+  if (profile.size !== 0 && profile.size < 132) {
+    reasons.push(`declared size of ${profile.size} bytes is shorter than an ICC header`);
+  }
+
+  return { suspicious: reasons.length > 0, reasons };
+}
+
+// Compares the embedded profile with what the platform's screenshot pipeline writes
+export function compareIccProfile(profile: IccProfile | null, platform: Platform): { matches: boolean; reasons: string[] } {
+  const expected = EXPECTED_PROFILES[platform];
+  const reasons: string[] = [];
+
+  if (!profile) {
+    if (expected.required) {
+      reasons.push(`${platform} screenshots always embed a color profile but none is present`);
+    }
+    return { matches: reasons.length === 0, reasons };
+  }
+
+  const description = profile.description ?? 'unnamed';
+  if (!expected.descriptions.test(profile.description ?? '')) {
+    reasons.push(`profile "${description}" is not one ${platform} writes`);
+  }
+  if (expected.creators.length > 0 &&
+    !expected.creators.includes(profile.creator) && !expected.creators.includes(profile.manufacturer)) {
+    reasons.push(`profile was created by "${profile.creator || 'unknown'}" rather than ${expected.creators.join('/')}`);
+  }
+  const desktop = DESKTOP_SIGNATURES.has(profile.cmm) || DESKTOP_SIGNATURES.has(profile.creator) ||
+    DESKTOP_COPYRIGHT.test(profile.copyright ?? '');
+  if (expected.mobile && desktop) {
+    reasons.push(`"${description}"${profile.copyright ? ` (${profile.copyright})` : ''} is the profile desktop editors attach on export`);
+  }
+
+  return { matches: reasons.length === 0, reasons };
+}
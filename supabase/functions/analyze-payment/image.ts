@@ -0,0 +1,81 @@
+import { GIF, Image } from "https://deno.land/x/imagescript@1.3.0/mod.ts";
+import libheif from "https://esm.sh/libheif-js@1.18.2/wasm-bundle";
+import { decodeBmp, parseBmp } from './bmp.ts';
+import { parseHeif, type HeifInfo } from './heif.ts';
+
+export interface DecodedImage {
+  width: number;
+  height: number;
+  // RGBA, 4 bytes per pixel, row-major
+  rgba: Uint8ClampedArray;
+}
+
+export async function decodeImage(data: Uint8Array, format: string): Promise<DecodedImage | null> {
+  try {
+    switch (format) {
+      case 'HEIC':
+      case 'HEIF': {
+        const heif = parseHeif(data);
+        return heif ? await decodeHeif(data, heif) : null;
+      }
+      case 'BMP': {
+        const bmp = parseBmp(data);
+        return bmp ? decodeBmp(data, bmp) : null;
+      }
+      case 'GIF': {
+        // Only the first frame is what most viewers show as the still image
+        const frame = (await GIF.decode(data, true))[0];
+        return frame ? { width: frame.width, height: frame.height, rgba: frame.bitmap } : null;
+      }
+      case 'WEBP':
+        console.log('No WebP decoder available; skipping pixel-level analysis');
+        return null;
+    }
+    const image = await Image.decode(data);
+    return { width: image.width, height: image.height, rgba: image.bitmap };
+  } catch (error) {
+    console.error('Image decode error:', error);
+    return null;
+  }
+}
+
+export async function encodeJpeg(image: DecodedImage, quality: number): Promise<Uint8Array> {
+  const target = new Image(image.width, image.height);
+  target.bitmap.set(image.rgba);
+  return await target.encodeJPEG(quality);
+}
+
+export async function encodePng(image: DecodedImage): Promise<Uint8Array> {
+  const target = new Image(image.width, image.height);
+  target.bitmap.set(image.rgba);
+  return await target.encode();
+}
+
+// ImageScript has no HEVC decoder; libheif decodes the top-level images and
+// the one matching the primary item's size is used
+async function decodeHeif(data: Uint8Array, heif: HeifInfo): Promise<DecodedImage | null> {
+  const decoder = new libheif.HeifDecoder();
+  const images = decoder.decode(data);
+  if (images.length === 0) return null;
+
+  const image = images.find((candidate) =>
+    candidate.get_width() === heif.primary?.width && candidate.get_height() === heif.primary?.height
+  ) ?? images[0];
+  const width = image.get_width();
+  const height = image.get_height();
+
+  try {
+    const rgba = await new Promise<Uint8ClampedArray>((resolve, reject) => {
+      image.display({ data: new Uint8ClampedArray(width * height * 4), width, height }, (display) => {
+        if (!display) {
+          reject(new Error('HEIF processing error'));
+          return;
+        }
+        resolve(display.data);
+      });
+    });
+    return { width, height, rgba };
+  } finally {
+    for (const candidate of images) candidate.free();
+  }
+}
@@ -1,43 +1,178 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { extractJpegExif, getExifString, type ExifData } from "./exif.ts";
+import { getPngText, parsePng, type PngInfo } from "./png.ts";
+import { fingerprintJpeg, matchEncoder } from "./jpeg-encoders.ts";
+import { decodeImage, encodeJpeg } from "./image.ts";
+import { heifBrand, parseHeif, type HeifInfo } from "./heif.ts";
+import { isWebp, parseWebp, type WebpInfo } from "./webp.ts";
+import { isGif, parseGif, type GifInfo } from "./gif.ts";
+import { isBmp, parseBmp, type BmpInfo } from "./bmp.ts";
+import { isTiff, parseTiffFile, type TiffInfo } from "./tiff.ts";
+import { parseFrame, readJpegSegments } from "./jpeg.ts";
+import { classifyResolution, type ResolutionCheck } from "./devices.ts";
+import { extractIccProfile, parseIccProfile, type IccProfile, type Platform } from "./icc.ts";
+import { extractJpegXmp, parseXmp, PNG_XMP_KEYWORD, type XmpInfo } from "./xmp.ts";
+import { performOcr } from "./ocr.ts";
+import { loadVisionProvider, type VisionProvider } from "./vision.ts";
+import { AI_ANALYSIS_JSON_SCHEMA, AiAnalysisSchema, requestStructured, type AiStageStatus } from "./ai-output.ts";
+import { loadEnsembleConfig, runEnsemble, type EnsembleAnalysis, type EnsembleConfig } from "./ai-ensemble.ts";
+import { extractTransaction, type Transaction } from "./transaction.ts";
+import { classifyProvider, dominantAccent, PROVIDER_TEMPLATES, type ProviderClassification } from "./providers.ts";
+import { verifyTemplate, type TemplateVerification } from "./provider-verifier.ts";
+import { analyzeStatusBar, type StatusBarAnalysis } from "./statusbar.ts";
+import { analyzeTimestamps, collectTimeSources, type TimestampAnalysis } from "./timestamps.ts";
+import { getDetectors, getRequestDetectors, runDetectors, type DetectorOutcome, type DetectorOutput, type FindingCategory } from "./detector.ts";
+import { loadPolicy, scoreFindings, type ScoringPolicy } from "./scoring.ts";
+import { analyzerVersion, createCacheClient, loadCachedRun, loadLatestRun, sha256Hex, storeRun } from "./cache.ts";
+import {
+  duplicateFindings,
+  findSimilarSubmissions,
+  loadPriorSubmissions,
+  loadSubmission,
+  recordSubmission,
+  isOwnSubmission,
+  resolveSubmitter,
+  similarityFindings,
+  type SimilarSubmission
+} from "./history.ts";
+import { perceptualHashes, type PerceptualHashes } from "./phash.ts";
+import { readUpload, UPLOAD_HEADERS, UploadError } from "./upload.ts";
+import { NO_PROGRESS, streamProgress, type ProgressReporter } from "./progress.ts";
+import "./detectors/index.ts";
+import { performErrorLevelAnalysis, type ElaResult } from "./ela.ts";
+import { analyzeCompression, type CompressionAnomalies } from "./compression.ts";
+import { detectCopyMove, type Box, type CopyMoveResult } from "./copy-move.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': ['authorization', 'x-client-info', 'apikey', 'content-type', ...UPLOAD_HEADERS].join(', '),
 };
 
+interface Finding {
+  type: 'info' | 'warning' | 'critical';
+  // Stable identifier such as META_EDITOR_SOFTWARE
+  code: string;
+  // Pipeline-level findings that no detector produced are 'summary'
+  category: FindingCategory | 'summary';
+  message: string;
+  detector?: { id: string; version: string };
+  // Confidence points this finding removed
+  contribution: number;
+  // Raw values the finding was derived from: tag values, byte offsets, scores
+  evidence?: Record<string, unknown>;
+  // Image regions the finding refers to, in pixel coordinates
+  regions?: Box[];
+}
+
 interface AnalysisResult {
   authentic: boolean;
   confidence: number;
-  findings: Array<{
-    type: 'info' | 'warning' | 'critical';
-    message: string;
-  }>;
+  findings: Finding[];
   metadata: {
+    format: string;
     software?: string;
+    encoder?: string;
+    estimatedQuality?: number;
     editingDetected: boolean;
-    compressionAnomalies: boolean;
+    compressionAnomalies: CompressionAnomalies;
     metadataInconsistencies: boolean;
   };
+  exif: ExifData | null;
+  png: PngInfo | null;
+  heif: HeifInfo | null;
+  webp: WebpInfo | null;
+  gif: GifInfo | null;
+  bmp: BmpInfo | null;
+  tiff: TiffInfo | null;
+  xmp: XmpInfo | null;
+  icc: IccProfile | null;
+  resolution: ResolutionCheck | null;
+  transaction: Transaction | null;
+  provider: (ProviderClassification & TemplateVerification) | null;
+  statusBar: StatusBarAnalysis | null;
+  timestamps: TimestampAnalysis | null;
+  ela: ElaResult | null;
+  copyMove: CopyMoveResult | null;
+  ai: AiStatus;
+  hashes: PerceptualHashes | null;
+  cache?: CacheStatus;
+  // Id of this submission, which links back to the analysis
+  submissionId?: string | null;
+  // Earlier submissions that look the same, closest first
+  similar?: SimilarSubmission[];
+}
+
+// Everything an analysis produces except the verdict. Runs are cached, while the verdict
+// is scored on every request so the submission history and policy changes always apply.
+interface PipelineRun {
+  outputs: DetectorOutput[];
+  report: Omit<AnalysisResult, 'authentic' | 'confidence' | 'findings' | 'metadata' | 'timestamps' | 'cache' | 'submissionId' | 'similar'> & {
+    metadata: Omit<AnalysisResult['metadata'], 'editingDetected' | 'metadataInconsistencies'>;
+  };
 }
 
+interface CacheStatus {
+  // The pipeline did not run; the result comes from an earlier analysis of the same bytes
+  hit: boolean;
+  sha256: string;
+  analyzerVersion: string;
+  analyzedAt: string;
+}
+
+// Bump when the pipeline changes in a way detector versions do not capture
+const PIPELINE_VERSION = 3;
+
+// Whether the vision model contributed, so reviewers know when AI findings are missing
+interface AiStatus {
+  provider: string | null;
+  model: string | null;
+  analysis: AiStageStatus;
+  ocr: AiStageStatus;
+  // Per-category votes of the analysis passes
+  ensemble: Pick<EnsembleAnalysis, 'passes' | 'threshold' | 'categories'> | null;
+}
+
+const SKIPPED_STAGE: AiStageStatus = { status: 'skipped', attempts: 0 };
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { image, filename } = await req.json();
-    
-    if (!image) {
-      throw new Error('No image provided');
+    const { data: binaryData, filename, lastModified, clientId, submissionId } = await readUpload(req);
+    const receivedAt = new Date();
+
+    if (!binaryData && submissionId) {
+      return await revisitSubmission(submissionId, req.headers.get('Authorization'), clientId);
+    }
+    if (!binaryData || binaryData.length === 0) {
+      throw new UploadError(400, 'No image provided');
+    }
+    // The file extension and declared type are not trusted; the bytes must start like an image
+    const format = detectImageFormat(binaryData);
+    if (format === 'UNKNOWN') {
+      throw new UploadError(415, 'Unsupported file: expected a JPEG, PNG, HEIF, WebP, GIF, BMP or TIFF image');
     }
 
-    console.log('Analyzing image:', filename);
+    console.log('Analyzing image:', filename, format, binaryData.length, 'bytes');
 
-    // Extract EXIF data and analyze the image
-    const result = await analyzeImage(image);
+    const submission: Submission = {
+      data: binaryData,
+      filename,
+      clientId,
+      authorization: req.headers.get('Authorization'),
+      lastModified,
+      receivedAt
+    };
+    // Clients that accept an event stream see each phase and detector as it completes
+    if (req.headers.get('Accept')?.includes('text/event-stream')) {
+      return streamProgress((progress) => analyzeSubmission(submission, progress), corsHeaders);
+    }
 
+    const result = await analyzeSubmission(submission, NO_PROGRESS);
     return new Response(
       JSON.stringify(result),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -47,221 +182,507 @@ serve(async (req) => {
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
       { 
-        status: 500,
+        status: error instanceof UploadError ? error.status : 500,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       }
     );
   }
 });
 
-async function analyzeImage(base64Image: string): Promise<AnalysisResult> {
-  const findings: Array<{ type: 'info' | 'warning' | 'critical'; message: string }> = [];
-  let confidence = 100;
-  let editingSoftware: string | undefined;
-  let editingDetected = false;
-  let compressionAnomalies = false;
-  let metadataInconsistencies = false;
+// What the client reports about the uploaded file, and when it arrived
+interface UploadContext {
+  lastModified?: number;
+  receivedAt: Date;
+}
 
-  try {
-    // Convert base64 to binary for analysis
-    const base64Data = base64Image.split(',')[1];
-    const binaryData = Uint8Array.from(atob(base64Data), c => c.charCodeAt(0));
-    
-    // PHASE 1: Binary Forensic Analysis
-    console.log('Starting binary forensic analysis...');
-    
-    // Check for EXIF data presence
-    const hasExif = checkExifPresence(binaryData);
-    
-    if (!hasExif) {
-      findings.push({
-        type: 'warning',
-        message: 'No EXIF data found. This could indicate metadata has been stripped, which is common with edited images.'
-      });
-      confidence -= 15;
-      metadataInconsistencies = true;
-    }
+interface Submission extends UploadContext {
+  data: Uint8Array;
+  filename: string | null;
+  clientId?: string;
+  authorization: string | null;
+}
 
-    // Analyze image header for editing software signatures
-    const softwareSignatures = detectEditingSoftware(binaryData);
-    const appSignatures = detectAppSignatures(binaryData);
-    const strongMetadataEvidence = softwareSignatures.length + appSignatures.length > 1;
-
-    if (softwareSignatures.length > 0) {
-      editingSoftware = softwareSignatures.join(', ');
-      const severity: 'warning' | 'critical' = strongMetadataEvidence ? 'critical' : 'warning';
-      findings.push({
-        type: severity,
-        message: `Editing software detected in metadata: ${editingSoftware}.`
-      });
-      if (severity === 'critical') {
-        editingDetected = true;
-        confidence -= 30;
-      } else {
-        confidence -= 10;
-      }
-    }
+async function analyzeSubmission(submission: Submission, progress: ProgressReporter): Promise<AnalysisResult> {
+  const { data: binaryData, filename, lastModified, receivedAt } = submission;
+  const policy = loadPolicy();
+  const vision = loadVisionProvider();
+  const ensembleConfig = loadEnsembleConfig();
+
+  // Identical bytes analyzed by the same analyzer version are served from the cache
+  const cache = createCacheClient();
+  progress({ type: 'phase', phase: 'cache', status: cache ? 'started' : 'skipped' });
+  const sha256 = await sha256Hex(binaryData);
+  const version = await analyzerVersion({
+    pipeline: PIPELINE_VERSION,
+    detectors: getDetectors().map((detector) => `${detector.id}@${detector.version}`),
+    vision: vision ? `${vision.id}/${vision.model}` : null,
+    ensemble: ensembleConfig
+  });
+  const submitter = await resolveSubmitter(cache, submission.authorization, submission.clientId);
+  const [cached, priorSubmissions] = cache
+    ? await Promise.all([
+      loadCachedRun<PipelineRun>(cache, sha256, version),
+      loadPriorSubmissions(cache, sha256),
+    ])
+    : [null, []];
+  if (cache) {
+    progress({ type: 'phase', phase: 'cache', status: 'finished', detail: cached ? 'hit' : 'miss' });
+  }
 
-    // Check for multiple save signatures (re-compression)
-    const recompressionDetected = detectRecompression(binaryData);
-    if (recompressionDetected) {
-      compressionAnomalies = true;
-      findings.push({
-        type: 'warning',
-        message: 'Multiple compression signatures detected. Image appears to have been saved multiple times, suggesting possible editing.'
-      });
-      confidence -= 20;
-    }
+  const run = cached?.run ??
+    await analyzeImage(binaryData, vision, ensembleConfig, policy, progress);
+  // A failed AI stage is not cached, so the next submission gets another chance at it
+  if (run && !cached && cache && run.report.ai.analysis.status !== 'failed') {
+    await storeRun(cache, sha256, version, run);
+  }
 
-    // Analyze PNG/JPEG specific markers
-    const format = detectImageFormat(binaryData);
-    if (format === 'PNG') {
-      const pngAnalysis = analyzePNG(binaryData);
-      if (pngAnalysis.suspicious) {
-        findings.push({
-          type: 'warning',
-          message: 'PNG metadata suggests possible screenshot conversion or editing.'
-        });
-        confidence -= 10;
-      }
-    } else if (format === 'JPEG') {
-      const jpegAnalysis = analyzeJPEG(binaryData);
-      if (jpegAnalysis.qualityInconsistent) {
-        compressionAnomalies = true;
-        findings.push({
-          type: 'critical',
-          message: 'JPEG quality levels are inconsistent across the image, indicating selective editing or manipulation.'
-        });
-        confidence -= 25;
-      }
-    }
+  // The file's modification time and arrival time belong to this upload, not to the cached
+  // run, so every clock is cross-checked on each request
+  const timestamps = run ? checkTimestamps(run, { lastModified, receivedAt }) : null;
+  const uploadOutputs = run
+    ? runDetectors(getRequestDetectors(), { format: run.report.metadata.format, timestamps }, detectorProgress(progress, policy))
+    : [];
+
+  // Re-encoded or cropped copies of earlier screenshots have new bytes but similar hashes
+  progress({ type: 'phase', phase: 'history', status: cache ? 'started' : 'skipped' });
+  const similar = cache && run?.report.hashes
+    ? await findSimilarSubmissions(cache, sha256, run.report.hashes, submitter)
+    : [];
+  const history = [
+    ...duplicateFindings(priorSubmissions, filename, submitter),
+    ...similarityFindings(similar)
+  ];
+  if (cache) {
+    progress({ type: 'phase', phase: 'history', status: 'finished', detail: `${similar.length} similar` });
+  }
 
-    // Check for common editing app signatures in metadata
-    if (appSignatures.length > 0) {
-      const severity: 'warning' | 'critical' = strongMetadataEvidence ? 'critical' : 'warning';
-      findings.push({
-        type: severity,
-        message: `Detected traces of editing apps in metadata: ${appSignatures.join(', ')}.`
-      });
-      if (severity === 'critical') {
-        editingDetected = true;
-        confidence -= 25;
-      } else {
-        confidence -= 8;
-      }
-    }
+  progress({ type: 'phase', phase: 'scoring', status: 'started' });
+  const result = run ? scoreRun(run, [...uploadOutputs, ...history], policy, timestamps) : failedResult();
+  result.cache = {
+    hit: Boolean(cached),
+    sha256,
+    analyzerVersion: version,
+    analyzedAt: cached?.createdAt ?? receivedAt.toISOString()
+  };
+  result.similar = similar;
+  // Recorded after scoring so later similarity matches can show this verdict
+  result.submissionId = cache
+    ? await recordSubmission(cache, {
+      sha256,
+      filename,
+      submitter,
+      hashes: run?.report.hashes ?? null,
+      authentic: result.authentic,
+      confidence: result.confidence,
+      requestChecks: { outputs: [...uploadOutputs, ...history], timestamps }
+    })
+    : null;
+  progress({ type: 'phase', phase: 'scoring', status: run ? 'finished' : 'failed' });
 
-    // PHASE 2: AI-Powered Visual Analysis
-    console.log('Starting AI-powered visual analysis...');
-    const aiAnalysis = await performAIVisualAnalysis(base64Image);
-    
-    if (aiAnalysis) {
-      // Process AI findings
-      if (aiAnalysis.clonedRegions) {
-        findings.push({
-          type: 'critical',
-          message: `AI detected cloned/copied regions: ${aiAnalysis.clonedRegions}. This indicates copy-paste manipulation.`
-        });
-        editingDetected = true;
-        confidence -= 35;
-      }
+  return result;
+}
 
-      if (aiAnalysis.lightingInconsistencies) {
-        findings.push({
-          type: 'critical',
-          message: `Lighting inconsistencies detected: ${aiAnalysis.lightingInconsistencies}. Different parts of the image have inconsistent illumination.`
-        });
-        editingDetected = true;
-        confidence -= 30;
-      }
+// The run may already be cached, so a value the checks cannot handle drops the timestamp
+// findings rather than failing every later submission of the same file
+function checkTimestamps(run: PipelineRun, upload: UploadContext): TimestampAnalysis | null {
+  try {
+    return analyzeTimestamps(collectTimeSources({
+      statusBarClock: run.report.statusBar?.clock ?? null,
+      transaction: run.report.transaction,
+      exif: run.report.exif,
+      xmp: run.report.xmp,
+      png: run.report.png,
+      lastModified: upload.lastModified,
+      receivedAt: upload.receivedAt
+    }));
+  } catch (error) {
+    console.error("Timestamp checks failed:", error);
+    return null;
+  }
+}
 
-      if (aiAnalysis.pixelManipulation) {
-        findings.push({
-          type: 'critical',
-          message: `Pixel-level manipulation detected: ${aiAnalysis.pixelManipulation}. Text or numbers appear to have been altered.`
-        });
-        editingDetected = true;
-        confidence -= 40;
-      }
+// Findings scored on top of the cached run, stored with each submission
+interface RequestChecks {
+  outputs: DetectorOutput[];
+  timestamps: TimestampAnalysis | null;
+}
 
-      if (aiAnalysis.fontInconsistencies) {
-        findings.push({
-          type: 'warning',
-          message: `Font inconsistencies detected: ${aiAnalysis.fontInconsistencies}. Text rendering appears unnatural.`
-        });
-        confidence -= 15;
-      }
+// What anyone but the original submitter gets on a revisit: the verdict, never the
+// report, which carries the sender, recipient and other transaction details
+interface SubmissionSummary {
+  submissionId: string;
+  restricted: true;
+  authentic: boolean | null;
+  confidence: number | null;
+  analyzedAt: string;
+  hashes: PerceptualHashes | null;
+}
 
-      if (aiAnalysis.colorAnomalies) {
-        findings.push({
-          type: 'warning',
-          message: `Color anomalies detected: ${aiAnalysis.colorAnomalies}. Color distribution is inconsistent with authentic screenshots.`
-        });
-        confidence -= 10;
-      }
+// Serves an earlier analysis by submission id, without the image, from its stored run
+async function revisitSubmission(submissionId: string, authorization: string | null, clientId?: string): Promise<Response> {
+  const cache = createCacheClient();
+  const submission = cache ? await loadSubmission<RequestChecks>(cache, submissionId) : null;
+  const stored = cache && submission ? await loadLatestRun<PipelineRun>(cache, submission.sha256) : null;
+  const submitter = cache ? await resolveSubmitter(cache, authorization, clientId) : null;
+  const own = submission !== null && isOwnSubmission(submission, submitter);
+  if (!cache || !submission || (own && !stored)) {
+    return new Response(
+      JSON.stringify({ error: 'Analysis not found' }),
+      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
 
-      if (aiAnalysis.artificialElements) {
-        findings.push({
-          type: 'info',
-          message: `Possible artificial elements: ${aiAnalysis.artificialElements}`
-        });
-        confidence -= 5;
-      }
-    }
+  if (!own || !stored) {
+    const summary: SubmissionSummary = {
+      submissionId,
+      restricted: true,
+      authentic: submission.authentic,
+      confidence: submission.confidence,
+      analyzedAt: submission.createdAt,
+      hashes: stored?.run.report.hashes ?? null
+    };
+    return new Response(
+      JSON.stringify(summary),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
 
-    // Final confidence adjustment
-    confidence = Math.max(0, Math.min(100, confidence));
+  const checks = submission.requestChecks;
+  const result = scoreRun(stored.run, checks?.outputs ?? [], loadPolicy(), checks?.timestamps ?? null);
+  // The verdict recorded at the time, which similar-submission links show as well; a policy
+  // change since would otherwise make the two disagree
+  if (submission.authentic !== null && submission.confidence !== null) {
+    result.authentic = submission.authentic;
+    result.confidence = submission.confidence;
+  }
+  result.cache = {
+    hit: true,
+    sha256: submission.sha256,
+    analyzerVersion: stored.analyzerVersion,
+    analyzedAt: submission.createdAt
+  };
+  result.submissionId = submissionId;
+  return new Response(
+    JSON.stringify(result),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
 
-    // Only mark as modified when there is clear evidence of editing
-    const hasCriticalFindings = findings.some(finding => finding.type === 'critical');
-    const authenticityThreshold = (hasCriticalFindings || editingDetected) ? 70 : 50;
-    const authentic = !editingDetected && !hasCriticalFindings && confidence >= authenticityThreshold;
+// MIME types for the data URL the vision model receives
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  JPEG: 'image/jpeg',
+  PNG: 'image/png',
+  WEBP: 'image/webp',
+  GIF: 'image/gif',
+  BMP: 'image/bmp',
+  TIFF: 'image/tiff',
+};
 
-    if (authentic && findings.length === 0) {
-      findings.push({
-        type: 'info',
-        message: 'No signs of manipulation detected through forensic or AI analysis. Image appears to be an original screenshot.'
-      });
+async function analyzeImage(
+  binaryData: Uint8Array,
+  vision: VisionProvider | null,
+  ensembleConfig: EnsembleConfig,
+  policy: ScoringPolicy,
+  progress: ProgressReporter
+): Promise<PipelineRun | null> {
+  try {
+    // PHASE 1: Binary Forensic Analysis
+    console.log('Starting binary forensic analysis...');
+    progress({ type: 'phase', phase: 'forensics', status: 'started' });
+    
+    const format = detectImageFormat(binaryData);
+    const png = format === 'PNG' ? await parsePng(binaryData) : null;
+    const heif = format === 'HEIC' || format === 'HEIF' ? parseHeif(binaryData) : null;
+    const webp = format === 'WEBP' ? parseWebp(binaryData) : null;
+    const gif = format === 'GIF' ? parseGif(binaryData) : null;
+    const bmp = format === 'BMP' ? parseBmp(binaryData) : null;
+    const tiff = format === 'TIFF' ? parseTiffFile(binaryData) : null;
+
+    // Parse the EXIF block so later checks can work from real tag values
+    const exif = png?.exif ?? heif?.exif ?? webp?.exif ?? tiff?.exif ??
+      (format === 'JPEG' ? extractJpegExif(binaryData) : null);
+
+    // XMP carries the editor's CreatorTool and save history alongside EXIF
+    const jpegXmp = format === 'JPEG' ? extractJpegXmp(binaryData) : null;
+    const xmpPacket = jpegXmp?.packet ?? (png ? getPngText(png, PNG_XMP_KEYWORD) : undefined) ??
+      heif?.xmp ?? webp?.xmp ?? gif?.xmp ?? tiff?.xmp;
+    const xmp = xmpPacket ? parseXmp(xmpPacket, jpegXmp?.extended) : null;
+
+    // Analyze image header for editing software signatures
+    const parsedSoftware = collectSoftwareValues(exif, png, xmp, gif?.comments ?? []);
+    const signatures = {
+      software: detectEditingSoftware(binaryData, parsedSoftware),
+      apps: detectAppSignatures(binaryData, parsedSoftware),
+    };
+
+    // Compare the embedded color profile with what the claimed device writes
+    const iccBytes = await extractIccProfile(binaryData, format);
+    const icc = iccBytes ? await parseIccProfile(iccBytes) : null;
+    const platform = inferPlatform(exif, format);
+
+    // Compare the pixel size with the screenshot sizes of real devices
+    const dimensions: { width?: number; height?: number } | null =
+      png?.ihdr ?? heif?.primary ?? webp ?? gif ?? bmp ?? tiff ??
+      (format === 'JPEG' ? parseFrame(readJpegSegments(binaryData)) : null);
+    const resolution = dimensions?.width && dimensions?.height
+      ? classifyResolution(dimensions.width, dimensions.height)
+      : null;
+
+    const fingerprint = format === 'JPEG' ? fingerprintJpeg(binaryData, getExifString(exif, 'Make')) : null;
+    const jpeg = fingerprint ? { fingerprint, match: matchEncoder(fingerprint) } : null;
+
+    progress({ type: 'phase', phase: 'forensics', status: 'finished' });
+
+    // PHASE 2: Pixel-Level Forensics
+    console.log('Starting pixel-level forensic analysis...');
+    progress({ type: 'phase', phase: 'pixels', status: 'started' });
+    const decoded = await decodeImage(binaryData, format);
+    const ela = decoded ? await performErrorLevelAnalysis(decoded) : null;
+
+    // Double quantization and block-grid alignment from the DCT coefficients and pixels
+    const compressionAnomalies = await analyzeCompression(binaryData, format, decoded);
+    if (fingerprint?.tablesRedefined) {
+      compressionAnomalies.score = Math.max(compressionAnomalies.score, 80);
     }
 
+    // Duplicated regions within the screenshot, such as a digit copied over another
+    const copyMove = decoded ? detectCopyMove(decoded) : null;
+    progress({ type: 'phase', phase: 'pixels', status: 'finished', detail: decoded ? undefined : 'pixels could not be decoded' });
+
+    // PHASE 3: AI-Powered Visual Analysis
+    console.log('Starting AI-powered visual analysis...');
+    // The vision model does not accept HEIF, so it sees a JPEG of the decoded pixels
+    const aiImage = heif && decoded
+      ? `data:image/jpeg;base64,${encodeBase64(await encodeJpeg(decoded, 90))}`
+      : `data:${IMAGE_MIME_TYPES[format] ?? 'application/octet-stream'};base64,${encodeBase64(binaryData)}`;
+    // OCR runs alongside the visual analysis and feeds the transaction extraction
+    const imageSize = decoded ?? dimensions;
+    // AI_ENSEMBLE can ask several passes or models, which then vote on each category
+    const ensembleProviders = vision && ensembleConfig.models.length > 0
+      ? ensembleConfig.models.flatMap((model) => loadVisionProvider(model) ?? [])
+      : vision ? [vision] : [];
+    // The AI calls are the slow part, so each reports when it settles rather than with the phase
+    progress({ type: 'phase', phase: 'vision', status: vision ? 'started' : 'skipped' });
+    progress({ type: 'phase', phase: 'ocr', status: vision ? 'started' : 'skipped' });
+    const [aiAnalysis, ocrResult] = vision
+      ? await Promise.all([
+        runEnsemble(ensembleProviders, ensembleConfig, (provider) => performAIVisualAnalysis(provider, aiImage)).then((analysis) => {
+          const succeeded = analysis.passes.filter((pass) => pass.status.status !== 'failed').length;
+          progress({
+            type: 'phase',
+            phase: 'vision',
+            status: analysis.status.status === 'failed' ? 'failed' : 'finished',
+            detail: analysis.passes.length > 1 ? `${succeeded}/${analysis.passes.length} passes` : analysis.status.error
+          });
+          return analysis;
+        }),
+        performOcr(vision, aiImage, imageSize?.width, imageSize?.height).then((ocr) => {
+          progress({
+            type: 'phase',
+            phase: 'ocr',
+            status: ocr.status.status === 'failed' ? 'failed' : 'finished',
+            detail: ocr.lines ? `${ocr.lines.length} lines` : ocr.status.error
+          });
+          return ocr;
+        }),
+      ])
+      : [null, { lines: null, status: SKIPPED_STAGE }];
+    const ocrLines = ocrResult.lines;
+    const ai: AiStatus = {
+      provider: vision?.id ?? null,
+      model: vision?.model ?? null,
+      analysis: aiAnalysis?.status ?? SKIPPED_STAGE,
+      ocr: ocrResult.status,
+      ensemble: aiAnalysis
+        ? { passes: aiAnalysis.passes, threshold: aiAnalysis.threshold, categories: aiAnalysis.categories }
+        : null
+    };
+    progress({ type: 'phase', phase: 'content', status: 'started' });
+    const transaction = ocrLines ? extractTransaction(ocrLines, imageSize?.height) : null;
+    // Stored with the submission so later uploads of a re-encoded or cropped copy can find it
+    const hashes = decoded ? perceptualHashes(decoded, transaction?.amount?.box ?? null) : null;
+
+    // Identify the payment app and compare the screenshot with its known layouts
+    const accent = decoded ? dominantAccent(decoded) : null;
+    const classification = ocrLines ? classifyProvider(ocrLines, transaction, accent) : null;
+    const template = PROVIDER_TEMPLATES.find((candidate) => candidate.provider === classification?.provider);
+    const screen = imageSize?.width && imageSize?.height ? { width: imageSize.width, height: imageSize.height } : null;
+    const provider = classification && template
+      ? { ...classification, ...verifyTemplate(template, transaction, decoded, accent, screen) }
+      : null;
+
+    // The status bar is drawn by the OS, so edited screenshots rarely get every element right
+    const statusBar = analyzeStatusBar(decoded, ocrLines, resolution, screen);
+
+    progress({ type: 'phase', phase: 'content', status: 'finished' });
+
+    // Every check is a registered detector; the policy turns their findings into a verdict.
+    // Disabled detectors still run so the cached run stays complete if they are re-enabled;
+    // scoreRun leaves their findings out.
+    progress({ type: 'phase', phase: 'detectors', status: 'started' });
+    const outputs = runDetectors(getDetectors(), {
+      data: binaryData,
+      format,
+      exif,
+      png,
+      heif,
+      webp,
+      gif,
+      bmp,
+      tiff,
+      xmp,
+      icc,
+      platform,
+      resolution,
+      jpeg,
+      signatures,
+      decoded,
+      ela,
+      compression: compressionAnomalies,
+      copyMove,
+      ocrLines,
+      transaction,
+      provider,
+      statusBar,
+      ai: aiAnalysis
+    }, detectorProgress(progress, policy));
+    const reported = outputs.filter(({ detector }) => !policy.disabled.includes(detector.id));
+    progress({ type: 'phase', phase: 'detectors', status: 'finished', detail: `${reported.length} findings` });
+
     return {
-      authentic,
-      confidence,
-      findings,
-      metadata: {
-        software: editingSoftware,
-        editingDetected,
-        compressionAnomalies,
-        metadataInconsistencies
+      outputs,
+      report: {
+        metadata: {
+          format,
+          software: signatures.software.length > 0 ? signatures.software.join(', ') : undefined,
+          encoder: jpeg?.match.encoder,
+          estimatedQuality: jpeg?.match.quality ?? undefined,
+          compressionAnomalies
+        },
+        exif,
+        png,
+        heif,
+        webp,
+        gif,
+        bmp,
+        tiff,
+        xmp,
+        icc,
+        resolution,
+        transaction,
+        provider,
+        statusBar,
+        ela,
+        copyMove,
+        ai,
+        hashes
       }
     };
   } catch (error) {
     console.error('Image analysis error:', error);
-    return {
-      authentic: false,
-      confidence: 0,
-      findings: [{
-        type: 'critical',
-        message: 'Failed to analyze image properly. File may be corrupted or in an unsupported format.'
-      }],
-      metadata: {
-        editingDetected: false,
-        compressionAnomalies: false,
-        metadataInconsistencies: true
-      }
-    };
+    return null;
   }
 }
 
-async function performAIVisualAnalysis(base64Image: string) {
-  try {
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
-      console.error('LOVABLE_API_KEY not found');
-      return null;
+// Reports each detector as it settles; disabled ones run for the cache but show no findings
+function detectorProgress(progress: ProgressReporter, policy: ScoringPolicy) {
+  return ({ detector, status, findings, error }: DetectorOutcome) => {
+    const disabled = policy.disabled.includes(detector.id);
+    progress({
+      type: 'detector',
+      detector,
+      status: status === 'ok' && disabled ? 'disabled' : status,
+      findings: disabled ? [] : findings.map(({ type, code, message }) => ({ type, code, message })),
+      error
+    });
+  };
+}
+
+function scoreRun(
+  run: PipelineRun,
+  extra: DetectorOutput[],
+  policy: ScoringPolicy,
+  timestamps: TimestampAnalysis | null
+): AnalysisResult {
+  // Runs include every detector, so the policy's disabled list is applied here
+  const outputs = run.outputs.concat(extra).filter(({ detector }) => !policy.disabled.includes(detector.id));
+  const score = scoreFindings(outputs, policy);
+
+  const findings: Finding[] = score.findings.map(({ detector, finding, contribution }) => ({
+    type: finding.type,
+    code: finding.code,
+    category: detector.category,
+    message: finding.message,
+    detector: { id: detector.id, version: detector.version },
+    contribution,
+    evidence: finding.evidence,
+    regions: finding.regions
+  }));
+
+  if (score.authentic && findings.every((finding) => finding.type === 'info')) {
+    findings.push({
+      type: 'info',
+      code: 'NO_MANIPULATION_DETECTED',
+      category: 'summary',
+      contribution: 0,
+      message: 'No signs of manipulation detected through forensic or AI analysis. Image appears to be an original screenshot.'
+    });
+  }
+
+  return {
+    ...run.report,
+    timestamps,
+    authentic: score.authentic,
+    confidence: score.confidence,
+    findings,
+    metadata: {
+      ...run.report.metadata,
+      editingDetected: score.editingDetected,
+      metadataInconsistencies: score.metadataInconsistencies
     }
+  };
+}
+
+function failedResult(): AnalysisResult {
+  return {
+    authentic: false,
+    confidence: 0,
+    findings: [{
+      type: 'critical',
+      code: 'ANALYSIS_FAILED',
+      category: 'summary',
+      contribution: 100,
+      message: 'Failed to analyze image properly. File may be corrupted or in an unsupported format.'
+    }],
+    metadata: {
+      format: 'UNKNOWN',
+      editingDetected: false,
+      compressionAnomalies: { score: 0, doubleQuantization: null, grid: null },
+      metadataInconsistencies: true
+    },
+    exif: null,
+    png: null,
+    heif: null,
+    webp: null,
+    gif: null,
+    bmp: null,
+    tiff: null,
+    xmp: null,
+    icc: null,
+    resolution: null,
+    transaction: null,
+    provider: null,
+    statusBar: null,
+    timestamps: null,
+    ela: null,
+    copyMove: null,
+    ai: { provider: null, model: null, analysis: SKIPPED_STAGE, ocr: SKIPPED_STAGE, ensemble: null },
+    hashes: null
+  };
+}
 
-    const prompt = `You are a forensic image analysis expert. Analyze this payment screenshot image for signs of manipulation or editing. Look for:
+function performAIVisualAnalysis(vision: VisionProvider, base64Image: string) {
+  const prompt = `You are a forensic image analysis expert. Analyze this payment screenshot image for signs of manipulation or editing. Look for:
 
 1. CLONED REGIONS: Areas that appear to be copied/pasted from other parts of the image
 2. LIGHTING INCONSISTENCIES: Different areas with inconsistent shadows, highlights, or illumination that wouldn't occur naturally
@@ -282,70 +703,14 @@ Return your analysis in this EXACT JSON format (no markdown, no code blocks, jus
 
 If a category shows no issues, set it to null. Be specific about locations and what you observe. Only flag issues you're confident about.`;
 
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          {
-            role: 'user',
-            content: [
-              { type: 'text', text: prompt },
-              { type: 'image_url', image_url: { url: base64Image } }
-            ]
-          }
-        ],
-        temperature: 0.3,
-        max_tokens: 1000
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('AI API error:', response.status, errorText);
-      return null;
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
-    
-    if (!content) {
-      console.error('No content in AI response');
-      return null;
-    }
-
-    // Parse the JSON response
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      const analysis = JSON.parse(jsonMatch[0]);
-      console.log('AI analysis result:', analysis);
-      return analysis;
-    }
-
-    console.error('Could not parse AI response as JSON:', content);
-    return null;
-  } catch (error) {
-    console.error('AI analysis error:', error);
-    return null;
-  }
-}
-
-function checkExifPresence(data: Uint8Array): boolean {
-  // Check for EXIF marker (0xFFE1 for JPEG)
-  for (let i = 0; i < data.length - 4; i++) {
-    if (data[i] === 0xFF && data[i + 1] === 0xE1) {
-      // Check for "Exif" string
-      if (data[i + 4] === 0x45 && data[i + 5] === 0x78 && 
-          data[i + 6] === 0x69 && data[i + 7] === 0x66) {
-        return true;
-      }
-    }
-  }
-  return false;
+  return requestStructured(vision, {
+    task: 'analysis',
+    prompt,
+    image: base64Image,
+    temperature: 0.3,
+    maxTokens: 1000,
+    schema: AI_ANALYSIS_JSON_SCHEMA
+  }, AiAnalysisSchema);
 }
 
 function extractMetadataStrings(data: Uint8Array, maxLength = 8192): string[] {
@@ -401,14 +766,42 @@ function headerContainsPattern(tokens: string[], pattern: string): boolean {
   return false;
 }
 
-function detectEditingSoftware(data: Uint8Array): string[] {
+// EXIF tags that name the application, host or author that produced the file
+const EXIF_SOFTWARE_TAGS = ['Software', 'ProcessingSoftware', 'HostComputer', 'ImageDescription', 'Artist'];
+
+// PNG text keywords with the same meaning
+const PNG_SOFTWARE_KEYS = ['Software', 'Creator', 'Author', 'Source', 'Comment', 'Description'];
+
+function collectSoftwareValues(
+  exif: ExifData | null,
+  png: PngInfo | null,
+  xmp: XmpInfo | null,
+  comments: string[]
+): string[] {
+  const values = EXIF_SOFTWARE_TAGS.map((name) => getExifString(exif, name));
+  if (png) {
+    values.push(...PNG_SOFTWARE_KEYS.map((key) => getPngText(png, key)));
+  }
+  values.push(xmp?.creatorTool);
+  values.push(...comments);
+  return values
+    .filter((value): value is string => value !== undefined)
+    .map((value) => value.replace(/\s+/g, ' ').toLowerCase());
+}
+
+function detectEditingSoftware(data: Uint8Array, parsedSoftware: string[]): string[] {
   const software: string[] = [];
   const headerTokens = extractHeaderTokens(data);
 
-  // Only evaluate metadata-like tokens to avoid random binary matches
-  const metadataTokens = headerTokens.filter((token) =>
-    /(software|application|producer|creator|generator|rendered|modified)/i.test(token)
-  );
+  // Parsed EXIF tags, PNG text and the XMP CreatorTool come first; metadata-like
+  // header strings remain as a fallback for fields no parser reads.
+  // Only metadata-like tokens are evaluated to avoid random binary matches.
+  const metadataTokens = [
+    ...parsedSoftware,
+    ...headerTokens.filter((token) =>
+      /(software|application|producer|creator|generator|rendered|modified)/i.test(token)
+    )
+  ];
 
   const signatures = [
     { name: 'Photoshop', patterns: ['adobe photoshop', 'photoshop', 'phoshop'] },
@@ -432,17 +825,31 @@ function detectEditingSoftware(data: Uint8Array): string[] {
   return [...new Set(software)];
 }
 
-function detectRecompression(data: Uint8Array): boolean {
-  // Look for multiple JFIF or JPEG markers. Two markers can appear legitimately
-  // when a file embeds a thumbnail preview, so require at least three distinct
-  // start markers before flagging to reduce false positives on native captures.
-  let jpegMarkerCount = 0;
-  for (let i = 0; i < data.length - 1; i++) {
-    if (data[i] === 0xFF && data[i + 1] === 0xD8) {
-      jpegMarkerCount++;
-    }
+// Platform the file claims to come from, judged from EXIF and the container;
+// null when nothing identifies it
+function inferPlatform(exif: ExifData | null, format: string): Platform | null {
+  const make = getExifString(exif, 'Make') ?? '';
+  const model = getExifString(exif, 'Model') ?? '';
+  const software = getExifString(exif, 'Software') ?? '';
+
+  if (/apple/i.test(make)) {
+    return /mac/i.test(model) ? 'macOS' : 'iOS';
+  }
+  if (/(samsung|google|xiaomi|redmi|oneplus|huawei|honor|oppo|vivo|realme|motorola|sony|lge|nokia|nothing)/i.test(make) ||
+    /android/i.test(software)) {
+    return 'Android';
+  }
+  if (/windows/i.test(software)) {
+    return 'Windows';
+  }
+  if (/mac ?os/i.test(software)) {
+    return 'macOS';
+  }
+  // HEIC is the iPhone default; other vendors rarely write it without a Make tag
+  if (format === 'HEIC') {
+    return 'iOS';
   }
-  return jpegMarkerCount > 2;
+  return null;
 }
 
 function detectImageFormat(data: Uint8Array): string {
@@ -454,42 +861,37 @@ function detectImageFormat(data: Uint8Array): string {
   if (data[0] === 0xFF && data[1] === 0xD8) {
     return 'JPEG';
   }
+  // ISO-BMFF ftyp box with a HEIF brand
+  const heif = heifBrand(data);
+  if (heif) {
+    return heif;
+  }
+  // RIFF container with the WEBP form type
+  if (isWebp(data)) {
+    return 'WEBP';
+  }
+  if (isGif(data)) {
+    return 'GIF';
+  }
+  if (isBmp(data)) {
+    return 'BMP';
+  }
+  // II*\0 or MM\0*
+  if (isTiff(data)) {
+    return 'TIFF';
+  }
   return 'UNKNOWN';
 }
 
-function analyzePNG(data: Uint8Array): { suspicious: boolean } {
-  const dataString = new TextDecoder().decode(data);
-  // Check for software chunks or unusual metadata
-  const hasSoftwareChunk = dataString.includes('Software') || dataString.includes('tEXt');
-  return { suspicious: hasSoftwareChunk };
-}
-
-function analyzeJPEG(data: Uint8Array): { qualityInconsistent: boolean } {
-  // Extract metadata-like tokens from the header region to look for explicit
-  // quality tags instead of scanning arbitrary binary data, which can contain
-  // random "quality" strings and cause false positives.
-  const headerTokens = extractHeaderTokens(data, 16384);
-
-  // Capture numerical quality values such as "Quality=92" or "quality 85".
-  const qualityValues = headerTokens
-    .map((token) => {
-      const match = token.match(/\bquality[:=]?\s*(\d{1,3})/i);
-      return match ? parseInt(match[1], 10) : null;
-    })
-    .filter((value): value is number => value !== null);
-
-  // Flag only when multiple distinct quality levels are present, suggesting
-  // the image was saved more than once with different compression settings.
-  const distinctQualityValues = new Set(qualityValues);
-  return { qualityInconsistent: distinctQualityValues.size > 1 && qualityValues.length > 1 };
-}
-
-function detectAppSignatures(data: Uint8Array): string[] {
+function detectAppSignatures(data: Uint8Array, parsedSoftware: string[]): string[] {
   const apps: string[] = [];
   const headerTokens = extractHeaderTokens(data);
-  const metadataTokens = headerTokens.filter((token) =>
-    /(software|application|producer|creator|generator|rendered|modified|app)/i.test(token)
-  );
+  const metadataTokens = [
+    ...parsedSoftware,
+    ...headerTokens.filter((token) =>
+      /(software|application|producer|creator|generator|rendered|modified|app)/i.test(token)
+    )
+  ];
 
   const appSignatures = [
     { name: 'Snapseed', pattern: 'snapseed' },
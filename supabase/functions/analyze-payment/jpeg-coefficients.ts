@@ -0,0 +1,253 @@
+import { parseFrame, readJpegSegments, ZIGZAG, type JpegSegment } from './jpeg.ts';
+
+export interface CoefficientPlane {
+  // Blocks per row and column that cover the image (excluding MCU padding)
+  blocksX: number;
+  blocksY: number;
+  // Quantized coefficients, 64 per block in natural order, blocks in raster order
+  coefficients: Int16Array;
+}
+
+interface HuffmanTable {
+  // Canonical decoding tables as in libjpeg's jdhuff.c
+  maxCode: Int32Array;
+  valPtr: Int32Array;
+  minCode: Int32Array;
+  values: Uint8Array;
+}
+
+interface ScanComponent {
+  index: number;
+  h: number;
+  v: number;
+  dcTable: HuffmanTable;
+  acTable: HuffmanTable;
+  predictor: number;
+}
+
+class BitReader {
+  private buffer = 0;
+  private bits = 0;
+  // Set once a marker is reached; remaining reads return zero bits
+  markerHit = false;
+
+  constructor(private readonly data: Uint8Array, public offset: number) {}
+
+  readBit(): number {
+    if (this.bits === 0) {
+      this.fill();
+    }
+    this.bits--;
+    return (this.buffer >> this.bits) & 1;
+  }
+
+  receive(length: number): number {
+    let value = 0;
+    for (let i = 0; i < length; i++) {
+      value = (value << 1) | this.readBit();
+    }
+    return value;
+  }
+
+  private fill() {
+    this.bits = 8;
+    if (this.markerHit || this.offset >= this.data.length) {
+      this.buffer = 0;
+      return;
+    }
+    const byte = this.data[this.offset];
+    if (byte === 0xFF) {
+      const next = this.data[this.offset + 1];
+      if (next === 0x00) {
+        // Stuffed zero byte following a literal 0xFF
+        this.offset += 2;
+        this.buffer = 0xFF;
+        return;
+      }
+      this.markerHit = true;
+      this.buffer = 0;
+      return;
+    }
+    this.offset++;
+    this.buffer = byte;
+  }
+
+  // Skips to the next RSTn marker and resets bit alignment
+  restart() {
+    this.bits = 0;
+    this.markerHit = false;
+    while (this.offset + 1 < this.data.length) {
+      if (this.data[this.offset] === 0xFF && this.data[this.offset + 1] >= 0xD0 && this.data[this.offset + 1] <= 0xD7) {
+        this.offset += 2;
+        return;
+      }
+      this.offset++;
+    }
+  }
+}
+
+function buildHuffmanTable(counts: Uint8Array, values: Uint8Array): HuffmanTable {
+  const maxCode = new Int32Array(18).fill(-1);
+  const valPtr = new Int32Array(17);
+  const minCode = new Int32Array(17);
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    const count = counts[length - 1];
+    if (count > 0) {
+      valPtr[length] = k;
+      minCode[length] = code;
+      code += count;
+      k += count;
+      maxCode[length] = code - 1;
+    }
+    code <<= 1;
+  }
+  maxCode[17] = 0x7FFFFFFF;
+  return { maxCode, valPtr, minCode, values };
+}
+
+function decodeSymbol(reader: BitReader, table: HuffmanTable): number {
+  let code = reader.readBit();
+  let length = 1;
+  while (length <= 16 && code > table.maxCode[length]) {
+    code = (code << 1) | reader.readBit();
+    length++;
+  }
+  if (length > 16) {
+    throw new Error('Invalid Huffman code');
+  }
+  return table.values[table.valPtr[length] + code - table.minCode[length]];
+}
+
+function extend(value: number, length: number): number {
+  return value < 1 << (length - 1) ? value - (1 << length) + 1 : value;
+}
+
+function readHuffmanTables(segments: JpegSegment[]): Map<number, HuffmanTable> {
+  // Keyed by (class << 4) | id, matching the DHT Tc/Th byte
+  const tables = new Map<number, HuffmanTable>();
+  for (const segment of segments) {
+    if (segment.marker !== 0xC4) continue;
+    let offset = 0;
+    while (offset + 17 <= segment.data.length) {
+      const key = segment.data[offset];
+      const counts = segment.data.subarray(offset + 1, offset + 17);
+      const total = counts.reduce((sum, count) => sum + count, 0);
+      if (offset + 17 + total > segment.data.length) break;
+      tables.set(key, buildHuffmanTable(counts, segment.data.subarray(offset + 17, offset + 17 + total)));
+      offset += 17 + total;
+    }
+  }
+  return tables;
+}
+
+// Decodes the quantized luma coefficients of a baseline (sequential Huffman)
+// JPEG. Progressive and arithmetic-coded files return null.
+export function decodeLumaCoefficients(data: Uint8Array): CoefficientPlane | null {
+  // Headers up to the first scan; later segments belong to later scans
+  const allSegments = readJpegSegments(data);
+  const segments = allSegments.slice(0, allSegments.findIndex((segment) => segment.marker === 0xDA) + 1);
+  const frame = parseFrame(segments);
+  const sof = segments.find((segment) => segment.marker === 0xC0 || segment.marker === 0xC1);
+  const sos = segments[segments.length - 1];
+  if (!frame || !sof || !sos || sos.marker !== 0xDA || frame.components.length === 0) {
+    return null;
+  }
+
+  const huffmanTables = readHuffmanTables(segments);
+  const dri = segments.find((segment) => segment.marker === 0xDD);
+  const restartInterval = dri && dri.data.length >= 2 ? (dri.data[0] << 8) | dri.data[1] : 0;
+
+  const scanCount = sos.data[0];
+  const scanComponents: ScanComponent[] = [];
+  for (let i = 0; i < scanCount; i++) {
+    const id = sos.data[1 + i * 2];
+    const selectors = sos.data[2 + i * 2];
+    const index = frame.components.findIndex((component) => component.id === id);
+    const dcTable = huffmanTables.get(selectors >> 4);
+    const acTable = huffmanTables.get(0x10 | (selectors & 0x0F));
+    if (index < 0 || !dcTable || !acTable) return null;
+    const component = frame.components[index];
+    scanComponents.push({ index, h: component.h, v: component.v, dcTable, acTable, predictor: 0 });
+  }
+
+  // Only the first scan is decoded; it must carry the luma component
+  const luma = scanComponents.find((component) => component.index === 0);
+  if (!luma) return null;
+
+  const maxH = Math.max(...frame.components.map((component) => component.h));
+  const maxV = Math.max(...frame.components.map((component) => component.v));
+  const lumaComponent = frame.components[0];
+  const lumaWidth = Math.ceil((frame.width * lumaComponent.h) / maxH);
+  const lumaHeight = Math.ceil((frame.height * lumaComponent.v) / maxV);
+  const blocksX = Math.ceil(lumaWidth / 8);
+  const blocksY = Math.ceil(lumaHeight / 8);
+
+  const interleaved = scanComponents.length > 1;
+  const mcusX = interleaved ? Math.ceil(frame.width / (8 * maxH)) : blocksX;
+  const mcusY = interleaved ? Math.ceil(frame.height / (8 * maxV)) : blocksY;
+
+  const coefficients = new Int16Array(blocksX * blocksY * 64);
+  const scratch = new Int16Array(64);
+  const entropyStart = sos.offset + 4 + sos.data.length;
+  const reader = new BitReader(data, entropyStart);
+
+  const decodeBlock = (component: ScanComponent, target: Int16Array) => {
+    target.fill(0);
+    const dcLength = decodeSymbol(reader, component.dcTable);
+    const dcDiff = dcLength === 0 ? 0 : extend(reader.receive(dcLength), dcLength);
+    component.predictor += dcDiff;
+    target[0] = component.predictor;
+
+    for (let k = 1; k < 64; ) {
+      const symbol = decodeSymbol(reader, component.acTable);
+      const run = symbol >> 4;
+      const size = symbol & 0x0F;
+      if (size === 0) {
+        if (run !== 15) break;
+        k += 16;
+        continue;
+      }
+      k += run;
+      if (k > 63) break;
+      target[ZIGZAG[k]] = extend(reader.receive(size), size);
+      k++;
+    }
+  };
+
+  try {
+    let mcuCount = 0;
+    for (let mcuY = 0; mcuY < mcusY; mcuY++) {
+      for (let mcuX = 0; mcuX < mcusX; mcuX++) {
+        if (restartInterval > 0 && mcuCount > 0 && mcuCount % restartInterval === 0) {
+          reader.restart();
+          for (const component of scanComponents) component.predictor = 0;
+        }
+        mcuCount++;
+
+        for (const component of scanComponents) {
+          const unitsH = interleaved ? component.h : 1;
+          const unitsV = interleaved ? component.v : 1;
+          for (let v = 0; v < unitsV; v++) {
+            for (let h = 0; h < unitsH; h++) {
+              decodeBlock(component, scratch);
+              if (component !== luma) continue;
+              const blockX = mcuX * unitsH + h;
+              const blockY = mcuY * unitsV + v;
+              // Blocks in the MCU padding beyond the image edge are discarded
+              if (blockX < blocksX && blockY < blocksY) {
+                coefficients.set(scratch, (blockY * blocksX + blockX) * 64);
+              }
+            }
+          }
+        }
+      }
+    }
+  } catch (error) {
+    console.error('JPEG coefficient decode error:', error);
+    return null;
+  }
+
+  return { blocksX, blocksY, coefficients };
+}
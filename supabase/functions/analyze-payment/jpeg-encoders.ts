@@ -0,0 +1,172 @@
+import { readAscii, startsWithAscii } from './bytes.ts';
+import {
+  chromaSubsampling,
+  estimateQuality,
+  parseFrame,
+  parseQuantizationTables,
+  readJpegSegments,
+  type QualityEstimate,
+} from './jpeg.ts';
+
+export type EncoderCategory = 'device' | 'editor' | 'messaging' | 'generic';
+
+export interface JpegFingerprint {
+  luminance: QualityEstimate | null;
+  chrominance: QualityEstimate | null;
+  // Both tables are libjpeg-scaled Annex K tables
+  standardTables: boolean;
+  // The same table id was defined twice with different values
+  tablesRedefined: boolean;
+  subsampling?: string;
+  progressive: boolean;
+  markers: {
+    jfif: boolean;
+    exif: boolean;
+    adobe: boolean;
+    photoshop: boolean;
+    ducky: boolean;
+    icc: boolean;
+  };
+  // Quality stored by Photoshop "Save for Web" in its APP12 Ducky segment
+  duckyQuality?: number;
+  comment?: string;
+  make?: string;
+}
+
+export interface EncoderMatch {
+  encoder: string;
+  category: EncoderCategory;
+  quality: number | null;
+}
+
+interface EncoderSignature {
+  encoder: string;
+  category: EncoderCategory;
+  matches: (fingerprint: JpegFingerprint) => boolean;
+}
+
+// Ordered from most to least specific; the first matching signature wins
+const ENCODER_SIGNATURES: EncoderSignature[] = [
+  {
+    encoder: 'Adobe Photoshop (Save for Web)',
+    category: 'editor',
+    matches: (fp) => fp.markers.ducky,
+  },
+  {
+    encoder: 'Adobe Photoshop',
+    category: 'editor',
+    matches: (fp) => fp.markers.photoshop || (fp.markers.adobe && !fp.standardTables),
+  },
+  {
+    encoder: 'GIMP',
+    category: 'editor',
+    matches: (fp) => /gimp/i.test(fp.comment ?? ''),
+  },
+  {
+    // Apple's encoder uses its own tables and writes EXIF without a JFIF header
+    encoder: 'Apple iOS encoder',
+    category: 'device',
+    matches: (fp) => !fp.standardTables && fp.markers.exif && !fp.markers.jfif && /apple/i.test(fp.make ?? ''),
+  },
+  {
+    // WhatsApp and Telegram strip EXIF and re-encode with libjpeg at reduced quality
+    encoder: 'WhatsApp/Telegram recompression',
+    category: 'messaging',
+    matches: (fp) =>
+      fp.standardTables && !fp.markers.exif && fp.subsampling === '4:2:0' &&
+      (fp.luminance?.quality ?? 100) < 90,
+  },
+  {
+    // Skia wraps libjpeg-turbo; Android's screenshot service saves at high quality and keeps EXIF
+    encoder: 'Android Skia',
+    category: 'device',
+    matches: (fp) =>
+      fp.standardTables && fp.markers.exif && !fp.comment && !/apple/i.test(fp.make ?? '') &&
+      (fp.luminance?.quality ?? 0) >= 90,
+  },
+  {
+    encoder: 'libjpeg (generic)',
+    category: 'generic',
+    matches: (fp) => fp.standardTables,
+  },
+];
+
+export function fingerprintJpeg(data: Uint8Array, make?: string): JpegFingerprint | null {
+  const segments = readJpegSegments(data);
+  if (segments.length === 0) return null;
+
+  const frame = parseFrame(segments);
+  const tables = parseQuantizationTables(segments);
+
+  // Component 1 is luma and component 2 chroma; fall back to table ids 0/1
+  const lumaId = frame?.components[0]?.tableId ?? 0;
+  const chromaId = frame?.components[1]?.tableId ?? 1;
+  const lumaTable = tables.find((table) => table.id === lumaId);
+  const chromaTable = tables.find((table) => table.id === chromaId);
+
+  const luminance = lumaTable ? estimateQuality(lumaTable.values, 'luminance') : null;
+  const chrominance = chromaTable && chromaId !== lumaId ? estimateQuality(chromaTable.values, 'chrominance') : null;
+
+  const seen = new Map<number, string>();
+  let tablesRedefined = false;
+  for (const table of tables) {
+    const key = table.values.join(',');
+    const previous = seen.get(table.id);
+    if (previous !== undefined && previous !== key) {
+      tablesRedefined = true;
+    }
+    seen.set(table.id, key);
+  }
+
+  const fingerprint: JpegFingerprint = {
+    luminance,
+    chrominance,
+    standardTables: !!luminance?.exact && (chrominance === null || chrominance.exact),
+    tablesRedefined,
+    subsampling: chromaSubsampling(frame),
+    progressive: frame?.progressive ?? false,
+    markers: { jfif: false, exif: false, adobe: false, photoshop: false, ducky: false, icc: false },
+    make,
+  };
+
+  for (const segment of segments) {
+    if (segment.marker === 0xE0 && startsWithAscii(segment.data, 'JFIF\0')) fingerprint.markers.jfif = true;
+    if (segment.marker === 0xE1 && startsWithAscii(segment.data, 'Exif\0')) fingerprint.markers.exif = true;
+    if (segment.marker === 0xE2 && startsWithAscii(segment.data, 'ICC_PROFILE\0')) fingerprint.markers.icc = true;
+    if (segment.marker === 0xED && startsWithAscii(segment.data, 'Photoshop 3.0')) fingerprint.markers.photoshop = true;
+    if (segment.marker === 0xEE && startsWithAscii(segment.data, 'Adobe')) fingerprint.markers.adobe = true;
+    if (segment.marker === 0xEC && startsWithAscii(segment.data, 'Ducky')) {
+      fingerprint.markers.ducky = true;
+      fingerprint.duckyQuality = readDuckyQuality(segment.data);
+    }
+    if (segment.marker === 0xFE) {
+      fingerprint.comment = readAscii(segment.data, 0, segment.data.length).replace(/\0+$/, '').trim();
+    }
+  }
+
+  return fingerprint;
+}
+
+function readDuckyQuality(data: Uint8Array): number | undefined {
+  // "Ducky" is followed by (tag, length, value) records; tag 1 holds the quality
+  let offset = 5;
+  while (offset + 4 <= data.length) {
+    const tag = (data[offset] << 8) | data[offset + 1];
+    const length = (data[offset + 2] << 8) | data[offset + 3];
+    if (tag === 0) break;
+    if (tag === 1 && length >= 4 && offset + 8 <= data.length) {
+      return ((data[offset + 4] << 24) | (data[offset + 5] << 16) | (data[offset + 6] << 8) | data[offset + 7]) >>> 0;
+    }
+    offset += 4 + length;
+  }
+  return undefined;
+}
+
+export function matchEncoder(fingerprint: JpegFingerprint): EncoderMatch {
+  const quality = fingerprint.duckyQuality ?? fingerprint.luminance?.quality ?? null;
+  const signature = ENCODER_SIGNATURES.find((candidate) => candidate.matches(fingerprint));
+  if (signature) {
+    return { encoder: signature.encoder, category: signature.category, quality };
+  }
+  return { encoder: 'Unknown encoder (custom tables)', category: 'generic', quality };
+}
@@ -0,0 +1,37 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { fingerprintJpeg } from './jpeg-encoders.ts';
+import { readJpegSegments } from './jpeg.ts';
+
+const segment = (marker: number, payload: number[]) =>
+  [0xFF, marker, (payload.length + 2) >> 8, (payload.length + 2) & 0xFF, ...payload];
+
+const dqt = (value: number) => segment(0xDB, [0x00, ...new Array(64).fill(value)]);
+
+// Progressive 8x8 grayscale frame
+const sof2 = segment(0xC2, [8, 0, 8, 0, 8, 1, 1, 0x11, 0]);
+const dht = segment(0xC4, [0x00, 1, ...new Array(15).fill(0), 0]);
+const sos = segment(0xDA, [1, 1, 0x00, 0, 0, 0]);
+
+// Entropy-coded bytes with a stuffed 0xFF00 and a restart marker, neither of which ends the scan
+const scan = [0x12, 0xFF, 0x00, 0x34, 0xFF, 0xD0, 0x56];
+
+const progressive = new Uint8Array([
+  0xFF, 0xD8,
+  ...dqt(2), ...sof2, ...dht, ...sos, ...scan,
+  // The second scan is quantized with a different table 0
+  ...dqt(3), ...sos, ...scan,
+  0xFF, 0xD9,
+  // Trailing bytes after EOI are not segments
+  ...segment(0xE1, [0x45, 0x78]),
+]);
+
+Deno.test('readJpegSegments reads the segments between scans up to EOI', () => {
+  const markers = readJpegSegments(progressive).map((jpegSegment) => jpegSegment.marker);
+  assertEquals(markers, [0xDB, 0xC2, 0xC4, 0xDA, 0xDB, 0xDA]);
+});
+
+Deno.test('fingerprintJpeg sees a quantization table redefined between progressive scans', () => {
+  const fingerprint = fingerprintJpeg(progressive);
+  assertEquals(fingerprint?.progressive, true);
+  assertEquals(fingerprint?.tablesRedefined, true);
+});
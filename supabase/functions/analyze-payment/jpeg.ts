@@ -0,0 +1,206 @@
+export interface JpegSegment {
+  marker: number;
+  // Offset of the 0xFF marker byte within the file
+  offset: number;
+  // Segment payload, excluding the marker and the two length bytes
+  data: Uint8Array;
+}
+
+// Markers that stand alone without a length field
+const STANDALONE_MARKERS = new Set([0x01, 0xD0, 0xD1, 0xD2, 0xD3, 0xD4, 0xD5, 0xD6, 0xD7, 0xD8, 0xD9]);
+
+// Marker segments from SOI to EOI. Progressive and multi-scan files put DQT and DHT
+// segments between scans, so the entropy-coded data after each SOS is stepped over.
+export function readJpegSegments(data: Uint8Array): JpegSegment[] {
+  const segments: JpegSegment[] = [];
+  if (data.length < 4 || data[0] !== 0xFF || data[1] !== 0xD8) {
+    return segments;
+  }
+
+  let offset = 2;
+  while (offset + 4 <= data.length) {
+    if (data[offset] !== 0xFF) {
+      // Corrupt or non-conforming stream; stop rather than guess
+      break;
+    }
+
+    // Skip fill bytes between markers
+    let markerOffset = offset;
+    while (markerOffset < data.length && data[markerOffset + 1] === 0xFF) {
+      markerOffset++;
+    }
+    const marker = data[markerOffset + 1];
+    if (marker === 0xD9) {
+      break;
+    }
+    if (STANDALONE_MARKERS.has(marker)) {
+      offset = markerOffset + 2;
+      continue;
+    }
+
+    const length = (data[markerOffset + 2] << 8) | data[markerOffset + 3];
+    const end = markerOffset + 2 + length;
+    if (length < 2 || end > data.length) {
+      break;
+    }
+
+    segments.push({ marker, offset: markerOffset, data: data.subarray(markerOffset + 4, end) });
+
+    offset = marker === 0xDA ? skipEntropyCodedData(data, end) : end;
+  }
+
+  return segments;
+}
+
+// Offset of the first marker after a scan. Inside entropy-coded data 0xFF is either
+// stuffed (0xFF00) or a restart marker (RSTn), and neither ends the scan.
+function skipEntropyCodedData(data: Uint8Array, start: number): number {
+  let offset = start;
+  while (offset + 1 < data.length) {
+    if (data[offset] === 0xFF) {
+      const next = data[offset + 1];
+      if (next !== 0x00 && next !== 0xFF && (next < 0xD0 || next > 0xD7)) {
+        return offset;
+      }
+      // A fill byte may precede the marker, so only step past the pair when it is not one
+      offset += next === 0xFF ? 1 : 2;
+    } else {
+      offset++;
+    }
+  }
+  return data.length;
+}
+
+// Natural (row-major) coefficient index for each zigzag position
+export const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+];
+
+// ITU-T T.81 Annex K example tables, which libjpeg scales for every quality setting
+const STANDARD_LUMINANCE = [
+  16, 11, 10, 16, 24, 40, 51, 61,
+  12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56,
+  14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77,
+  24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101,
+  72, 92, 95, 98, 112, 100, 103, 99,
+];
+
+const STANDARD_CHROMINANCE = [
+  17, 18, 24, 47, 99, 99, 99, 99,
+  18, 21, 26, 66, 99, 99, 99, 99,
+  24, 26, 56, 99, 99, 99, 99, 99,
+  47, 66, 99, 99, 99, 99, 99, 99,
+  ...new Array(32).fill(99),
+];
+
+export interface QuantizationTable {
+  id: number;
+  precision: 8 | 16;
+  // Values in natural (row-major) order
+  values: number[];
+}
+
+export interface JpegFrame {
+  progressive: boolean;
+  width: number;
+  height: number;
+  components: Array<{ id: number; h: number; v: number; tableId: number }>;
+}
+
+export interface QualityEstimate {
+  quality: number;
+  // True when the table is exactly libjpeg's scaled Annex K table for that quality
+  exact: boolean;
+}
+
+export function parseQuantizationTables(segments: JpegSegment[]): QuantizationTable[] {
+  const tables: QuantizationTable[] = [];
+  for (const segment of segments) {
+    if (segment.marker !== 0xDB) continue;
+    // A single DQT segment may define several tables back to back
+    let offset = 0;
+    while (offset < segment.data.length) {
+      const precision = segment.data[offset] >> 4 === 0 ? 8 : 16;
+      const id = segment.data[offset] & 0x0F;
+      const size = precision === 8 ? 64 : 128;
+      if (offset + 1 + size > segment.data.length) break;
+
+      const values = new Array<number>(64);
+      for (let k = 0; k < 64; k++) {
+        const at = offset + 1 + (precision === 8 ? k : k * 2);
+        values[ZIGZAG[k]] = precision === 8 ? segment.data[at] : (segment.data[at] << 8) | segment.data[at + 1];
+      }
+      tables.push({ id, precision, values });
+      offset += 1 + size;
+    }
+  }
+  return tables;
+}
+
+export function parseFrame(segments: JpegSegment[]): JpegFrame | null {
+  // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+  const sof = segments.find(
+    (segment) => segment.marker >= 0xC0 && segment.marker <= 0xCF &&
+      segment.marker !== 0xC4 && segment.marker !== 0xC8 && segment.marker !== 0xCC
+  );
+  if (!sof || sof.data.length < 6) return null;
+
+  const count = sof.data[5];
+  const components: JpegFrame['components'] = [];
+  for (let i = 0; i < count && 6 + i * 3 + 2 < sof.data.length; i++) {
+    const at = 6 + i * 3;
+    components.push({
+      id: sof.data[at],
+      h: sof.data[at + 1] >> 4,
+      v: sof.data[at + 1] & 0x0F,
+      tableId: sof.data[at + 2],
+    });
+  }
+
+  return {
+    progressive: sof.marker === 0xC2 || sof.marker === 0xC6 || sof.marker === 0xCA || sof.marker === 0xCE,
+    height: (sof.data[1] << 8) | sof.data[2],
+    width: (sof.data[3] << 8) | sof.data[4],
+    components,
+  };
+}
+
+function scaleStandardTable(base: number[], quality: number): number[] {
+  // Same integer arithmetic as libjpeg's jpeg_quality_scaling + jpeg_add_quant_table
+  const scale = quality < 50 ? Math.floor(5000 / quality) : 200 - quality * 2;
+  return base.map((value) => Math.min(255, Math.max(1, Math.floor((value * scale + 50) / 100))));
+}
+
+export function estimateQuality(table: number[], kind: 'luminance' | 'chrominance'): QualityEstimate {
+  const base = kind === 'luminance' ? STANDARD_LUMINANCE : STANDARD_CHROMINANCE;
+  let best = { quality: 0, error: Infinity };
+  for (let quality = 1; quality <= 100; quality++) {
+    const scaled = scaleStandardTable(base, quality);
+    let error = 0;
+    for (let i = 0; i < 64; i++) {
+      error += Math.abs(scaled[i] - table[i]);
+    }
+    if (error < best.error) {
+      best = { quality, error };
+    }
+  }
+  return { quality: best.quality, exact: best.error === 0 };
+}
+
+export function chromaSubsampling(frame: JpegFrame | null): string | undefined {
+  if (!frame || frame.components.length < 3) return undefined;
+  const [luma, chroma] = frame.components;
+  const horizontal = luma.h / chroma.h;
+  const vertical = luma.v / chroma.v;
+  if (horizontal === 1 && vertical === 1) return '4:4:4';
+  if (horizontal === 2 && vertical === 1) return '4:2:2';
+  if (horizontal === 2 && vertical === 2) return '4:2:0';
+  if (horizontal === 4 && vertical === 1) return '4:1:1';
+  return `${luma.h}x${luma.v}/${chroma.h}x${chroma.v}`;
+}
@@ -0,0 +1,70 @@
+import { OCR_JSON_SCHEMA, OcrOutputSchema, requestStructured, type AiStageStatus } from './ai-output.ts';
+import type { Box } from './copy-move.ts';
+import type { VisionProvider } from './vision.ts';
+
+export interface OcrLine {
+  text: string;
+  // Recognition confidence in [0, 1]
+  confidence: number;
+  // Pixel coordinates; null when the image size is unknown
+  box: Box | null;
+}
+
+// Gemini reports boxes as [ymin, xmin, ymax, xmax] on a 0-1000 grid
+const BOX_SCALE = 1000;
+
+const OCR_PROMPT = `Transcribe every line of visible text in this screenshot, from top to bottom, including the phone status bar.
+
+Return ONLY raw JSON (no markdown, no code blocks) in this exact format:
+{
+  "lines": [
+    { "text": "exact text of the line", "box": [ymin, xmin, ymax, xmax], "confidence": 0.95 }
+  ]
+}
+
+Rules:
+- One entry per visual line; keep separate UI labels and values on separate entries even when they share a row.
+- Copy text exactly as shown, including currency symbols, $cashtags, @handles, punctuation and capitalization.
+- "box" is the line's bounding box normalized to 0-1000 of the image height (y) and width (x).
+- "confidence" is how sure you are of the transcription, from 0 to 1.`;
+
+export async function performOcr(
+  vision: VisionProvider,
+  image: string,
+  width?: number,
+  height?: number
+): Promise<{ lines: OcrLine[] | null; status: AiStageStatus }> {
+  const { value, status } = await requestStructured(vision, {
+    task: 'ocr',
+    prompt: OCR_PROMPT,
+    image,
+    temperature: 0,
+    maxTokens: 4000,
+    schema: OCR_JSON_SCHEMA,
+  }, OcrOutputSchema);
+  if (!value) return { lines: null, status };
+
+  const lines = value.lines
+    .filter((line) => line.text.trim().length > 0)
+    .map((line) => ({
+      text: line.text.trim(),
+      confidence: typeof line.confidence === 'number' ? Math.max(0, Math.min(1, line.confidence)) : 0.5,
+      box: toPixelBox(line.box, width, height),
+    }));
+  return { lines, status };
+}
+
+function toPixelBox(box: unknown, width?: number, height?: number): Box | null {
+  if (!width || !height || !Array.isArray(box) || box.length !== 4 || !box.every((value) => typeof value === 'number')) {
+    return null;
+  }
+  const [ymin, xmin, ymax, xmax] = box as number[];
+  const x = Math.round((Math.min(xmin, xmax) / BOX_SCALE) * width);
+  const y = Math.round((Math.min(ymin, ymax) / BOX_SCALE) * height);
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.round((Math.abs(xmax - xmin) / BOX_SCALE) * width)),
+    height: Math.max(1, Math.round((Math.abs(ymax - ymin) / BOX_SCALE) * height)),
+  };
+}
@@ -0,0 +1,94 @@
+import type { Box } from './copy-move.ts';
+import type { DecodedImage } from './image.ts';
+
+// 64-bit perceptual hashes as 16 hex digits. Re-encoding, resizing and small
+// color shifts move them only a few bits, unlike the SHA-256 of the bytes.
+export interface PerceptualHashes {
+  // Low frequencies of the DCT; robust to compression and scaling
+  phash: string;
+  // Brightness gradients between neighbors; robust to gamma and contrast changes
+  dhash: string;
+  // dHash of the transaction amount, which survives crops that change the whole-image hashes
+  amount: string | null;
+}
+
+const PHASH_SIZE = 32;
+const PHASH_KEEP = 8;
+
+// Grayscale of a region shrunk to width x height by averaging each cell
+function shrink(image: DecodedImage, box: Box, width: number, height: number): Float64Array {
+  const out = new Float64Array(width * height);
+  for (let cy = 0; cy < height; cy++) {
+    const y0 = box.y + Math.floor((cy * box.height) / height);
+    const y1 = Math.max(y0 + 1, box.y + Math.floor(((cy + 1) * box.height) / height));
+    for (let cx = 0; cx < width; cx++) {
+      const x0 = box.x + Math.floor((cx * box.width) / width);
+      const x1 = Math.max(x0 + 1, box.x + Math.floor(((cx + 1) * box.width) / width));
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          const i = (y * image.width + x) * 4;
+          sum += 0.299 * image.rgba[i] + 0.587 * image.rgba[i + 1] + 0.114 * image.rgba[i + 2];
+        }
+      }
+      out[cy * width + cx] = sum / ((y1 - y0) * (x1 - x0));
+    }
+  }
+  return out;
+}
+
+const toHex = (bits: boolean[]) => {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    hex += ((+bits[i] << 3) | (+bits[i + 1] << 2) | (+bits[i + 2] << 1) | +bits[i + 3]).toString(16);
+  }
+  return hex;
+};
+
+function dHash(image: DecodedImage, box: Box): string {
+  const cells = shrink(image, box, 9, 8);
+  const bits: boolean[] = [];
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) bits.push(cells[y * 9 + x] < cells[y * 9 + x + 1]);
+  }
+  return toHex(bits);
+}
+
+function pHash(image: DecodedImage): string {
+  const cells = shrink(image, { x: 0, y: 0, width: image.width, height: image.height }, PHASH_SIZE, PHASH_SIZE);
+  const cos = (k: number, n: number) => Math.cos(((2 * n + 1) * k * Math.PI) / (2 * PHASH_SIZE));
+
+  // Only the lowest PHASH_KEEP x PHASH_KEEP coefficients of the 2-D DCT are needed
+  const rows = new Float64Array(PHASH_SIZE * PHASH_KEEP);
+  for (let y = 0; y < PHASH_SIZE; y++) {
+    for (let u = 0; u < PHASH_KEEP; u++) {
+      let sum = 0;
+      for (let x = 0; x < PHASH_SIZE; x++) sum += cells[y * PHASH_SIZE + x] * cos(u, x);
+      rows[y * PHASH_KEEP + u] = sum;
+    }
+  }
+  const coefficients: number[] = [];
+  for (let v = 0; v < PHASH_KEEP; v++) {
+    for (let u = 0; u < PHASH_KEEP; u++) {
+      let sum = 0;
+      for (let y = 0; y < PHASH_SIZE; y++) sum += rows[y * PHASH_KEEP + u] * cos(v, y);
+      coefficients.push(sum);
+    }
+  }
+
+  // The DC term only reflects overall brightness, so it is left out of the median
+  const median = [...coefficients.slice(1)].sort((a, b) => a - b)[Math.floor((coefficients.length - 1) / 2)];
+  return toHex(coefficients.map((value) => value > median));
+}
+
+export function perceptualHashes(image: DecodedImage, amountBox: Box | null): PerceptualHashes {
+  const fits = amountBox &&
+    amountBox.width >= 9 && amountBox.height >= 8 &&
+    amountBox.x >= 0 && amountBox.y >= 0 &&
+    amountBox.x + amountBox.width <= image.width && amountBox.y + amountBox.height <= image.height;
+  return {
+    phash: pHash(image),
+    dhash: dHash(image, { x: 0, y: 0, width: image.width, height: image.height }),
+    amount: fits ? dHash(image, amountBox) : null,
+  };
+}
@@ -0,0 +1,254 @@
+import { crc32, indexOfByte, inflateZlib, readAscii, readUint32BE } from './bytes.ts';
+import { parseTiff, type ExifData } from './exif.ts';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A];
+
+// Chunks defined by the PNG specification and its registered extensions;
+// anything else is reported as unknown
+const KNOWN_CHUNKS = new Set([
+  'IHDR', 'PLTE', 'IDAT', 'IEND', 'tRNS', 'cHRM', 'gAMA', 'iCCP', 'sBIT', 'sRGB', 'cICP', 'mDCV', 'cLLI',
+  'tEXt', 'zTXt', 'iTXt', 'bKGD', 'hIST', 'pHYs', 'sPLT', 'eXIf', 'tIME', 'acTL', 'fcTL', 'fdAT',
+]);
+
+// Chunks that the specification requires to appear before the first IDAT
+const PRE_IDAT_CHUNKS = new Set(['PLTE', 'cHRM', 'gAMA', 'iCCP', 'sBIT', 'sRGB', 'cICP', 'pHYs', 'sPLT', 'eXIf', 'acTL']);
+
+const COLOR_TYPES: Record<number, string> = {
+  0: 'Grayscale',
+  2: 'Truecolor',
+  3: 'Indexed',
+  4: 'Grayscale + Alpha',
+  6: 'Truecolor + Alpha',
+};
+
+// Text keys written by genuine capture tools; they are not treated as editing evidence
+const SCREENSHOT_SOFTWARE = /(screenshot|screen ?capture|snipping|greenshot|sharex|flameshot|spectacle)/i;
+
+export interface PngChunk {
+  type: string;
+  offset: number;
+  length: number;
+  crcValid: boolean;
+  ancillary: boolean;
+  private: boolean;
+}
+
+export interface PngTextEntry {
+  chunk: 'tEXt' | 'zTXt' | 'iTXt';
+  keyword: string;
+  text: string;
+  language?: string;
+}
+
+export interface PngInfo {
+  ihdr: {
+    width: number;
+    height: number;
+    bitDepth: number;
+    colorType: number;
+    colorTypeName: string;
+    interlaced: boolean;
+  } | null;
+  chunks: PngChunk[];
+  text: PngTextEntry[];
+  iccProfileName?: string;
+  srgbIntent?: number;
+  gamma?: number;
+  physical?: { pixelsPerUnitX: number; pixelsPerUnitY: number; unit: 'meter' | 'unknown' };
+  modified?: string;
+  unknownChunks: string[];
+  trailingBytes: number;
+  exif: ExifData | null;
+}
+
+export function isPng(data: Uint8Array): boolean {
+  return PNG_SIGNATURE.every((byte, i) => data[i] === byte);
+}
+
+export async function parsePng(data: Uint8Array): Promise<PngInfo | null> {
+  if (!isPng(data)) return null;
+
+  const info: PngInfo = {
+    ihdr: null,
+    chunks: [],
+    text: [],
+    unknownChunks: [],
+    trailingBytes: 0,
+    exif: null,
+  };
+
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= data.length) {
+    const length = readUint32BE(data, offset);
+    const type = readAscii(data, offset + 4, 4);
+    const dataStart = offset + 8;
+    const dataEnd = dataStart + length;
+    if (!/^[A-Za-z]{4}$/.test(type) || dataEnd + 4 > data.length) {
+      break;
+    }
+
+    const body = data.subarray(dataStart, dataEnd);
+    const storedCrc = readUint32BE(data, dataEnd);
+    // The CRC covers the chunk type and data but not the length field
+    const crcValid = crc32(data.subarray(offset + 4, dataEnd)) === storedCrc;
+
+    info.chunks.push({
+      type,
+      offset,
+      length,
+      crcValid,
+      ancillary: (type.charCodeAt(0) & 0x20) !== 0,
+      private: (type.charCodeAt(1) & 0x20) !== 0,
+    });
+
+    await readChunk(info, type, body);
+
+    offset = dataEnd + 4;
+    if (type === 'IEND') break;
+  }
+
+  info.trailingBytes = Math.max(0, data.length - offset);
+  return info;
+}
+
+async function readChunk(info: PngInfo, type: string, body: Uint8Array) {
+  switch (type) {
+    case 'IHDR':
+      if (body.length >= 13) {
+        info.ihdr = {
+          width: readUint32BE(body, 0),
+          height: readUint32BE(body, 4),
+          bitDepth: body[8],
+          colorType: body[9],
+          colorTypeName: COLOR_TYPES[body[9]] ?? 'Unknown',
+          interlaced: body[12] === 1,
+        };
+      }
+      break;
+    case 'tEXt': {
+      const separator = indexOfByte(body, 0);
+      if (separator > 0) {
+        info.text.push({
+          chunk: 'tEXt',
+          keyword: readAscii(body, 0, separator),
+          text: new TextDecoder('latin1').decode(body.subarray(separator + 1)),
+        });
+      }
+      break;
+    }
+    case 'zTXt': {
+      const separator = indexOfByte(body, 0);
+      if (separator > 0) {
+        const inflated = await inflateZlib(body.subarray(separator + 2));
+        info.text.push({
+          chunk: 'zTXt',
+          keyword: readAscii(body, 0, separator),
+          text: inflated ? new TextDecoder('latin1').decode(inflated) : '',
+        });
+      }
+      break;
+    }
+    case 'iTXt':
+      await readInternationalText(info, body);
+      break;
+    case 'eXIf':
+      info.exif = parseTiff(body);
+      break;
+    case 'iCCP': {
+      const separator = indexOfByte(body, 0);
+      if (separator > 0) {
+        info.iccProfileName = readAscii(body, 0, separator);
+      }
+      break;
+    }
+    case 'sRGB':
+      if (body.length >= 1) info.srgbIntent = body[0];
+      break;
+    case 'gAMA':
+      if (body.length >= 4) info.gamma = readUint32BE(body, 0) / 100000;
+      break;
+    case 'pHYs':
+      if (body.length >= 9) {
+        info.physical = {
+          pixelsPerUnitX: readUint32BE(body, 0),
+          pixelsPerUnitY: readUint32BE(body, 4),
+          unit: body[8] === 1 ? 'meter' : 'unknown',
+        };
+      }
+      break;
+    case 'tIME':
+      if (body.length >= 7) {
+        const year = (body[0] << 8) | body[1];
+        const pad = (value: number) => String(value).padStart(2, '0');
+        info.modified = `${year}-${pad(body[2])}-${pad(body[3])}T${pad(body[4])}:${pad(body[5])}:${pad(body[6])}Z`;
+      }
+      break;
+    default:
+      if (!KNOWN_CHUNKS.has(type) && !info.unknownChunks.includes(type)) {
+        info.unknownChunks.push(type);
+      }
+  }
+}
+
+async function readInternationalText(info: PngInfo, body: Uint8Array) {
+  // keyword \0 compressionFlag compressionMethod language \0 translatedKeyword \0 text
+  const keywordEnd = indexOfByte(body, 0);
+  if (keywordEnd <= 0 || keywordEnd + 3 > body.length) return;
+
+  const compressed = body[keywordEnd + 1] === 1;
+  const languageEnd = indexOfByte(body, 0, keywordEnd + 3);
+  if (languageEnd < 0) return;
+  const translatedEnd = indexOfByte(body, 0, languageEnd + 1);
+  if (translatedEnd < 0) return;
+
+  const raw = body.subarray(translatedEnd + 1);
+  const textBytes = compressed ? await inflateZlib(raw) : raw;
+
+  info.text.push({
+    chunk: 'iTXt',
+    keyword: readAscii(body, 0, keywordEnd),
+    text: textBytes ? new TextDecoder().decode(textBytes) : '',
+    language: readAscii(body, keywordEnd + 3, languageEnd - keywordEnd - 3) || undefined,
+  });
+}
+
+export function getPngText(png: PngInfo, keyword: string): string | undefined {
+  return png.text.find((entry) => entry.keyword.toLowerCase() === keyword.toLowerCase())?.text;
+}
+
+export function analyzePNG(png: PngInfo): { suspicious: boolean; reasons: string[] } {
+  const reasons: string[] = [];
+
+  const software = getPngText(png, 'Software');
+  if (software && !SCREENSHOT_SOFTWARE.test(software)) {
+    reasons.push(`text chunk Software=${software}`);
+  }
+
+  const badCrc = png.chunks.filter((chunk) => !chunk.crcValid).map((chunk) => chunk.type);
+  if (badCrc.length > 0) {
+    reasons.push(`invalid CRC on ${[...new Set(badCrc)].join(', ')} chunk(s), typical of hand-edited bytes`);
+  }
+
+  const firstIdat = png.chunks.findIndex((chunk) => chunk.type === 'IDAT');
+  if (firstIdat >= 0) {
+    const lastIdat = png.chunks.map((chunk) => chunk.type).lastIndexOf('IDAT');
+    const misplaced = png.chunks
+      .slice(firstIdat)
+      .filter((chunk) => PRE_IDAT_CHUNKS.has(chunk.type))
+      .map((chunk) => chunk.type);
+    if (misplaced.length > 0) {
+      reasons.push(`${[...new Set(misplaced)].join(', ')} written after image data, which conforming encoders never do`);
+    }
+
+    const interrupted = png.chunks.slice(firstIdat, lastIdat + 1).some((chunk) => chunk.type !== 'IDAT');
+    if (interrupted) {
+      reasons.push('image data split by other chunks');
+    }
+  }
+
+  if (png.trailingBytes > 0) {
+    reasons.push(`${png.trailingBytes} bytes of data after the IEND chunk`);
+  }
+
+  return { suspicious: reasons.length > 0, reasons };
+}
@@ -0,0 +1,41 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { runDetectors, type Detector, type DetectorStatus } from './detector.ts';
+import { streamProgress, type ProgressReporter } from './progress.ts';
+
+const detector: Detector<{ format: string }> = {
+  id: 'always-warns',
+  version: '1.0.0',
+  category: 'format',
+  run: () => [{ type: 'warning', code: 'TEST_WARNING', message: 'warning', weight: 1 }],
+};
+
+Deno.test('streamProgress keeps running the work after the client disconnects', async () => {
+  let resume!: () => void;
+  const paused = new Promise<void>((resolve) => resume = resolve);
+  const statuses: DetectorStatus[] = [];
+  let finished!: (value: string) => void;
+  const done = new Promise<string>((resolve) => finished = resolve);
+
+  const response = streamProgress(async (progress: ProgressReporter) => {
+    progress({ type: 'phase', phase: 'detectors', status: 'started' });
+    await paused;
+    runDetectors([detector], { format: 'PNG' }, (outcome) => {
+      statuses.push(outcome.status);
+      progress({ type: 'detector', detector: outcome.detector, status: outcome.status, findings: outcome.findings });
+    });
+    progress({ type: 'phase', phase: 'detectors', status: 'finished' });
+    finished('result');
+    return 'result';
+  }, {});
+
+  const reader = response.body!.getReader();
+  const first = new TextDecoder().decode((await reader.read()).value);
+  assertEquals(first.startsWith('event: phase'), true);
+  await reader.cancel();
+  resume();
+
+  assertEquals(await done, 'result');
+  // Lets the stream's finally block run against the cancelled stream
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  assertEquals(statuses, ['ok']);
+});
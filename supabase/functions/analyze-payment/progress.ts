@@ -0,0 +1,67 @@
+import type { DetectorFinding, DetectorInfo, DetectorStatus } from './detector.ts';
+
+export type PhaseId = 'cache' | 'forensics' | 'pixels' | 'vision' | 'ocr' | 'content' | 'detectors' | 'history' | 'scoring';
+
+export type PhaseStatus = 'started' | 'finished' | 'skipped' | 'failed';
+
+export type ProgressEvent =
+  | { type: 'phase'; phase: PhaseId; status: PhaseStatus; detail?: string }
+  // Findings as the detector reported them, before the policy weighs them
+  | {
+    type: 'detector';
+    detector: DetectorInfo;
+    status: DetectorStatus | 'disabled';
+    findings: Pick<DetectorFinding, 'type' | 'code' | 'message'>[];
+    error?: string;
+  };
+
+export type ProgressReporter = (event: ProgressEvent) => void;
+
+export const NO_PROGRESS: ProgressReporter = () => {};
+
+// Comments keep proxies from closing the connection while a slow AI call is running
+const HEARTBEAT_MS = 15_000;
+
+// Server-Sent Events response that reports progress while the work runs, then sends
+// its value as a `result` event, or an `error` event if it throws. A client that
+// disconnects stops the events but not the work, which still finishes and gets cached.
+export function streamProgress<T>(work: (progress: ProgressReporter) => Promise<T>, headers: Record<string, string>): Response {
+  const encoder = new TextEncoder();
+  let closed = false;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // Sending never throws into the work, so a dropped connection cannot fail a detector
+      const write = (text: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          closed = true;
+        }
+      };
+      const send = (event: string, data: unknown) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      heartbeat = setInterval(() => write(': keep-alive\n\n'), HEARTBEAT_MS);
+      try {
+        const result = await work((event) => send(event.type, event));
+        send('result', { type: 'result', result });
+      } catch (error) {
+        console.error('Analysis error:', error);
+        send('error', { type: 'error', error: error instanceof Error ? error.message : 'Unknown error' });
+      } finally {
+        clearInterval(heartbeat);
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+      clearInterval(heartbeat);
+    },
+  });
+  return new Response(body, {
+    headers: { ...headers, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+  });
+}
@@ -0,0 +1,148 @@
+import type { Box } from './copy-move.ts';
+import type { DecodedImage } from './image.ts';
+import {
+  ACCENT_MATCH_DISTANCE,
+  colorDistance,
+  hue,
+  toHex,
+  type ProviderTemplate,
+  type Rgb,
+  type TemplateEra,
+} from './providers.ts';
+import type { Transaction } from './transaction.ts';
+
+// Hues closer than this are the same color family ("a green"), so a larger
+// RGB distance means the wrong shade rather than a different element
+const SAME_HUE_DEGREES = 20;
+const BACKGROUND_MATCH_DISTANCE = 20;
+// Horizontal offset from the center that still counts as centered
+const CENTER_TOLERANCE = 0.12;
+
+const PENALTIES = { layout: 15, alignment: 10, accent: 25, background: 15 };
+
+export interface TemplateDeviation {
+  kind: 'layout' | 'alignment' | 'accent' | 'background';
+  severity: 'info' | 'warning';
+  message: string;
+  box?: Box;
+}
+
+export interface TemplateVerification {
+  era: string;
+  variant: 'light' | 'dark' | 'unknown';
+  background: Rgb | null;
+  accent: Rgb | null;
+  // 100 is a perfect match with the template
+  score: number;
+  deviations: TemplateDeviation[];
+  fonts: string[];
+  icons: string[];
+}
+
+// The era whose layout was current on the transaction date, or the latest one
+function pickEra(template: ProviderTemplate, date?: string): TemplateEra {
+  const eras = template.eras;
+  if (!date) return eras[eras.length - 1];
+  return [...eras].reverse().find((era) => era.from <= date) ?? eras[0];
+}
+
+// Median color of the left and right margins, below the status bar
+function sampleBackground(image: DecodedImage): Rgb | null {
+  const { width, height, rgba } = image;
+  const margin = Math.max(1, Math.floor(width * 0.02));
+  const channels: number[][] = [[], [], []];
+  for (let y = Math.floor(height * 0.08); y < height; y += 4) {
+    for (const x of [margin, width - 1 - margin]) {
+      const i = (y * width + x) * 4;
+      channels[0].push(rgba[i]);
+      channels[1].push(rgba[i + 1]);
+      channels[2].push(rgba[i + 2]);
+    }
+  }
+  if (channels[0].length === 0) return null;
+  const median = (values: number[]) => values.sort((a, b) => a - b)[Math.floor(values.length / 2)];
+  return [median(channels[0]), median(channels[1]), median(channels[2])];
+}
+
+export function verifyTemplate(
+  template: ProviderTemplate,
+  transaction: Transaction | null,
+  image: DecodedImage | null,
+  accent: Rgb | null,
+  size: { width: number; height: number } | null
+): TemplateVerification {
+  const era = pickEra(template, transaction?.dateTime?.iso);
+  const deviations: TemplateDeviation[] = [];
+  let score = 100;
+  const deviate = (deviation: TemplateDeviation) => {
+    deviations.push(deviation);
+    if (deviation.severity === 'warning') score -= PENALTIES[deviation.kind];
+  };
+
+  if (size && transaction) {
+    for (const rule of era.layout) {
+      const box = transaction[rule.element]?.box;
+      if (!box) continue;
+      const centerY = (box.y + box.height / 2) / size.height;
+      const centerX = (box.x + box.width / 2) / size.width;
+
+      if (centerY < rule.top || centerY > rule.bottom) {
+        deviate({
+          kind: 'layout',
+          severity: 'warning',
+          message: `${rule.label} sits at ${Math.round(centerY * 100)}% of the screen height; ${template.name} places it between ${Math.round(rule.top * 100)}% and ${Math.round(rule.bottom * 100)}%`,
+          box,
+        });
+      } else if (rule.align === 'center' && Math.abs(centerX - 0.5) > CENTER_TOLERANCE) {
+        deviate({
+          kind: 'alignment',
+          severity: 'warning',
+          message: `${rule.label} is off-center (${Math.round(centerX * 100)}% across) where ${template.name} centers it`,
+          box,
+        });
+      }
+    }
+  }
+
+  if (accent) {
+    const nearest = template.accents
+      .map((candidate) => ({ ...candidate, distance: colorDistance(accent, candidate.color) }))
+      .sort((a, b) => a.distance - b.distance)[0];
+    if (nearest.distance >= ACCENT_MATCH_DISTANCE) {
+      const sameFamily = Math.abs(((hue(accent) - hue(nearest.color) + 540) % 360) - 180) < SAME_HUE_DEGREES;
+      deviate({
+        kind: 'accent',
+        // A different hue is more likely an ad or banner than a recolored brand
+        severity: sameFamily ? 'warning' : 'info',
+        message: sameFamily
+          ? `dominant accent ${toHex(accent)} is close to but not ${nearest.name} ${toHex(nearest.color)}`
+          : `dominant accent ${toHex(accent)} is not a ${template.name} brand color`,
+      });
+    }
+  }
+
+  const background = image ? sampleBackground(image) : null;
+  let variant: TemplateVerification['variant'] = 'unknown';
+  if (background) {
+    const matches = (colors: Rgb[]) => colors.some((color) => colorDistance(background, color) < BACKGROUND_MATCH_DISTANCE);
+    variant = matches(template.backgrounds.light) ? 'light' : matches(template.backgrounds.dark) ? 'dark' : 'unknown';
+    if (variant === 'unknown') {
+      deviate({
+        kind: 'background',
+        severity: 'warning',
+        message: `background ${toHex(background)} matches neither ${template.name}'s light nor dark theme`,
+      });
+    }
+  }
+
+  return {
+    era: era.id,
+    variant,
+    background,
+    accent,
+    score: Math.max(0, score),
+    deviations,
+    fonts: era.fonts,
+    icons: era.icons,
+  };
+}
@@ -0,0 +1,293 @@
+import type { DecodedImage } from './image.ts';
+import type { OcrLine } from './ocr.ts';
+import type { Transaction } from './transaction.ts';
+
+export type Provider = 'cashapp' | 'venmo' | 'paypal' | 'chime' | 'applepay' | 'zelle';
+
+export type Rgb = [number, number, number];
+
+// Where a transaction field sits on the receipt screen, as fractions of the
+// screen height, and how it is aligned horizontally
+export interface LayoutRule {
+  element: 'amount' | 'status' | 'recipient' | 'transactionId' | 'dateTime';
+  label: string;
+  top: number;
+  bottom: number;
+  align?: 'center' | 'left';
+}
+
+export interface TemplateEra {
+  id: string;
+  // First day the layout shipped, as YYYY-MM-DD
+  from: string;
+  fonts: string[];
+  icons: string[];
+  layout: LayoutRule[];
+}
+
+export interface ProviderTemplate {
+  provider: Provider;
+  name: string;
+  // Text that only this app puts on its screens
+  keywords: RegExp[];
+  accents: Array<{ name: string; color: Rgb }>;
+  backgrounds: { light: Rgb[]; dark: Rgb[] };
+  // Oldest era first
+  eras: TemplateEra[];
+}
+
+const WHITE: Rgb = [255, 255, 255];
+const BLACK: Rgb = [0, 0, 0];
+// iOS grouped-table backgrounds, used by Wallet and by bank apps hosting Zelle
+const IOS_GROUPED_LIGHT: Rgb = [242, 242, 247];
+const IOS_GROUPED_DARK: Rgb = [28, 28, 30];
+
+// Layouts are measured from current receipts on 19.5:9 phones and kept loose
+// enough to cover other aspect ratios
+export const PROVIDER_TEMPLATES: ProviderTemplate[] = [
+  {
+    provider: 'cashapp',
+    name: 'Cash App',
+    keywords: [/\bcash ?app\b/i, /\bcash card\b/i, /\bcashtag\b/i],
+    accents: [{ name: 'Cash App green', color: [0, 214, 50] }, { name: 'Cash App green (pre-2023)', color: [0, 213, 75] }],
+    backgrounds: { light: [WHITE], dark: [BLACK, [18, 18, 18]] },
+    eras: [
+      {
+        id: 'classic',
+        from: '2019-01-01',
+        fonts: ['SF Pro', 'Roboto'],
+        icons: ['Cash App $ glyph', 'circular avatar'],
+        layout: [
+          { element: 'amount', label: 'amount', top: 0.12, bottom: 0.45, align: 'center' },
+          { element: 'recipient', label: 'recipient', top: 0.05, bottom: 0.45 },
+          { element: 'status', label: '"Completed" badge', top: 0.15, bottom: 0.65, align: 'center' },
+          { element: 'transactionId', label: 'identifier', top: 0.45, bottom: 0.98 },
+        ],
+      },
+      {
+        id: 'cash-sans',
+        from: '2023-03-01',
+        fonts: ['Cash Sans'],
+        icons: ['Cash App $ glyph', 'rounded receipt card'],
+        layout: [
+          { element: 'amount', label: 'amount', top: 0.1, bottom: 0.42, align: 'center' },
+          { element: 'recipient', label: 'recipient', top: 0.05, bottom: 0.45 },
+          { element: 'status', label: '"Completed" badge', top: 0.12, bottom: 0.6, align: 'center' },
+          { element: 'transactionId', label: 'identifier', top: 0.45, bottom: 0.98 },
+        ],
+      },
+    ],
+  },
+  {
+    provider: 'venmo',
+    name: 'Venmo',
+    keywords: [/\bvenmo\b/i],
+    accents: [{ name: 'Venmo blue', color: [0, 140, 255] }, { name: 'Venmo blue (pre-2021)', color: [61, 149, 206] }],
+    backgrounds: { light: [WHITE, [246, 246, 246]], dark: [BLACK, [30, 30, 30]] },
+    eras: [
+      {
+        id: 'current',
+        from: '2021-06-01',
+        fonts: ['Venmo Sans', 'SF Pro'],
+        icons: ['Venmo V logo', 'circular avatar'],
+        layout: [
+          { element: 'amount', label: 'amount', top: 0.1, bottom: 0.5, align: 'center' },
+          { element: 'recipient', label: 'recipient', top: 0.05, bottom: 0.5 },
+          { element: 'status', label: 'status', top: 0.1, bottom: 0.75 },
+          { element: 'transactionId', label: 'transaction ID', top: 0.4, bottom: 0.98 },
+        ],
+      },
+    ],
+  },
+  {
+    provider: 'paypal',
+    name: 'PayPal',
+    keywords: [/\bpaypal\b/i],
+    accents: [
+      { name: 'PayPal blue', color: [0, 112, 224] },
+      { name: 'PayPal navy', color: [0, 48, 135] },
+      { name: 'PayPal blue (2023)', color: [20, 44, 142] },
+    ],
+    backgrounds: { light: [WHITE, [245, 247, 250]], dark: [BLACK, [18, 18, 18]] },
+    eras: [
+      {
+        id: 'current',
+        from: '2020-01-01',
+        fonts: ['PayPal Sans', 'Helvetica Neue'],
+        icons: ['PayPal P monogram'],
+        layout: [
+          { element: 'amount', label: 'amount', top: 0.08, bottom: 0.5 },
+          { element: 'status', label: 'status', top: 0.08, bottom: 0.6 },
+          { element: 'transactionId', label: 'transaction ID', top: 0.3, bottom: 0.98 },
+        ],
+      },
+    ],
+  },
+  {
+    provider: 'chime',
+    name: 'Chime',
+    keywords: [/\bchime\b/i, /\bspotme\b/i, /\bpay anyone\b/i],
+    accents: [{ name: 'Chime green', color: [30, 198, 119] }],
+    backgrounds: { light: [WHITE, [247, 247, 247]], dark: [BLACK, [22, 22, 22]] },
+    eras: [
+      {
+        id: 'current',
+        from: '2020-01-01',
+        fonts: ['Chime Sans', 'SF Pro'],
+        icons: ['Chime wordmark', 'check-circle status icon'],
+        layout: [
+          { element: 'amount', label: 'amount', top: 0.1, bottom: 0.5, align: 'center' },
+          { element: 'status', label: 'status', top: 0.1, bottom: 0.65 },
+          { element: 'transactionId', label: 'transaction ID', top: 0.35, bottom: 0.98 },
+        ],
+      },
+    ],
+  },
+  {
+    provider: 'applepay',
+    name: 'Apple Pay',
+    keywords: [/\bapple (?:pay|cash)\b/i, /\bwallet\b/i],
+    accents: [{ name: 'iOS system green', color: [52, 199, 89] }, { name: 'iOS system green (dark)', color: [48, 209, 88] }],
+    backgrounds: { light: [WHITE, IOS_GROUPED_LIGHT], dark: [BLACK, IOS_GROUPED_DARK] },
+    eras: [
+      {
+        id: 'current',
+        from: '2019-01-01',
+        fonts: ['SF Pro'],
+        icons: ['Apple Cash card art', 'SF Symbols'],
+        layout: [
+          { element: 'amount', label: 'amount', top: 0.08, bottom: 0.45, align: 'center' },
+          { element: 'status', label: 'status', top: 0.1, bottom: 0.6 },
+          { element: 'dateTime', label: 'date', top: 0.1, bottom: 0.7 },
+        ],
+      },
+    ],
+  },
+  {
+    provider: 'zelle',
+    name: 'Zelle',
+    keywords: [/\bzelle\b/i],
+    accents: [{ name: 'Zelle purple', color: [109, 30, 212] }],
+    // Zelle screens are rendered inside each bank's own app
+    backgrounds: { light: [WHITE, IOS_GROUPED_LIGHT], dark: [BLACK, IOS_GROUPED_DARK] },
+    eras: [
+      {
+        id: 'current',
+        from: '2017-06-01',
+        fonts: ['host bank app font'],
+        icons: ['Zelle Z logo'],
+        layout: [
+          { element: 'amount', label: 'amount', top: 0.05, bottom: 0.6 },
+          { element: 'transactionId', label: 'confirmation number', top: 0.2, bottom: 0.98 },
+        ],
+      },
+    ],
+  },
+];
+
+export interface ProviderClassification {
+  provider: Provider;
+  name: string;
+  // Share of the classification evidence that points at this provider
+  confidence: number;
+  evidence: string[];
+}
+
+// Evidence weights
+const KEYWORD_WEIGHT = 3;
+const PARTY_WEIGHT = 2;
+const ACCENT_WEIGHT = 2;
+const MIN_SCORE = 2;
+
+// Colors closer than this (Euclidean RGB) are the same brand color
+export const ACCENT_MATCH_DISTANCE = 28;
+const SAMPLE_TARGET = 120_000;
+
+export function classifyProvider(
+  lines: OcrLine[],
+  transaction: Transaction | null,
+  accent: Rgb | null
+): ProviderClassification | null {
+  const scores = new Map<Provider, { score: number; evidence: string[] }>();
+  const add = (provider: Provider, weight: number, reason: string) => {
+    const entry = scores.get(provider) ?? { score: 0, evidence: [] };
+    entry.score += weight;
+    entry.evidence.push(reason);
+    scores.set(provider, entry);
+  };
+
+  for (const template of PROVIDER_TEMPLATES) {
+    for (const keyword of template.keywords) {
+      const line = lines.find((candidate) => keyword.test(candidate.text));
+      if (line) add(template.provider, KEYWORD_WEIGHT, `text "${line.text}"`);
+    }
+    if (accent) {
+      const closest = Math.min(...template.accents.map(({ color }) => colorDistance(accent, color)));
+      if (closest < ACCENT_MATCH_DISTANCE) add(template.provider, ACCENT_WEIGHT, `accent color ${toHex(accent)}`);
+    }
+  }
+
+  // $cashtags exist only on Cash App; @handles are Venmo's usernames
+  const parties = [transaction?.recipient, transaction?.sender];
+  if (parties.some((party) => party?.kind === 'cashtag')) add('cashapp', PARTY_WEIGHT, '$cashtag counterparty');
+  if (parties.some((party) => party?.kind === 'handle')) add('venmo', PARTY_WEIGHT / 2, '@handle counterparty');
+
+  const ranked = [...scores.entries()].sort(([, a], [, b]) => b.score - a.score);
+  if (ranked.length === 0 || ranked[0][1].score < MIN_SCORE) return null;
+
+  const total = ranked.reduce((sum, [, entry]) => sum + entry.score, 0);
+  const [provider, best] = ranked[0];
+  return {
+    provider,
+    name: PROVIDER_TEMPLATES.find((template) => template.provider === provider)!.name,
+    confidence: Math.round((best.score / total) * 100) / 100,
+    evidence: best.evidence,
+  };
+}
+
+export const colorDistance = (a: Rgb, b: Rgb) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+export const toHex = (color: Rgb) => `#${color.map((value) => value.toString(16).padStart(2, '0')).join('').toUpperCase()}`;
+
+export function hue([r, g, b]: Rgb): number {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  if (max === min) return 0;
+  const delta = max - min;
+  const h = max === r ? ((g - b) / delta) % 6 : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+  return (h * 60 + 360) % 360;
+}
+
+// Most common saturated color: brand accents fill buttons, badges and icons,
+// while text and backgrounds are near-neutral
+export function dominantAccent(image: DecodedImage): Rgb | null {
+  const { width, height, rgba } = image;
+  const step = Math.max(1, Math.floor(Math.sqrt((width * height) / SAMPLE_TARGET)));
+  const bins = new Map<number, { count: number; r: number; g: number; b: number }>();
+
+  for (let y = 0; y < height; y += step) {
+    for (let x = 0; x < width; x += step) {
+      const i = (y * width + x) * 4;
+      const r = rgba[i], g = rgba[i + 1], b = rgba[i + 2];
+      const max = Math.max(r, g, b);
+      const min = Math.min(r, g, b);
+      if (max < 64 || (max - min) / max < 0.45) continue;
+      // 5 bits per channel
+      const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+      const bin = bins.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+      bin.count++;
+      bin.r += r;
+      bin.g += g;
+      bin.b += b;
+      bins.set(key, bin);
+    }
+  }
+
+  let best: { count: number; r: number; g: number; b: number } | null = null;
+  for (const bin of bins.values()) {
+    if (!best || bin.count > best.count) best = bin;
+  }
+  // A handful of pixels is anti-aliasing, not an accent
+  if (!best || best.count < 50) return null;
+  return [Math.round(best.r / best.count), Math.round(best.g / best.count), Math.round(best.b / best.count)];
+}
@@ -0,0 +1,37 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { DEFAULT_POLICY, loadPolicy, scoreFindings } from './scoring.ts';
+
+const withPolicy = (value: unknown) => {
+  Deno.env.set('SCORING_POLICY', JSON.stringify(value));
+  try {
+    return loadPolicy();
+  } finally {
+    Deno.env.delete('SCORING_POLICY');
+  }
+};
+
+const output = {
+  detector: { id: 'metadata', version: '1.0.0', category: 'metadata' as const },
+  finding: { type: 'warning' as const, code: 'META_EXIF_MISSING', message: 'No EXIF', weight: 10 },
+};
+
+Deno.test('loadPolicy merges valid overrides with the defaults', () => {
+  const policy = withPolicy({ weights: { META_EXIF_MISSING: 5 }, thresholds: { authentic: 60 } });
+  assertEquals(policy.weights, { META_EXIF_MISSING: 5 });
+  assertEquals(policy.thresholds, { authentic: 60, flagged: DEFAULT_POLICY.thresholds.flagged });
+  assertEquals(scoreFindings([output], policy).confidence, 95);
+});
+
+Deno.test('loadPolicy falls back to the default policy on a malformed field', () => {
+  for (const value of [
+    { weights: { META_EXIF_MISSING: '5' } },
+    { thresholds: { authentic: null } },
+    { base: 'high' },
+    { threshold: { authentic: 60 } },
+    ['not', 'an', 'object'],
+  ]) {
+    const policy = withPolicy(value);
+    assertEquals(policy, DEFAULT_POLICY);
+    assertEquals(scoreFindings([output], policy).confidence, 90);
+  }
+});
@@ -0,0 +1,117 @@
+import { z } from 'https://esm.sh/zod@3.25.76';
+import type { DetectorOutput } from './detector.ts';
+
+export interface ScoringPolicy {
+  // Confidence before any penalty
+  base: number;
+  // Penalty per finding code, replacing the detector's own weight
+  weights: Record<string, number>;
+  // Multiplier per detector id, 0 mutes a detector without hiding its findings
+  detectorWeights: Record<string, number>;
+  // Most a single detector can take off the confidence
+  caps: Record<string, number>;
+  // Outcomes that make the image inauthentic regardless of confidence
+  mustFail: {
+    critical: boolean;
+    editing: boolean;
+    codes: string[];
+  };
+  thresholds: {
+    // Minimum confidence for an authentic verdict
+    authentic: number;
+    // Minimum when critical or editing findings exist but do not force a failure
+    flagged: number;
+  };
+  // Detector ids whose findings are dropped before scoring; they still run, so the
+  // cached run stays valid when one is enabled again
+  disabled: string[];
+}
+
+export const DEFAULT_POLICY: ScoringPolicy = {
+  base: 100,
+  weights: {},
+  detectorWeights: {},
+  caps: {},
+  mustFail: { critical: true, editing: true, codes: [] },
+  thresholds: { authentic: 50, flagged: 70 },
+  disabled: [],
+};
+
+const penalty = z.number().finite();
+const percentage = z.number().min(0).max(100);
+
+// Unknown keys are rejected too, since a misspelled field would silently do nothing
+const PolicyOverridesSchema = z.object({
+  base: percentage,
+  weights: z.record(penalty),
+  detectorWeights: z.record(penalty),
+  caps: z.record(penalty.nonnegative()),
+  mustFail: z.object({ critical: z.boolean(), editing: z.boolean(), codes: z.array(z.string()) }).partial().strict(),
+  thresholds: z.object({ authentic: percentage, flagged: percentage }).partial().strict(),
+  disabled: z.array(z.string()),
+}).partial().strict();
+
+// SCORING_POLICY holds a JSON object with any subset of the policy fields
+export function loadPolicy(): ScoringPolicy {
+  const raw = Deno.env.get('SCORING_POLICY');
+  if (!raw) return DEFAULT_POLICY;
+  try {
+    const overrides = PolicyOverridesSchema.parse(JSON.parse(raw));
+    return {
+      ...DEFAULT_POLICY,
+      ...overrides,
+      mustFail: { ...DEFAULT_POLICY.mustFail, ...overrides.mustFail },
+      thresholds: { ...DEFAULT_POLICY.thresholds, ...overrides.thresholds },
+    };
+  } catch (error) {
+    console.error('Invalid SCORING_POLICY, using the default policy:', error);
+    return DEFAULT_POLICY;
+  }
+}
+
+export interface ScoredFinding extends DetectorOutput {
+  // Confidence actually removed by this finding after weights and caps
+  contribution: number;
+}
+
+export interface Score {
+  authentic: boolean;
+  confidence: number;
+  editingDetected: boolean;
+  metadataInconsistencies: boolean;
+  findings: ScoredFinding[];
+}
+
+export function scoreFindings(outputs: DetectorOutput[], policy: ScoringPolicy): Score {
+  const spent = new Map<string, number>();
+  let confidence = policy.base;
+
+  const findings = outputs.map((output): ScoredFinding => {
+    const { detector, finding } = output;
+    const weight = (policy.weights[finding.code] ?? finding.weight) * (policy.detectorWeights[detector.id] ?? 1);
+    const used = spent.get(detector.id) ?? 0;
+    const cap = policy.caps[detector.id] ?? Infinity;
+    const contribution = Math.max(0, Math.min(weight, cap - used));
+    spent.set(detector.id, used + contribution);
+    confidence -= contribution;
+    return { ...output, contribution };
+  });
+
+  confidence = Math.max(0, Math.min(100, confidence));
+  const editingDetected = findings.some(({ finding }) => finding.editing);
+  const metadataInconsistencies = findings.some(({ finding }) => finding.metadata);
+  const hasCritical = findings.some(({ finding }) => finding.type === 'critical');
+
+  const failed = (policy.mustFail.critical && hasCritical) ||
+    (policy.mustFail.editing && editingDetected) ||
+    findings.some(({ finding }) => policy.mustFail.codes.includes(finding.code));
+  const threshold = hasCritical || editingDetected ? policy.thresholds.flagged : policy.thresholds.authentic;
+
+  return {
+    authentic: !failed && confidence >= threshold,
+    confidence,
+    editingDetected,
+    metadataInconsistencies,
+    findings,
+  };
+}
@@ -0,0 +1,394 @@
+import type { Box } from './copy-move.ts';
+import type { Cutout, ResolutionCheck } from './devices.ts';
+import type { DecodedImage } from './image.ts';
+import type { OcrLine } from './ocr.ts';
+import { colorDistance, toHex, type Rgb } from './providers.ts';
+
+export type StatusBarStyle = 'iOS' | 'Android' | 'unknown';
+
+export interface StatusBarIssue {
+  kind: 'pasted' | 'alignment' | 'battery' | 'layout' | 'style' | 'cutout';
+  severity: 'info' | 'warning';
+  message: string;
+  box?: Box;
+}
+
+export interface StatusBarAnalysis {
+  // Height of the bar in pixels, measured from the top edge
+  height: number;
+  background: Rgb | null;
+  style: StatusBarStyle;
+  styleEvidence: string[];
+  clock: { text: string; position: 'left' | 'center' | 'right'; box: Box } | null;
+  battery: {
+    percent?: number;
+    // Share of the icon's interior that is filled, in [0, 1]
+    fill?: number;
+    box?: Box;
+  } | null;
+  signal: { bars: number; filled: number; box: Box } | null;
+  carrier: string | null;
+  network: string | null;
+  cutout: { expected: Cutout | null; drawn: 'notch' | 'island' | null; box?: Box };
+  issues: StatusBarIssue[];
+}
+
+// The bar never extends below this share of the screen height
+const MAX_BAR_FRACTION = 0.07;
+// Used when OCR found nothing to measure the bar by
+const DEFAULT_BAR_FRACTION = 0.045;
+// Pixels this far from the bar background are icon or text strokes
+const FOREGROUND_DISTANCE = 60;
+// Element backgrounds further than this from the bar's are patches
+const PATCH_DISTANCE = 24;
+// Vertical centers may differ by this share of the bar height
+const ALIGNMENT_TOLERANCE = 0.2;
+// Gap allowed between the battery fill and the percentage it shows
+const BATTERY_FILL_TOLERANCE = 0.2;
+// Pixels this dark are a drawn notch or Dynamic Island
+const CUTOUT_DARKNESS = 24;
+
+const TIME_PATTERN = /^\s*(\d{1,2}):(\d{2})(?:\s?([ap]\.?m\.?))?\s*$/i;
+const PERCENT_PATTERN = /\b(\d{1,3})\s?%/;
+const NETWORK_PATTERN = /\b(5G\s?(?:UW|UC|E|\+)?|LTE\+?|4G\+?|3G|H\+|E)\b/;
+
+interface Component {
+  box: Box;
+  pixels: number;
+  // Mean distance of the component's pixels from the background
+  contrast: number;
+}
+
+const centerX = (box: Box) => box.x + box.width / 2;
+const centerY = (box: Box) => box.y + box.height / 2;
+const overlaps = (a: Box, b: Box) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+function pixel(image: DecodedImage, x: number, y: number): Rgb {
+  const i = (y * image.width + x) * 4;
+  return [image.rgba[i], image.rgba[i + 1], image.rgba[i + 2]];
+}
+
+function medianColor(image: DecodedImage, box: Box): Rgb | null {
+  const channels: number[][] = [[], [], []];
+  const step = Math.max(1, Math.floor(Math.sqrt((box.width * box.height) / 4000)));
+  for (let y = Math.max(0, box.y); y < Math.min(image.height, box.y + box.height); y += step) {
+    for (let x = Math.max(0, box.x); x < Math.min(image.width, box.x + box.width); x += step) {
+      const [r, g, b] = pixel(image, x, y);
+      channels[0].push(r);
+      channels[1].push(g);
+      channels[2].push(b);
+    }
+  }
+  if (channels[0].length === 0) return null;
+  const median = (values: number[]) => values.sort((a, b) => a - b)[Math.floor(values.length / 2)];
+  return [median(channels[0]), median(channels[1]), median(channels[2])];
+}
+
+// 4-connected components of foreground pixels inside the bar
+function findComponents(image: DecodedImage, barHeight: number, background: Rgb): Component[] {
+  const { width } = image;
+  const visited = new Uint8Array(width * barHeight);
+  const foreground = (x: number, y: number) => colorDistance(pixel(image, x, y), background) > FOREGROUND_DISTANCE;
+  const components: Component[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < width * barHeight; start++) {
+    if (visited[start] || !foreground(start % width, Math.floor(start / width))) continue;
+    visited[start] = 1;
+    stack.push(start);
+    let minX = width, minY = barHeight, maxX = 0, maxY = 0, pixels = 0, contrast = 0;
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      const x = index % width;
+      const y = Math.floor(index / width);
+      pixels++;
+      contrast += colorDistance(pixel(image, x, y), background);
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+      for (const [nx, ny] of [[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]]) {
+        if (nx < 0 || ny < 0 || nx >= width || ny >= barHeight) continue;
+        const next = ny * width + nx;
+        if (visited[next] || !foreground(nx, ny)) continue;
+        visited[next] = 1;
+        stack.push(next);
+      }
+    }
+    components.push({
+      box: { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 },
+      pixels,
+      contrast: contrast / pixels,
+    });
+  }
+  return components;
+}
+
+// The battery body is a wide outlined rectangle at the right of the bar
+function findBattery(components: Component[], width: number, barHeight: number): Component | null {
+  const candidates = components.filter(({ box }) => {
+    const aspect = box.width / box.height;
+    return aspect >= 1.6 && aspect <= 2.8 &&
+      box.height >= barHeight * 0.2 && box.height <= barHeight * 0.6 &&
+      box.x > width * 0.6;
+  });
+  return candidates.sort((a, b) => b.box.x - a.box.x)[0] ?? null;
+}
+
+// Filled share of the battery interior, read along its middle row
+function batteryFill(image: DecodedImage, body: Box, background: Rgb): number {
+  const inset = Math.max(1, Math.round(body.height * 0.2));
+  const y = Math.round(centerY(body));
+  const start = body.x + inset;
+  const end = body.x + body.width - inset;
+  if (end <= start) return 0;
+  let filled = 0;
+  for (let x = start; x < end; x++) {
+    if (colorDistance(pixel(image, x, y), background) <= FOREGROUND_DISTANCE) break;
+    filled++;
+  }
+  return filled / (end - start);
+}
+
+// iOS draws signal strength as separate bars of rising height on a shared baseline
+function findSignalBars(components: Component[], battery: Component | null, width: number, barHeight: number) {
+  const bars = components
+    .filter(({ box }) =>
+      box.height >= box.width * 1.1 && box.width <= barHeight * 0.2 && box.height >= barHeight * 0.08 &&
+      box.x > width * 0.55 && (!battery || box.x < battery.box.x)
+    )
+    .sort((a, b) => a.box.x - b.box.x);
+
+  for (let i = 0; i < bars.length; i++) {
+    const run = [bars[i]];
+    for (let j = i + 1; j < bars.length; j++) {
+      const previous = run[run.length - 1];
+      const baseline = Math.abs((bars[j].box.y + bars[j].box.height) - (previous.box.y + previous.box.height));
+      const gap = bars[j].box.x - (previous.box.x + previous.box.width);
+      if (baseline > barHeight * 0.06 || gap > previous.box.width * 2 || bars[j].box.height <= previous.box.height) break;
+      run.push(bars[j]);
+    }
+    if (run.length >= 3 && run.length <= 5) {
+      const strongest = Math.max(...run.map((bar) => bar.contrast));
+      const x = run[0].box.x;
+      const y = Math.min(...run.map((bar) => bar.box.y));
+      const right = run[run.length - 1].box.x + run[run.length - 1].box.width;
+      const bottom = Math.max(...run.map((bar) => bar.box.y + bar.box.height));
+      return {
+        bars: run.length,
+        // Bars without signal are drawn dimmed
+        filled: run.filter((bar) => bar.contrast >= strongest * 0.75).length,
+        box: { x, y, width: right - x, height: bottom - y },
+      };
+    }
+  }
+  return null;
+}
+
+// Screenshots are rendered without the cutout, so a dark notch or pill drawn
+// at the top center comes from a device frame or a photo of the screen
+function findDrawnCutout(image: DecodedImage, barHeight: number, background: Rgb) {
+  if (Math.max(...background) < CUTOUT_DARKNESS * 3) return null;
+  const { width } = image;
+  let minX = width, maxX = 0, minY = barHeight, maxY = 0, count = 0;
+  for (let y = 0; y < barHeight; y++) {
+    for (let x = Math.floor(width * 0.25); x < Math.ceil(width * 0.75); x++) {
+      if (Math.max(...pixel(image, x, y)) > CUTOUT_DARKNESS) continue;
+      count++;
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+    }
+  }
+  if (count === 0) return null;
+  const box = { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+  const solid = count / (box.width * box.height) > 0.6;
+  const centered = Math.abs(centerX(box) - width / 2) < width * 0.03;
+  if (!solid || !centered || box.width < width * 0.2 || box.width > width * 0.5) return null;
+  return { shape: minY <= 2 ? 'notch' as const : 'island' as const, box };
+}
+
+function expectedCutout(resolution: ResolutionCheck | null): Cutout | null {
+  if (!resolution || resolution.classification === 'unknown') return null;
+  const cutouts = new Set(resolution.matches.map((device) => device.cutout));
+  return cutouts.size === 1 ? resolution.matches[0].cutout ?? null : null;
+}
+
+export function analyzeStatusBar(
+  image: DecodedImage | null,
+  lines: OcrLine[] | null,
+  resolution: ResolutionCheck | null,
+  size: { width: number; height: number } | null
+): StatusBarAnalysis | null {
+  if (!size) return null;
+  const issues: StatusBarIssue[] = [];
+  const barLines = (lines ?? []).filter((line) => line.box && centerY(line.box) < size.height * MAX_BAR_FRACTION);
+  const textBottom = Math.max(0, ...barLines.map((line) => line.box!.y + line.box!.height));
+  const height = Math.round(Math.min(
+    size.height * MAX_BAR_FRACTION,
+    textBottom > 0 ? textBottom * 1.25 : size.height * DEFAULT_BAR_FRACTION
+  ));
+
+  const clockLine = barLines.find((line) => TIME_PATTERN.test(line.text));
+  const clock = clockLine ? {
+    text: clockLine.text.trim(),
+    position: centerX(clockLine.box!) < size.width * 0.35 ? 'left' as const
+      : centerX(clockLine.box!) > size.width * 0.65 ? 'right' as const : 'center' as const,
+    box: clockLine.box!,
+  } : null;
+  const percentLine = barLines.find((line) => PERCENT_PATTERN.test(line.text));
+  const percent = percentLine ? Number(percentLine.text.match(PERCENT_PATTERN)![1]) : undefined;
+  const networkLine = barLines.find((line) => NETWORK_PATTERN.test(line.text));
+  const network = networkLine?.text.match(NETWORK_PATTERN)?.[1] ?? null;
+  const carrierLine = barLines.find((line) =>
+    line !== clockLine && line !== percentLine && /[a-z]{2,}/i.test(line.text.replace(NETWORK_PATTERN, ''))
+  );
+  const carrier = carrierLine ? carrierLine.text.replace(NETWORK_PATTERN, '').trim() : null;
+
+  let background: Rgb | null = null;
+  let battery: StatusBarAnalysis['battery'] = percent !== undefined ? { percent } : null;
+  let signal: StatusBarAnalysis['signal'] = null;
+  let drawn: ReturnType<typeof findDrawnCutout> = null;
+
+  if (image && height > 0) {
+    background = medianColor(image, { x: 0, y: 0, width: image.width, height });
+  }
+
+  if (image && background) {
+    const components = findComponents(image, height, background);
+    const body = findBattery(components, image.width, height);
+    signal = findSignalBars(components, body, image.width, height);
+    drawn = findDrawnCutout(image, height, background);
+
+    if (body) {
+      // iOS 16 and later print the percentage inside the icon, which hides the fill
+      const labelInside = percentLine?.box ? overlaps(percentLine.box, body.box) : false;
+      const fill = labelInside ? undefined : batteryFill(image, body.box, background);
+      battery = { percent, fill, box: body.box };
+      if (fill !== undefined && percent !== undefined && Math.abs(fill - percent / 100) > BATTERY_FILL_TOLERANCE) {
+        issues.push({
+          kind: 'battery',
+          severity: 'warning',
+          message: `the battery icon is ${Math.round(fill * 100)}% full but the percentage reads ${percent}%`,
+          box: body.box,
+        });
+      }
+    }
+
+    // Status bar text is drawn straight on the bar, so a differently colored
+    // block behind an element means it was pasted in
+    for (const [label, line] of [['clock', clockLine], ['battery percentage', percentLine], ['carrier', carrierLine]] as const) {
+      if (!line?.box) continue;
+      const behind = medianColor(image, line.box);
+      if (behind && colorDistance(behind, background) > PATCH_DISTANCE) {
+        issues.push({
+          kind: 'pasted',
+          severity: 'warning',
+          message: `the ${label} sits on a ${toHex(behind)} patch while the status bar is ${toHex(background)}`,
+          box: line.box,
+        });
+      }
+    }
+
+    const anchors: Array<[string, Box]> = [];
+    if (clock) anchors.push(['clock', clock.box]);
+    if (body) anchors.push(['battery icon', body.box]);
+    if (signal) anchors.push(['signal bars', signal.box]);
+    if (anchors.length >= 2) {
+      const centers = anchors.map(([, box]) => centerY(box)).sort((a, b) => a - b);
+      const median = centers[Math.floor(centers.length / 2)];
+      for (const [label, box] of anchors) {
+        if (Math.abs(centerY(box) - median) > height * ALIGNMENT_TOLERANCE) {
+          issues.push({
+            kind: 'alignment',
+            severity: 'warning',
+            message: `the ${label} is ${Math.round(Math.abs(centerY(box) - median))}px off the line the other status bar items share`,
+            box,
+          });
+        }
+      }
+    }
+  }
+
+  // iOS never shows AM/PM or a right-hand clock; Android draws signal as a
+  // single triangle and puts the percentage after the battery
+  const evidence: Record<'iOS' | 'Android', string[]> = { iOS: [], Android: [] };
+  if (clock && /[ap]\.?m/i.test(clock.text)) evidence.Android.push('AM/PM in the clock');
+  if (clock?.position === 'center') evidence.iOS.push('centered clock');
+  if (clock?.position === 'right') evidence.Android.push('right-aligned clock');
+  if (signal) evidence.iOS.push(`${signal.bars} separate signal bars`);
+  if (percentLine?.box && battery?.box && !overlaps(percentLine.box, battery.box)) {
+    if (percentLine.box.x > battery.box.x) evidence.Android.push('percentage after the battery icon');
+    else evidence.iOS.push('percentage before the battery icon');
+  }
+  const style: StatusBarStyle = evidence.iOS.length > evidence.Android.length ? 'iOS'
+    : evidence.Android.length > evidence.iOS.length ? 'Android' : 'unknown';
+  const styleEvidence = style === 'unknown' ? [] : evidence[style];
+
+  const platforms = new Set(
+    resolution && resolution.classification !== 'unknown' ? resolution.matches.map((device) => device.platform) : []
+  );
+  if (style !== 'unknown' && platforms.size > 0 && !platforms.has(style)) {
+    issues.push({
+      kind: 'style',
+      severity: 'warning',
+      message: `the status bar is drawn in ${style} style (${styleEvidence.join(', ')}) but the dimensions belong to ${[...platforms].join('/')} devices`,
+    });
+  }
+
+  const expected = expectedCutout(resolution);
+  if (expected === 'notch' || expected === 'island') {
+    const shape = expected === 'notch' ? 'notch' : 'Dynamic Island';
+    if (clock?.position === 'center') {
+      issues.push({
+        kind: 'layout',
+        severity: 'warning',
+        message: `the centered clock is the layout of iPhones without a ${shape}, but the dimensions belong to a ${shape} model`,
+        box: clock.box,
+      });
+    }
+    const centered = barLines.filter((line) => Math.abs(centerX(line.box!) - size.width / 2) < size.width * 0.12);
+    for (const line of centered) {
+      if (line === clockLine && clock?.position === 'center') continue;
+      issues.push({
+        kind: 'layout',
+        severity: 'warning',
+        message: `"${line.text}" sits where the ${shape} covers the screen`,
+        box: line.box!,
+      });
+    }
+    if (carrier && platforms.has('iOS') && platforms.size === 1) {
+      issues.push({
+        kind: 'layout',
+        severity: 'warning',
+        message: `the carrier name "${carrier}" appears, but iPhones with a ${shape} only show it in Control Center`,
+        box: carrierLine?.box ?? undefined,
+      });
+    }
+  }
+
+  if (drawn) {
+    issues.push({
+      kind: 'cutout',
+      severity: 'warning',
+      message: `a ${drawn.shape === 'notch' ? 'notch' : 'Dynamic Island'} is drawn into the image; screenshots never include the cutout, so this comes from a device frame or mockup`,
+      box: drawn.box,
+    });
+  }
+
+  return {
+    height,
+    background,
+    style,
+    styleEvidence,
+    clock,
+    battery,
+    signal,
+    carrier,
+    network,
+    cutout: { expected, drawn: drawn?.shape ?? null, box: drawn?.box },
+    issues,
+  };
+}
@@ -0,0 +1,71 @@
+import { countTiffIfds, parseTiff, readTiffTagBytes, type ExifData } from './exif.ts';
+
+const COMPRESSION_TYPES: Record<number, string> = {
+  1: 'None',
+  2: 'CCITT RLE',
+  5: 'LZW',
+  6: 'JPEG (old-style)',
+  7: 'JPEG',
+  8: 'Deflate',
+  32773: 'PackBits',
+  32946: 'Deflate',
+};
+
+const XML_PACKET_TAG = 0x02BC;
+const ICC_PROFILE_TAG = 0x8773;
+
+export interface TiffInfo {
+  width: number;
+  height: number;
+  pages: number;
+  compression: string;
+  bitsPerSample: number[];
+  // The file's own IFD0 doubles as its EXIF block
+  exif: ExifData | null;
+  xmp?: string;
+  iccProfileSize?: number;
+}
+
+export function isTiff(data: Uint8Array): boolean {
+  return (data[0] === 0x49 && data[1] === 0x49 && data[2] === 0x2A && data[3] === 0x00) ||
+    (data[0] === 0x4D && data[1] === 0x4D && data[2] === 0x00 && data[3] === 0x2A);
+}
+
+export function parseTiffFile(data: Uint8Array): TiffInfo | null {
+  if (!isTiff(data)) return null;
+  const exif = parseTiff(data);
+  if (!exif) return null;
+
+  const asNumber = (value: unknown) => (typeof value === 'number' ? value : 0);
+  const bits = exif.ifd0.BitsPerSample;
+  const compression = asNumber(exif.ifd0.Compression);
+
+  const info: TiffInfo = {
+    width: asNumber(exif.ifd0.ImageWidth),
+    height: asNumber(exif.ifd0.ImageLength),
+    pages: countTiffIfds(data),
+    compression: COMPRESSION_TYPES[compression] ?? `Unknown (${compression})`,
+    bitsPerSample: Array.isArray(bits) ? bits : typeof bits === 'number' ? [bits] : [],
+    exif,
+  };
+
+  const xmp = readTiffTagBytes(data, XML_PACKET_TAG);
+  if (xmp) info.xmp = new TextDecoder().decode(xmp);
+  const icc = readTiffTagBytes(data, ICC_PROFILE_TAG);
+  if (icc) info.iccProfileSize = icc.length;
+
+  return info;
+}
+
+export function analyzeTiff(tiff: TiffInfo): { suspicious: boolean; reasons: string[] } {
+  const reasons: string[] = [];
+
+  if (tiff.pages > 1) {
+    reasons.push(`${tiff.pages} pages, so different viewers may show different content`);
+  }
+  if (tiff.compression.startsWith('JPEG')) {
+    reasons.push('pixel data is JPEG-compressed inside the TIFF container');
+  }
+
+  return { suspicious: reasons.length > 0, reasons };
+}
@@ -0,0 +1,59 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import type { PngInfo } from './png.ts';
+import { analyzeTimestamps, collectTimeSources, type TimeSource } from './timestamps.ts';
+
+const receivedAt = new Date('2024-01-05T16:00:00Z');
+const upload: TimeSource = { id: 'upload', label: 'upload time', raw: receivedAt.toISOString(), instant: receivedAt.toISOString() };
+const statusBar = (raw: string, timeOfDay: number): TimeSource =>
+  ({ id: 'statusBar', label: 'status bar clock', raw, timeOfDay, twelveHour: false });
+const receipt = (raw: string, timeOfDay: number, local?: string): TimeSource =>
+  ({ id: 'receipt', label: 'receipt timestamp', raw, timeOfDay, local, twelveHour: false });
+
+const kinds = (sources: TimeSource[]) => analyzeTimestamps(sources).contradictions.map((contradiction) => contradiction.kind);
+
+const sourcesFor = (options: { pngModified?: string; lastModified?: number }) =>
+  collectTimeSources({
+    statusBarClock: null,
+    transaction: null,
+    exif: null,
+    xmp: null,
+    png: options.pngModified ? { modified: options.pngModified } as PngInfo : null,
+    lastModified: options.lastModified,
+    receivedAt,
+  });
+
+Deno.test('collectTimeSources drops a PNG tIME that is not a real time', () => {
+  for (const modified of ['0-00-00T00:00:00Z', '2024-13-01T00:00:00Z']) {
+    const sources = sourcesFor({ pngModified: modified });
+    assertEquals(sources.map((source) => source.id), ['upload']);
+  }
+});
+
+Deno.test('collectTimeSources drops a file modification time out of the Date range', () => {
+  const sources = sourcesFor({ lastModified: 1e20 });
+  assertEquals(sources.map((source) => source.id), ['upload']);
+});
+
+Deno.test('collectTimeSources keeps valid PNG and file times', () => {
+  const sources = sourcesFor({ pngModified: '2024-01-05T15:00:00Z', lastModified: Date.parse('2024-01-05T15:30:00Z') });
+  assertEquals(sources.map((source) => source.id), ['pngTime', 'fileModified', 'upload']);
+  assert(sources.every((source) => source.instant));
+});
+
+Deno.test('analyzeTimestamps does not compare the clock with a receipt from an earlier day', () => {
+  const sources = [statusBar('10:00', 600), receipt('Jan 3, 2024 3:45 PM', 945, '2024-01-03T15:45'), upload];
+  assertEquals(kinds(sources), []);
+});
+
+Deno.test('analyzeTimestamps flags a clock before a receipt from the same day', () => {
+  // "Today at" receipts carry no date
+  assertEquals(kinds([statusBar('10:00', 600), receipt('Today at 3:45 PM', 945), upload]), ['clock-before-receipt']);
+
+  const capture: TimeSource = { id: 'exifOriginal', label: 'EXIF DateTimeOriginal', raw: '2024:01:05 10:00:00', local: '2024-01-05T10:00', timeOfDay: 600 };
+  const sources = [statusBar('10:00', 600), receipt('Jan 5, 2024 3:45 PM', 945, '2024-01-05T15:45'), capture, upload];
+  assertEquals(kinds(sources).includes('clock-before-receipt'), true);
+});
+
+Deno.test('analyzeTimestamps lets an undated receipt straddle midnight', () => {
+  assertEquals(kinds([statusBar('00:02', 2), receipt('Today at 11:58 PM', 1438), upload]), []);
+});
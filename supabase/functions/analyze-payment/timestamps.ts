@@ -0,0 +1,330 @@
+import type { Box } from './copy-move.ts';
+import { getExifString, parseExifDate, type ExifData } from './exif.ts';
+import type { PngInfo } from './png.ts';
+import type { Transaction } from './transaction.ts';
+import type { XmpInfo } from './xmp.ts';
+
+export type TimeSourceId =
+  | 'statusBar'
+  | 'receipt'
+  | 'exifOriginal'
+  | 'xmpCreate'
+  | 'pngTime'
+  | 'fileModified'
+  | 'upload';
+
+export interface TimeSource {
+  id: TimeSourceId;
+  label: string;
+  // The value as found, before normalization
+  raw: string;
+  // Wall-clock date/time in the device's zone ("2024-01-05T15:45" or "2024-01-05")
+  local?: string;
+  // Minutes since midnight on the wall clock
+  timeOfDay?: number;
+  // Status bars usually drop AM/PM, so 3:15 may be 15:15
+  twelveHour?: boolean;
+  // Absolute time, when the source carries a zone
+  instant?: string;
+  // Where on screen an OCR'd time was read
+  box?: Box;
+}
+
+export interface TimestampContradiction {
+  kind: 'mockup-clock' | 'clock-before-receipt' | 'clock-mismatch' | 'capture-before-payment' | 'stale-capture' | 'file-predates' | 'future';
+  severity: 'info' | 'warning' | 'critical';
+  sources: TimeSourceId[];
+  message: string;
+  regions?: Box[];
+}
+
+export interface TimestampAnalysis {
+  sources: TimeSource[];
+  contradictions: TimestampContradiction[];
+}
+
+// Clocks and rounding on screen allow this much disagreement
+const CLOCK_SKEW_MINUTES = 2;
+// A wall-clock time can be up to this far from UTC
+const MAX_ZONE_OFFSET_MINUTES = 14 * 60;
+// Resubmitting an old receipt is suspicious past this age
+const STALE_CAPTURE_DAYS = 2;
+// The time shown in Apple's marketing images and many mockup templates
+const MOCKUP_TIME = 9 * 60 + 41;
+
+const TIME_PATTERN = /\b(\d{1,2}):(\d{2})(?::\d{2})?\s?([ap]\.?m\.?)?/i;
+
+function parseTime(text: string): { minutes: number; twelveHour: boolean } | null {
+  const match = text.match(TIME_PATTERN);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem) {
+    if (hours === 12) hours = 0;
+    if (meridiem.startsWith('p')) hours += 12;
+  }
+  return { minutes: hours * 60 + minutes, twelveHour: !meridiem && hours >= 1 && hours <= 12 };
+}
+
+function localFromParts(date: string, time?: string): string {
+  return time ? `${date}T${time}` : date;
+}
+
+// Minutes since the epoch, treating a wall-clock time as if it were UTC
+function localMinutes(local: string): number {
+  return Date.parse(`${local.length === 10 ? `${local}T00:00` : local}:00Z`) / 60000;
+}
+
+function instantMinutes(instant: string): number {
+  return Date.parse(instant) / 60000;
+}
+
+function timeOfDayFromLocal(local?: string): number | undefined {
+  const match = local?.match(/T(\d{2}):(\d{2})/);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : undefined;
+}
+
+const formatClock = (minutes: number) =>
+  `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}`;
+
+const clockCandidates = (source: TimeSource) =>
+  source.twelveHour ? [source.timeOfDay!, (source.timeOfDay! + 720) % 1440] : [source.timeOfDay!];
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+// Smallest distance in minutes between two clock readings, allowing a
+// 12-hour reading to be either half of the day
+function clockDistance(a: TimeSource, b: TimeSource): number {
+  let best = Infinity;
+  for (const x of clockCandidates(a)) {
+    for (const y of clockCandidates(b)) {
+      const diff = Math.abs(x - y);
+      best = Math.min(best, diff, 1440 - diff);
+    }
+  }
+  return best;
+}
+
+// Minutes from b's clock reading to the latest reading a could be; negative
+// only when every interpretation of a is earlier than b. Readings without a date
+// may straddle midnight, so the difference wraps to the nearer side of the day.
+function clockDelta(a: TimeSource, b: TimeSource): number {
+  if (a.local || b.local) {
+    return Math.max(...clockCandidates(a)) - Math.min(...clockCandidates(b));
+  }
+  let best = -Infinity;
+  for (const x of clockCandidates(a)) {
+    for (const y of clockCandidates(b)) {
+      const diff = (((x - y) % 1440) + 1440) % 1440;
+      best = Math.max(best, diff > 720 ? diff - 1440 : diff);
+    }
+  }
+  return best;
+}
+
+export function collectTimeSources(options: {
+  statusBarClock: { text: string; box: Box } | null;
+  transaction: Transaction | null;
+  exif: ExifData | null;
+  xmp: XmpInfo | null;
+  png: PngInfo | null;
+  lastModified?: number;
+  receivedAt: Date;
+}): TimeSource[] {
+  const sources: TimeSource[] = [];
+  const { statusBarClock, transaction, exif, xmp, png, lastModified, receivedAt } = options;
+
+  const clockTime = statusBarClock ? parseTime(statusBarClock.text) : null;
+  if (statusBarClock && clockTime) {
+    sources.push({
+      id: 'statusBar',
+      label: 'status bar clock',
+      raw: statusBarClock.text,
+      timeOfDay: clockTime.minutes,
+      twelveHour: clockTime.twelveHour,
+      box: statusBarClock.box,
+    });
+  }
+
+  const receipt = transaction?.dateTime;
+  if (receipt) {
+    const time = parseTime(receipt.value);
+    sources.push({
+      id: 'receipt',
+      label: 'receipt timestamp',
+      raw: receipt.value,
+      local: receipt.iso,
+      timeOfDay: timeOfDayFromLocal(receipt.iso) ?? time?.minutes,
+      twelveHour: receipt.iso?.includes('T') ? false : time?.twelveHour,
+      box: receipt.box ?? undefined,
+    });
+  }
+
+  const original = getExifString(exif, 'DateTimeOriginal');
+  const originalMatch = original?.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2})/);
+  if (original && originalMatch) {
+    const [, year, month, day, hour, minute] = originalMatch;
+    const local = localFromParts(`${year}-${month}-${day}`, `${hour}:${minute}`);
+    const offset = getExifString(exif, 'OffsetTimeOriginal');
+    const zoned = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? parseExifDate(original, offset) : null;
+    sources.push({
+      id: 'exifOriginal',
+      label: 'EXIF DateTimeOriginal',
+      raw: original,
+      local,
+      timeOfDay: timeOfDayFromLocal(local),
+      instant: zoned?.toISOString(),
+    });
+  }
+
+  if (xmp?.createDate) {
+    const match = xmp.createDate.match(/^(\d{4}-\d{2}-\d{2})(?:T(\d{2}:\d{2}))?/);
+    const zoned = /(Z|[+-]\d{2}:\d{2})$/.test(xmp.createDate) ? new Date(xmp.createDate) : null;
+    if (match) {
+      const local = localFromParts(match[1], match[2]);
+      sources.push({
+        id: 'xmpCreate',
+        label: 'XMP CreateDate',
+        raw: xmp.createDate,
+        local,
+        timeOfDay: timeOfDayFromLocal(local),
+        instant: zoned && !isNaN(zoned.getTime()) ? zoned.toISOString() : undefined,
+      });
+    }
+  }
+
+  // tIME is always UTC and records the last modification; out-of-range fields such as
+  // month 13 are not a time at all
+  const pngModified = png?.modified ? new Date(png.modified) : null;
+  if (png?.modified && pngModified && !isNaN(pngModified.getTime())) {
+    sources.push({ id: 'pngTime', label: 'PNG tIME', raw: png.modified, instant: pngModified.toISOString() });
+  }
+
+  // The client reports this, so it may be any number
+  const modified = lastModified ? new Date(lastModified) : null;
+  if (modified && !isNaN(modified.getTime())) {
+    sources.push({ id: 'fileModified', label: 'file modification time', raw: modified.toISOString(), instant: modified.toISOString() });
+  }
+
+  sources.push({ id: 'upload', label: 'upload time', raw: receivedAt.toISOString(), instant: receivedAt.toISOString() });
+
+  return sources;
+}
+
+// Minutes from b to a, with the slack needed when one side is only a wall-clock time
+function compare(a: TimeSource, b: TimeSource): { delta: number; slack: number } | null {
+  if (a.instant && b.instant) return { delta: instantMinutes(a.instant) - instantMinutes(b.instant), slack: 0 };
+  const aMinutes = a.local ? localMinutes(a.local) : a.instant ? instantMinutes(a.instant) : null;
+  const bMinutes = b.local ? localMinutes(b.local) : b.instant ? instantMinutes(b.instant) : null;
+  if (aMinutes === null || bMinutes === null || isNaN(aMinutes) || isNaN(bMinutes)) return null;
+  const mixed = Boolean(a.local) !== Boolean(b.local);
+  // Date-only values cover the whole day
+  const dayWide = (a.local?.length === 10 || b.local?.length === 10) ? 24 * 60 : 0;
+  return { delta: aMinutes - bMinutes, slack: (mixed ? MAX_ZONE_OFFSET_MINUTES : 0) + dayWide };
+}
+
+export function analyzeTimestamps(sources: TimeSource[]): TimestampAnalysis {
+  const contradictions: TimestampContradiction[] = [];
+  const find = (id: TimeSourceId) => sources.find((source) => source.id === id);
+  const statusBar = find('statusBar');
+  const receipt = find('receipt');
+  const upload = find('upload')!;
+  // The moment the screenshot was taken, from the most direct source available
+  const capture = find('exifOriginal') ?? find('xmpCreate');
+
+  if (statusBar?.timeOfDay === MOCKUP_TIME) {
+    contradictions.push({
+      kind: 'mockup-clock',
+      severity: 'warning',
+      sources: ['statusBar'],
+      message: 'The status bar reads 9:41, the time Apple uses in marketing images and that screenshot mockup templates copy',
+    });
+  }
+
+  // A receipt cannot be on screen before the payment it shows. The status bar has no date,
+  // so the clocks only compare when both are known to be on the same day: receipts without
+  // a date are the "Today at ..." kind, and a capture date can place a dated one. An older
+  // receipt opened later shows an earlier time of day than the clock, which proves nothing.
+  const sameDay = receipt && (!receipt.local || (capture?.local && receipt.local.slice(0, 10) === capture.local.slice(0, 10)));
+  if (statusBar?.timeOfDay !== undefined && receipt?.timeOfDay !== undefined && sameDay) {
+    const delta = clockDelta(statusBar, receipt);
+    if (delta < -CLOCK_SKEW_MINUTES) {
+      contradictions.push({
+        kind: 'clock-before-receipt',
+        severity: 'critical',
+        sources: ['statusBar', 'receipt'],
+        message: `The status bar clock (${statusBar.raw}) is ${-delta} minutes earlier than the receipt time (${receipt.raw}), so the screenshot would predate the payment`,
+      });
+    }
+  }
+
+  if (statusBar?.timeOfDay !== undefined && capture?.timeOfDay !== undefined) {
+    const distance = clockDistance(statusBar, capture);
+    if (distance > CLOCK_SKEW_MINUTES) {
+      contradictions.push({
+        kind: 'clock-mismatch',
+        severity: 'warning',
+        sources: ['statusBar', capture.id],
+        message: `The status bar clock reads ${statusBar.raw} but ${capture.label} records ${formatClock(capture.timeOfDay)}, ${distance} minutes apart; both come from the same device clock at capture`,
+      });
+    }
+  }
+
+  if (receipt && capture) {
+    const comparison = compare(capture, receipt);
+    if (comparison && comparison.delta < -(CLOCK_SKEW_MINUTES + comparison.slack)) {
+      contradictions.push({
+        kind: 'capture-before-payment',
+        severity: 'critical',
+        sources: [capture.id, 'receipt'],
+        message: `${capitalize(capture.label)} (${capture.raw}) is before the payment time on the receipt (${receipt.raw}); a screenshot cannot show a payment that had not happened yet`,
+      });
+    } else if (comparison && comparison.delta - comparison.slack > STALE_CAPTURE_DAYS * 24 * 60) {
+      contradictions.push({
+        kind: 'stale-capture',
+        severity: 'warning',
+        sources: [capture.id, 'receipt'],
+        message: `${capitalize(capture.label)} (${capture.raw}) is ${Math.round(comparison.delta / (24 * 60))} days after the payment on the receipt (${receipt.raw})`,
+      });
+    }
+  }
+
+  // The file on disk cannot be older than the screenshot or the payment
+  const fileModified = find('fileModified');
+  if (fileModified) {
+    for (const earlier of [capture, receipt]) {
+      if (!earlier) continue;
+      const comparison = compare(fileModified, earlier);
+      if (comparison && comparison.delta < -(CLOCK_SKEW_MINUTES + comparison.slack)) {
+        contradictions.push({
+          kind: 'file-predates',
+          severity: earlier.id === 'receipt' ? 'critical' : 'warning',
+          sources: ['fileModified', earlier.id],
+          message: `The file was last modified (${fileModified.raw}) before the ${earlier.label} (${earlier.raw})`,
+        });
+      }
+    }
+  }
+
+  for (const source of sources) {
+    if (source.id === 'upload' || source.id === 'statusBar') continue;
+    const comparison = compare(source, upload);
+    if (comparison && comparison.delta > CLOCK_SKEW_MINUTES + comparison.slack) {
+      contradictions.push({
+        kind: 'future',
+        severity: 'critical',
+        sources: [source.id, 'upload'],
+        message: `${capitalize(source.label)} (${source.raw}) is in the future relative to the upload`,
+      });
+    }
+  }
+
+  for (const contradiction of contradictions) {
+    const regions = contradiction.sources.flatMap((id) => find(id)?.box ?? []);
+    if (regions.length > 0) contradiction.regions = regions;
+  }
+
+  return { sources, contradictions };
+}
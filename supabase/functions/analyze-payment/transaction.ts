@@ -0,0 +1,251 @@
+import type { Box } from './copy-move.ts';
+import type { OcrLine } from './ocr.ts';
+
+export type PartyKind = 'cashtag' | 'handle' | 'email' | 'phone' | 'name';
+export type TransactionStatus = 'completed' | 'pending' | 'failed' | 'canceled' | 'refunded';
+
+export interface TransactionField<T = string> {
+  value: T;
+  // OCR text the value was read from
+  text: string;
+  // OCR confidence scaled by how the value was located, in [0, 1]
+  confidence: number;
+  box: Box | null;
+}
+
+export interface TransactionParty extends TransactionField {
+  kind: PartyKind;
+}
+
+export interface TransactionDate extends TransactionField {
+  // Local date/time as written on screen ("2024-01-05T15:45"), when it parses
+  iso?: string;
+}
+
+export interface Transaction {
+  amount?: TransactionField<number>;
+  currency?: TransactionField;
+  sender?: TransactionParty;
+  recipient?: TransactionParty;
+  memo?: TransactionField;
+  transactionId?: TransactionField;
+  dateTime?: TransactionDate;
+  status?: TransactionField<TransactionStatus>;
+}
+
+// How much a value is trusted depending on how it was found
+const LABELED = 0.95;
+const PATTERN = 0.75;
+const FALLBACK = 0.5;
+
+// The status bar occupies roughly the top 5% of a phone screenshot
+const STATUS_BAR_FRACTION = 0.05;
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  'US$': 'USD', 'C$': 'CAD', 'A$': 'AUD', 'MX$': 'MXN', 'R$': 'BRL',
+  '$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY', '₹': 'INR', '₱': 'PHP', '₦': 'NGN',
+};
+const CURRENCY_CODES = 'USD|EUR|GBP|CAD|AUD|MXN|BRL|JPY|INR|PHP|NGN';
+const MONEY_PATTERN = new RegExp(
+  `(US\\$|C\\$|A\\$|MX\\$|R\\$|[$€£¥₹₱₦])\\s?([+-]?\\d[\\d,.\\s]*\\d|\\d)|([+-]?\\d[\\d,.]*\\d|\\d)\\s?(${CURRENCY_CODES})\\b`
+);
+
+const PARTY_PATTERNS: Array<{ kind: PartyKind; pattern: RegExp }> = [
+  { kind: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/ },
+  { kind: 'cashtag', pattern: /\$[A-Za-z][A-Za-z0-9_]{0,19}\b/ },
+  { kind: 'handle', pattern: /@[A-Za-z0-9_][A-Za-z0-9_.-]{1,29}/ },
+  { kind: 'phone', pattern: /(?:\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/ },
+];
+
+const RECIPIENT_LABEL = /^(sent to|paid to|payment to|pay to|you paid|you sent|recipient|to)\b[:\s]*/i;
+const SENDER_LABEL = /^(received from|sent by|paid by|sender|from)\b[:\s]*/i;
+const MEMO_LABEL = /^(what'?s this for\??|description|message|memo|note|for)\b[:\s]*/i;
+const ID_LABEL = /^(transaction (?:id|number)|confirmation(?: number| code| #)?|reference(?: number| id)?|ref(?:erence)? ?#|payment id|order id|identifier|id)\b[:#\s]*/i;
+const AMOUNT_LABEL = /^(amount|total|you paid|you sent|you received)\b[:\s]*/i;
+const STATUS_LABEL = /^status\b[:\s]*/i;
+
+const STATUS_WORDS: Array<{ status: TransactionStatus; pattern: RegExp }> = [
+  { status: 'refunded', pattern: /\brefunded\b/i },
+  { status: 'canceled', pattern: /\bcancell?ed\b/i },
+  { status: 'failed', pattern: /\b(failed|declined|unsuccessful)\b/i },
+  { status: 'pending', pattern: /\b(pending|processing|in progress|scheduled)\b/i },
+  { status: 'completed', pattern: /\b(completed?|successful|success|delivered)\b/i },
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const TIME = '(\\d{1,2}):(\\d{2})(?::\\d{2})?\\s?([ap]\\.?m\\.?)?';
+const DATE_PATTERNS: Array<{ pattern: RegExp; parse: (match: RegExpMatchArray) => string | undefined }> = [
+  {
+    // Jan 5, 2024 at 3:45 PM
+    pattern: new RegExp(`\\b(${MONTHS.join('|')})[a-z]*\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})(?:,?\\s+(?:at\\s+)?${TIME})?`, 'i'),
+    parse: (m) => toIso(Number(m[3]), MONTHS.indexOf(m[1].toLowerCase().slice(0, 3)) + 1, Number(m[2]), m[4], m[5], m[6]),
+  },
+  {
+    // 01/05/2024 3:45 PM, read month first as US payment apps write it
+    pattern: new RegExp(`\\b(\\d{1,2})/(\\d{1,2})/(\\d{2,4})(?:,?\\s+(?:at\\s+)?${TIME})?`, 'i'),
+    parse: (m) => toIso(m[3].length === 2 ? 2000 + Number(m[3]) : Number(m[3]), Number(m[1]), Number(m[2]), m[4], m[5], m[6]),
+  },
+  {
+    pattern: /\b(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2}))?/,
+    parse: (m) => toIso(Number(m[1]), Number(m[2]), Number(m[3]), m[4], m[5]),
+  },
+  {
+    // Relative dates cannot be resolved without knowing when the screenshot was taken
+    pattern: new RegExp(`\\b(today|yesterday)(?:,?\\s+(?:at\\s+)?${TIME})?`, 'i'),
+    parse: () => undefined,
+  },
+];
+
+function toIso(year: number, month: number, day: number, hour?: string, minute?: string, meridiem?: string): string | undefined {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return undefined;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const date = `${year}-${pad(month)}-${pad(day)}`;
+  if (hour === undefined || minute === undefined) return date;
+
+  let hours = Number(hour);
+  const pm = meridiem?.toLowerCase().startsWith('p');
+  if (meridiem && hours === 12) hours = pm ? 12 : 0;
+  else if (pm) hours += 12;
+  return hours < 24 ? `${date}T${pad(hours)}:${minute}` : date;
+}
+
+// Thousands separators vary by locale; a final separator followed by exactly
+// two digits is the decimal point
+function parseAmount(raw: string): number | null {
+  const compact = raw.replace(/\s/g, '');
+  const decimal = compact.match(/^([+-]?[\d.,]*?)[.,](\d{2})$/);
+  const whole = (decimal ? decimal[1] : compact).replace(/[.,]/g, '');
+  const value = Number(`${whole || '0'}${decimal ? `.${decimal[2]}` : ''}`);
+  return Number.isFinite(value) ? Math.abs(value) : null;
+}
+
+const score = (line: OcrLine, weight: number) => Math.round(line.confidence * weight * 100) / 100;
+
+function field<T>(value: T, line: OcrLine, weight: number, text = line.text): TransactionField<T> {
+  return { value, text, confidence: score(line, weight), box: line.box };
+}
+
+// Value for a label: the rest of the label's line, the next line on the same
+// row, or the line below it
+function labeledValue(lines: OcrLine[], index: number, label: RegExp): { text: string; line: OcrLine } | null {
+  const line = lines[index];
+  const rest = line.text.replace(label, '').trim();
+  if (rest.length > 0) return { text: rest, line };
+
+  const box = line.box;
+  if (box) {
+    const sameRow = lines.find((other, i) => i !== index && other.box &&
+      other.box.x > box.x + box.width / 2 &&
+      Math.abs(other.box.y + other.box.height / 2 - (box.y + box.height / 2)) < box.height / 2);
+    if (sameRow) return { text: sameRow.text, line: sameRow };
+  }
+  const next = lines[index + 1];
+  return next ? { text: next.text, line: next } : null;
+}
+
+function findLabeled(lines: OcrLine[], label: RegExp): { text: string; line: OcrLine } | null {
+  for (let i = 0; i < lines.length; i++) {
+    if (label.test(lines[i].text)) {
+      const value = labeledValue(lines, i, label);
+      if (value) return value;
+    }
+  }
+  return null;
+}
+
+function toParty(text: string, line: OcrLine, weight: number): TransactionParty | undefined {
+  for (const { kind, pattern } of PARTY_PATTERNS) {
+    const match = text.match(pattern);
+    if (match) return { ...field(match[0], line, weight), kind };
+  }
+  // Plain display names, without any amount on the same line
+  const name = text.replace(MONEY_PATTERN, '').trim();
+  return name.length > 1 && /[A-Za-z]/.test(name) ? { ...field(name, line, weight * 0.9), kind: 'name' } : undefined;
+}
+
+function readMoney(text: string): { amount: number | null; currency?: string } | null {
+  const match = text.match(MONEY_PATTERN);
+  if (!match) return null;
+  const amount = parseAmount(match[2] ?? match[3]);
+  return { amount, currency: match[1] ? CURRENCY_SYMBOLS[match[1]] : match[4]?.toUpperCase() };
+}
+
+export function extractTransaction(ocrLines: OcrLine[], imageHeight?: number): Transaction {
+  // Status bar clock and battery text would otherwise read as a time and amount
+  const lines = ocrLines.filter((line) =>
+    !(imageHeight && line.box && line.box.y + line.box.height <= imageHeight * STATUS_BAR_FRACTION)
+  );
+  const transaction: Transaction = {};
+
+  // Amount: an explicit label wins, then the tallest money text (the hero amount)
+  const labeledAmount = findLabeled(lines, AMOUNT_LABEL);
+  const labeledMoney = labeledAmount ? readMoney(labeledAmount.text) : null;
+  if (labeledAmount && labeledMoney?.amount != null) {
+    transaction.amount = field(labeledMoney.amount, labeledAmount.line, LABELED, labeledAmount.text);
+    if (labeledMoney.currency) transaction.currency = field(labeledMoney.currency, labeledAmount.line, LABELED, labeledAmount.text);
+  } else {
+    const candidates = lines
+      .map((line) => ({ line, money: readMoney(line.text) }))
+      .filter((candidate) => candidate.money?.amount != null);
+    const hero = [...candidates].sort((a, b) => (b.line.box?.height ?? 0) - (a.line.box?.height ?? 0))[0];
+    if (hero?.money?.amount != null) {
+      const weight = hero.line.box ? PATTERN : FALLBACK;
+      transaction.amount = field(hero.money.amount, hero.line, weight);
+      if (hero.money.currency) transaction.currency = field(hero.money.currency, hero.line, weight);
+    }
+  }
+
+  const recipient = findLabeled(lines, RECIPIENT_LABEL);
+  if (recipient) transaction.recipient = toParty(recipient.text, recipient.line, LABELED);
+  const sender = findLabeled(lines, SENDER_LABEL);
+  if (sender) transaction.sender = toParty(sender.text, sender.line, LABELED);
+
+  // Without labels, the first account identifier on screen is usually the counterparty
+  if (!transaction.recipient && !transaction.sender) {
+    for (const line of lines) {
+      const party = PARTY_PATTERNS.find(({ pattern }) => pattern.test(line.text));
+      if (party) {
+        transaction.recipient = toParty(line.text, line, FALLBACK);
+        break;
+      }
+    }
+  }
+
+  const memo = findLabeled(lines, MEMO_LABEL);
+  if (memo) transaction.memo = field(memo.text, memo.line, LABELED);
+
+  const id = findLabeled(lines, ID_LABEL);
+  if (id) {
+    transaction.transactionId = field(id.text.replace(/^#\s*/, ''), id.line, LABELED, id.text);
+  } else {
+    const hashed = lines.find((line) => /#\s?[A-Z0-9][A-Z0-9-]{5,}/i.test(line.text));
+    const match = hashed?.text.match(/#\s?([A-Z0-9][A-Z0-9-]{5,})/i);
+    if (hashed && match) transaction.transactionId = field(match[1], hashed, PATTERN);
+  }
+
+  for (const { pattern, parse } of DATE_PATTERNS) {
+    const line = lines.find((candidate) => pattern.test(candidate.text));
+    const match = line?.text.match(pattern);
+    if (line && match) {
+      transaction.dateTime = { ...field(match[0], line, PATTERN), iso: parse(match) };
+      break;
+    }
+  }
+
+  const status = findLabeled(lines, STATUS_LABEL);
+  const statusLines = status
+    ? [{ text: status.text, line: status.line, weight: LABELED }]
+    : lines
+      // Short lines only; the words also appear inside longer sentences
+      .filter((line) => line.text.split(/\s+/).length <= 3)
+      .map((line) => ({ text: line.text, line, weight: PATTERN }));
+  for (const candidate of statusLines) {
+    const word = STATUS_WORDS.find(({ pattern }) => pattern.test(candidate.text));
+    if (word) {
+      transaction.status = field(word.status, candidate.line, candidate.weight, candidate.text);
+      break;
+    }
+  }
+
+  return transaction;
+}
@@ -0,0 +1,59 @@
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { readUpload, UploadError } from './upload.ts';
+
+const LIMIT = 1024;
+
+// A body sent with chunked transfer, so no Content-Length announces its size
+const chunked = (chunks: Uint8Array[], headers: Record<string, string>) =>
+  new Request('http://localhost/analyze-payment', {
+    method: 'POST',
+    headers,
+    body: new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(chunk);
+        controller.close();
+      },
+    }),
+    duplex: 'half',
+  } as RequestInit);
+
+const post = (body: BodyInit, headers: Record<string, string>) =>
+  new Request('http://localhost/analyze-payment', { method: 'POST', headers, body });
+
+async function rejectionStatus(req: Request): Promise<number> {
+  const error = await assertRejects(() => readUpload(req, LIMIT), UploadError);
+  return (error as UploadError).status;
+}
+
+Deno.test('readUpload reads a multipart image', async () => {
+  const form = new FormData();
+  form.append('image', new File([new Uint8Array([1, 2, 3])], 'receipt.png'));
+  form.append('lastModified', '1700000000000');
+  const upload = await readUpload(new Request('http://localhost', { method: 'POST', body: form }), LIMIT);
+  assertEquals(upload.data, new Uint8Array([1, 2, 3]));
+  assertEquals(upload.filename, 'receipt.png');
+  assertEquals(upload.lastModified, 1700000000000);
+});
+
+Deno.test('readUpload stops a chunked multipart body at the size limit', async () => {
+  // Past the multipart allowance, and not even valid multipart: the size is what stops it
+  const chunks = Array.from({ length: 80 }, () => new Uint8Array(1024));
+  assertEquals(await rejectionStatus(chunked(chunks, { 'Content-Type': 'multipart/form-data; boundary=x' })), 413);
+});
+
+Deno.test('readUpload rejects a multipart body with the wrong boundary', async () => {
+  const body = '--other\r\nContent-Disposition: form-data; name="image"; filename="a.png"\r\n\r\nabc\r\n--other--\r\n';
+  assertEquals(await rejectionStatus(post(body, { 'Content-Type': 'multipart/form-data; boundary=expected' })), 400);
+});
+
+Deno.test('readUpload rejects a malformed X-Filename header', async () => {
+  const req = post(new Uint8Array(3), { 'Content-Type': 'application/octet-stream', 'X-Filename': '%E0%A4%A' });
+  assertEquals(await rejectionStatus(req), 400);
+});
+
+Deno.test('readUpload rejects malformed JSON and base64', async () => {
+  const json = { 'Content-Type': 'application/json' };
+  assertEquals(await rejectionStatus(post('{oops', json)), 400);
+  assertEquals(await rejectionStatus(post('null', json)), 400);
+  assertEquals(await rejectionStatus(post(JSON.stringify({ image: 'data:image/png;base64,@@@!' }), json)), 400);
+});
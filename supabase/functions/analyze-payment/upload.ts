@@ -0,0 +1,149 @@
+import { decode as decodeBase64 } from 'https://deno.land/std@0.168.0/encoding/base64.ts';
+
+// Screenshots are a few MB at most; anything far larger is not one
+const DEFAULT_MAX_UPLOAD_BYTES = 20 * 1024 * 1024;
+
+// Raw octet-stream bodies carry the file details in headers
+export const UPLOAD_HEADERS = ['x-filename', 'x-last-modified', 'x-client-id'];
+
+// Rejected before analysis; status is the HTTP status to answer with
+export class UploadError extends Error {
+  constructor(public status: 400 | 413 | 415, message: string) {
+    super(message);
+  }
+}
+
+export interface Upload {
+  // Null when the request only names an earlier submission
+  data: Uint8Array | null;
+  filename: string | null;
+  lastModified?: number;
+  clientId?: string;
+  submissionId?: string;
+}
+
+// MAX_UPLOAD_BYTES overrides the size limit
+export function maxUploadBytes(): number {
+  const configured = Number(Deno.env.get('MAX_UPLOAD_BYTES'));
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_MAX_UPLOAD_BYTES;
+}
+
+const tooLarge = (limit: number) =>
+  new UploadError(413, `Image exceeds the ${Math.round(limit / (1024 * 1024))} MB upload limit`);
+
+const optionalNumber = (value: unknown) => {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+};
+
+// Runs a parse step on client input, turning its exception into a 400 with the reason
+async function parseOrReject<T>(what: string, parse: () => T | Promise<T>): Promise<T> {
+  try {
+    return await parse();
+  } catch (error) {
+    throw new UploadError(400, `Invalid ${what}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+const optionalString = (value: unknown) => typeof value === 'string' && value.length > 0 ? value : undefined;
+
+// Reads the body without buffering more than maxBytes, so a huge upload fails early;
+// encoded bodies may exceed the file size limit by their overhead
+async function readLimited(body: ReadableStream<Uint8Array> | null, limit: number, maxBytes = limit): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  if (body) {
+    const reader = body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.length;
+      if (size > maxBytes) {
+        await reader.cancel();
+        throw tooLarge(limit);
+      }
+      chunks.push(value);
+    }
+  }
+  const data = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return data;
+}
+
+// Accepts multipart/form-data with an `image` file part, a raw application/octet-stream
+// body, or the original JSON with a base64 data URL
+export async function readUpload(req: Request, limit = maxUploadBytes()): Promise<Upload> {
+  const contentType = req.headers.get('Content-Type')?.split(';')[0].trim().toLowerCase() ?? '';
+  // Multipart and base64 add some overhead on top of the file itself
+  const encodedLimit = limit * 1.4 + 64 * 1024;
+  const declaredLength = Number(req.headers.get('Content-Length'));
+  if (declaredLength > encodedLimit) {
+    throw tooLarge(limit);
+  }
+
+  if (contentType === 'multipart/form-data') {
+    // Chunked bodies have no Content-Length, so the limit is applied while reading
+    const body = await readLimited(req.body, limit, encodedLimit);
+    const form = await parseOrReject('multipart body', () =>
+      new Response(body, { headers: { 'Content-Type': req.headers.get('Content-Type')! } }).formData()
+    );
+    const image = form.get('image');
+    if (!(image instanceof File)) {
+      throw new UploadError(400, 'No image provided');
+    }
+    if (image.size > limit) {
+      throw tooLarge(limit);
+    }
+    return {
+      data: new Uint8Array(await image.arrayBuffer()),
+      filename: optionalString(form.get('filename')) ?? optionalString(image.name) ?? null,
+      lastModified: optionalNumber(form.get('lastModified')) ?? optionalNumber(image.lastModified),
+      clientId: optionalString(form.get('clientId')),
+    };
+  }
+
+  if (contentType === 'application/octet-stream') {
+    const filename = req.headers.get('X-Filename');
+    return {
+      data: await readLimited(req.body, limit),
+      filename: filename ? await parseOrReject('X-Filename header', () => decodeURIComponent(filename)) : null,
+      lastModified: optionalNumber(req.headers.get('X-Last-Modified')),
+      clientId: optionalString(req.headers.get('X-Client-Id')),
+    };
+  }
+
+  if (contentType === 'application/json' || contentType === '') {
+    const text = new TextDecoder().decode(await readLimited(req.body, limit, encodedLimit));
+    const body = await parseOrReject('JSON body', () => JSON.parse(text));
+    if (typeof body !== 'object' || body === null) {
+      throw new UploadError(400, 'Invalid JSON body: expected an object');
+    }
+    const { image, filename, lastModified, clientId, submissionId } = body;
+    let data: Uint8Array | null = null;
+    if (typeof image === 'string') {
+      // Data URL or bare base64
+      const base64 = image.slice(image.indexOf(',') + 1);
+      data = await parseOrReject('image data', () => {
+        // atob-style decoders skip some malformed input silently, so check the alphabet first
+        if (!/^[A-Za-z0-9+/]*={0,2}$/.test(base64) || base64.length % 4 === 1) throw new Error('not base64');
+        return decodeBase64(base64);
+      });
+      if (data.length > limit) {
+        throw tooLarge(limit);
+      }
+    }
+    return {
+      data,
+      filename: optionalString(filename) ?? null,
+      lastModified: optionalNumber(lastModified),
+      clientId: optionalString(clientId),
+      submissionId: optionalString(submissionId),
+    };
+  }
+
+  throw new UploadError(415, `Unsupported content type ${contentType}; send multipart/form-data, application/octet-stream or JSON`);
+}
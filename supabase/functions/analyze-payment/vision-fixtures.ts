@@ -0,0 +1,54 @@
+import type { VisionTask } from './vision.ts';
+
+// Replies the mock vision provider returns, in the shape each prompt asks for;
+// strings are returned verbatim.
+// OCR boxes are [ymin, xmin, ymax, xmax] on the 0-1000 grid, like Gemini's.
+
+const CASH_APP_RECEIPT = {
+  lines: [
+    { text: '9:52', box: [12, 60, 30, 130], confidence: 0.98 },
+    { text: 'Cash App', box: [70, 400, 95, 600], confidence: 0.97 },
+    { text: '$25.00', box: [180, 330, 250, 670], confidence: 0.99 },
+    { text: 'Sent to $jordanlee', box: [270, 300, 295, 700], confidence: 0.96 },
+    { text: "What's this for", box: [330, 80, 350, 380], confidence: 0.95 },
+    { text: 'Dinner', box: [330, 780, 350, 920], confidence: 0.96 },
+    { text: 'Status', box: [380, 80, 400, 230], confidence: 0.97 },
+    { text: 'Completed', box: [380, 720, 400, 920], confidence: 0.97 },
+    { text: 'Date', box: [430, 80, 450, 180], confidence: 0.97 },
+    { text: 'Mar 14, 2025 at 9:38 PM', box: [430, 520, 450, 920], confidence: 0.95 },
+    { text: 'Transaction ID', box: [480, 80, 500, 360], confidence: 0.96 },
+    { text: '#D3F8K2LQ9', box: [480, 660, 500, 920], confidence: 0.94 },
+  ],
+};
+
+export const VISION_FIXTURES: Record<string, Record<VisionTask, unknown>> = {
+  // An unremarkable receipt: the model sees nothing suspicious
+  clean: {
+    analysis: {
+      clonedRegions: null,
+      lightingInconsistencies: null,
+      pixelManipulation: null,
+      fontInconsistencies: null,
+      colorAnomalies: null,
+      artificialElements: null,
+    },
+    ocr: CASH_APP_RECEIPT,
+  },
+  // The same receipt with the amount reported as retouched
+  edited: {
+    analysis: {
+      clonedRegions: null,
+      lightingInconsistencies: null,
+      pixelManipulation: 'The digits of the amount "$25.00" have soft, blurred edges unlike the surrounding text',
+      fontInconsistencies: 'The amount uses a slightly narrower weight than the rest of the receipt',
+      colorAnomalies: null,
+      artificialElements: null,
+    },
+    ocr: CASH_APP_RECEIPT,
+  },
+  // A model ignoring the output format, which exercises the retry and repair path
+  malformed: {
+    analysis: 'The screenshot looks authentic to me. I did not notice any editing.',
+    ocr: CASH_APP_RECEIPT,
+  },
+};
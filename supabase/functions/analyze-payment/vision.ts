@@ -0,0 +1,197 @@
+import { VISION_FIXTURES } from './vision-fixtures.ts';
+
+export type VisionTask = 'analysis' | 'ocr';
+
+export interface VisionRequest {
+  // Which stage is asking, for logs
+  task: VisionTask;
+  prompt: string;
+  // Data URL of the screenshot
+  image: string;
+  temperature: number;
+  maxTokens: number;
+  // JSON schema the reply must follow, for providers that support structured output
+  schema?: { name: string; schema: Record<string, unknown> };
+}
+
+// The provider answered with an HTTP error; status tells the caller whether retrying can help
+export class VisionRequestError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// A vision model that answers a text prompt about one image
+export interface VisionProvider {
+  id: string;
+  model: string;
+  // Raw text of the model's reply; throws when the model could not be reached
+  complete(request: VisionRequest): Promise<string>;
+}
+
+const LOVABLE_BASE_URL = 'https://ai.gateway.lovable.dev/v1';
+const LOVABLE_MODEL = 'google/gemini-2.5-flash';
+
+type Transport = (url: string, init: RequestInit) => Promise<Response>;
+
+interface OpenAICompatibleOptions {
+  id: string;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  // Sends the HTTP request; the mock provider answers it in-process instead of over the network
+  transport?: Transport;
+}
+
+// Any endpoint that speaks the OpenAI chat completions API with image_url parts
+export function createOpenAICompatibleProvider({ id, baseUrl, model, apiKey, transport = fetch }: OpenAICompatibleOptions): VisionProvider {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  // Cleared after an endpoint rejects strict structured output, so later requests skip it
+  let structuredOutput = true;
+
+  const post = (body: Record<string, unknown>) => transport(endpoint, {
+    method: 'POST',
+    headers: {
+      ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  return {
+    id,
+    model,
+    async complete({ prompt, image, temperature, maxTokens, schema }) {
+      const body = {
+        model,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: prompt },
+              { type: 'image_url', image_url: { url: image } }
+            ]
+          }
+        ],
+        temperature,
+        max_tokens: maxTokens,
+      };
+
+      let response = schema && structuredOutput
+        ? await post({ ...body, response_format: { type: 'json_schema', json_schema: { ...schema, strict: true } } })
+        : await post(body);
+      // Many compatible endpoints reject json_schema outright; the prompt still asks for
+      // the JSON, and the reply is validated and repaired like any other
+      if (schema && structuredOutput && response.status === 400) {
+        console.warn(`${id} rejected structured output, retrying without it:`, await response.text());
+        structuredOutput = false;
+        response = await post(body);
+      }
+
+      if (!response.ok) {
+        throw new VisionRequestError(response.status, `${id} returned ${response.status}: ${await response.text()}`);
+      }
+
+      const data = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+      if (typeof content !== 'string' || content.length === 0) {
+        throw new Error(`${id} returned no content`);
+      }
+      return content;
+    },
+  };
+}
+
+export function createLovableProvider(apiKey: string, model = LOVABLE_MODEL): VisionProvider {
+  return createOpenAICompatibleProvider({ id: 'lovable', baseUrl: LOVABLE_BASE_URL, model, apiKey });
+}
+
+const MOCK_BASE_URL = 'http://vision-mock.local/v1';
+
+const completion = (model: string, content: string) => ({
+  id: 'chatcmpl-mock',
+  object: 'chat.completion',
+  model,
+  choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+});
+
+// Chat completions endpoint that answers from fixtures. It reads the same request body
+// real providers get, and its reply depends only on the fixture and which prompt was sent,
+// so the same input always gets the same payload. It can also be served on its own with
+// std's serve() and used through VISION_PROVIDER=openai.
+export function createMockEndpoint(fixture = 'clean'): (request: Request) => Promise<Response> {
+  const responses = VISION_FIXTURES[fixture];
+  if (!responses) {
+    throw new Error(`Unknown vision fixture "${fixture}"; expected one of ${Object.keys(VISION_FIXTURES).join(', ')}`);
+  }
+  return async (request) => {
+    const body = await request.json().catch(() => null);
+    const parts: Array<{ type?: string; text?: string; image_url?: { url?: string } }> =
+      Array.isArray(body?.messages?.[0]?.content) ? body.messages[0].content : [];
+    const prompt = parts.find((part) => part.type === 'text')?.text;
+    const image = parts.find((part) => part.type === 'image_url')?.image_url?.url;
+    if (request.method !== 'POST' || typeof body?.model !== 'string' || !prompt || !image) {
+      return Response.json(
+        { error: { message: 'Expected a chat completion with a text part and an image_url part' } },
+        { status: 400 }
+      );
+    }
+
+    // Both prompts spell out their JSON format, and only the OCR one has a "lines" array
+    const task: VisionTask = /"lines"\s*:/.test(prompt) ? 'ocr' : 'analysis';
+    const reply = responses[task];
+    return Response.json(completion(body.model, typeof reply === 'string' ? reply : JSON.stringify(reply)));
+  };
+}
+
+// Runs the real OpenAI-compatible request path against the fixture endpoint, so the
+// pipeline, response_format and the retry and repair handling all work offline
+export function createMockProvider(fixture = 'clean'): VisionProvider {
+  const endpoint = createMockEndpoint(fixture);
+  return createOpenAICompatibleProvider({
+    id: 'mock',
+    baseUrl: MOCK_BASE_URL,
+    model: `fixture:${fixture}`,
+    transport: (url, init) => endpoint(new Request(url, init)),
+  });
+}
+
+// VISION_PROVIDER selects the implementation:
+// - lovable (default): LOVABLE_API_KEY, optional VISION_MODEL
+// - openai: VISION_BASE_URL, VISION_MODEL, optional VISION_API_KEY
+// - mock: optional VISION_MOCK_FIXTURE (clean, edited, malformed)
+// Returns null when the selected provider is not configured, which skips AI analysis and OCR.
+// model overrides VISION_MODEL, for ensembles that ask several models.
+export function loadVisionProvider(model = Deno.env.get('VISION_MODEL')): VisionProvider | null {
+  const kind = Deno.env.get('VISION_PROVIDER') ?? 'lovable';
+
+  if (kind === 'lovable') {
+    const apiKey = Deno.env.get('LOVABLE_API_KEY');
+    if (!apiKey) {
+      console.warn('LOVABLE_API_KEY not found; AI analysis and OCR are skipped. Set VISION_PROVIDER=mock to run offline.');
+      return null;
+    }
+    return createLovableProvider(apiKey, model);
+  }
+
+  if (kind === 'openai') {
+    const baseUrl = Deno.env.get('VISION_BASE_URL');
+    if (!baseUrl || !model) {
+      console.error('VISION_PROVIDER=openai requires VISION_BASE_URL and VISION_MODEL; AI analysis and OCR are skipped.');
+      return null;
+    }
+    return createOpenAICompatibleProvider({ id: 'openai', baseUrl, model, apiKey: Deno.env.get('VISION_API_KEY') });
+  }
+
+  if (kind === 'mock') {
+    try {
+      return createMockProvider(Deno.env.get('VISION_MOCK_FIXTURE'));
+    } catch (error) {
+      console.error('Invalid VISION_MOCK_FIXTURE:', error);
+      return null;
+    }
+  }
+
+  console.error(`Unknown VISION_PROVIDER "${kind}"; AI analysis and OCR are skipped.`);
+  return null;
+}
@@ -0,0 +1,193 @@
+import { readAscii, startsWithAscii } from './bytes.ts';
+import { parseTiff, type ExifData } from './exif.ts';
+
+const KNOWN_CHUNKS = new Set(['VP8 ', 'VP8L', 'VP8X', 'ALPH', 'ANIM', 'ANMF', 'ICCP', 'EXIF', 'XMP ']);
+
+// VP8X feature flags
+const FLAG_ICC = 0x20;
+const FLAG_ALPHA = 0x10;
+const FLAG_EXIF = 0x08;
+const FLAG_XMP = 0x04;
+const FLAG_ANIMATION = 0x02;
+
+export interface WebpChunk {
+  type: string;
+  offset: number;
+  length: number;
+}
+
+export interface WebpInfo {
+  // VP8 is lossy, VP8L lossless; animations carry their bitstreams in ANMF frames
+  bitstream: 'VP8' | 'VP8L' | null;
+  lossy: boolean;
+  width: number;
+  height: number;
+  hasAlpha: boolean;
+  animated: boolean;
+  frameCount: number;
+  // Features announced by the VP8X header, when present
+  declared?: { icc: boolean; alpha: boolean; exif: boolean; xmp: boolean; animation: boolean };
+  chunks: WebpChunk[];
+  unknownChunks: string[];
+  iccProfileSize?: number;
+  exif: ExifData | null;
+  xmp?: string;
+  // Difference between the RIFF size field and the bytes actually present
+  riffSizeMismatch: number;
+}
+
+export function isWebp(data: Uint8Array): boolean {
+  return startsWithAscii(data, 'RIFF') && startsWithAscii(data, 'WEBP', 8);
+}
+
+function readUint32LE(data: Uint8Array, offset: number): number {
+  return (data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16) | (data[offset + 3] << 24)) >>> 0;
+}
+
+function readUint24LE(data: Uint8Array, offset: number): number {
+  return data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16);
+}
+
+export function parseWebp(data: Uint8Array): WebpInfo | null {
+  if (!isWebp(data)) return null;
+
+  const info: WebpInfo = {
+    bitstream: null,
+    lossy: false,
+    width: 0,
+    height: 0,
+    hasAlpha: false,
+    animated: false,
+    frameCount: 0,
+    chunks: [],
+    unknownChunks: [],
+    exif: null,
+    riffSizeMismatch: 0,
+  };
+
+  // The RIFF size counts everything after the size field itself
+  const riffEnd = 8 + readUint32LE(data, 4);
+  info.riffSizeMismatch = data.length - riffEnd;
+
+  let offset = 12;
+  const end = Math.min(riffEnd, data.length);
+  while (offset + 8 <= end) {
+    const type = readAscii(data, offset, 4);
+    const length = readUint32LE(data, offset + 4);
+    const bodyEnd = offset + 8 + length;
+    if (bodyEnd > end) break;
+
+    info.chunks.push({ type, offset, length });
+    readChunk(info, type, data.subarray(offset + 8, bodyEnd));
+
+    // Chunks are padded to an even size
+    offset = bodyEnd + (length & 1);
+  }
+
+  const frames = info.chunks.filter((chunk) => chunk.type === 'ANMF').length;
+  info.animated = frames > 0;
+  info.frameCount = frames || (info.bitstream ? 1 : 0);
+
+  return info;
+}
+
+function readChunk(info: WebpInfo, type: string, body: Uint8Array) {
+  switch (type) {
+    case 'VP8 ':
+      info.bitstream ??= 'VP8';
+      info.lossy = true;
+      // Frame tag (3 bytes), start code 9D 01 2A, then 14-bit dimensions
+      if (body.length >= 10 && body[3] === 0x9D && body[4] === 0x01 && body[5] === 0x2A && !info.declared) {
+        info.width = ((body[7] << 8) | body[6]) & 0x3FFF;
+        info.height = ((body[9] << 8) | body[8]) & 0x3FFF;
+      }
+      break;
+    case 'VP8L':
+      info.bitstream ??= 'VP8L';
+      // Signature 0x2F, then width-1 and height-1 in 14 bits each and the alpha hint
+      if (body.length >= 5 && body[0] === 0x2F) {
+        const bits = readUint32LE(body, 1);
+        if (!info.declared) {
+          info.width = (bits & 0x3FFF) + 1;
+          info.height = ((bits >> 14) & 0x3FFF) + 1;
+        }
+        info.hasAlpha ||= ((bits >> 28) & 1) === 1;
+      }
+      break;
+    case 'VP8X':
+      if (body.length >= 10) {
+        const flags = body[0];
+        info.declared = {
+          icc: (flags & FLAG_ICC) !== 0,
+          alpha: (flags & FLAG_ALPHA) !== 0,
+          exif: (flags & FLAG_EXIF) !== 0,
+          xmp: (flags & FLAG_XMP) !== 0,
+          animation: (flags & FLAG_ANIMATION) !== 0,
+        };
+        info.width = readUint24LE(body, 4) + 1;
+        info.height = readUint24LE(body, 7) + 1;
+      }
+      break;
+    case 'ALPH':
+      info.hasAlpha = true;
+      break;
+    case 'ANMF':
+      // The frame header is 16 bytes; its first sub-chunk names the bitstream
+      if (body.length >= 20) {
+        const frameBitstream = readAscii(body, 16, 4);
+        if (frameBitstream === 'VP8 ') info.lossy = true;
+        info.bitstream ??= frameBitstream === 'VP8L' ? 'VP8L' : frameBitstream === 'VP8 ' ? 'VP8' : null;
+      }
+      break;
+    case 'ICCP':
+      info.iccProfileSize = body.length;
+      break;
+    case 'EXIF':
+      // Some writers keep the JPEG-style "Exif\0\0" prefix
+      info.exif = parseTiff(startsWithAscii(body, 'Exif\0\0') ? body.subarray(6) : body);
+      break;
+    case 'XMP ':
+      info.xmp = new TextDecoder().decode(body);
+      break;
+    default:
+      if (!KNOWN_CHUNKS.has(type) && !info.unknownChunks.includes(type)) {
+        info.unknownChunks.push(type);
+      }
+  }
+}
+
+export function analyzeWebp(webp: WebpInfo): { suspicious: boolean; reasons: string[] } {
+  const reasons: string[] = [];
+
+  // Encoders set the VP8X flags from the chunks they write; a mismatch
+  // means chunks were added or removed by hand
+  if (webp.declared) {
+    const present = new Set(webp.chunks.map((chunk) => chunk.type));
+    const checks: Array<[boolean, string, string]> = [
+      [webp.declared.exif, 'EXIF', 'EXIF'],
+      [webp.declared.xmp, 'XMP ', 'XMP'],
+      [webp.declared.icc, 'ICCP', 'ICC profile'],
+    ];
+    for (const [declared, chunk, label] of checks) {
+      if (declared !== present.has(chunk)) {
+        reasons.push(`VP8X header ${declared ? 'announces' : 'omits'} ${label} but the chunk is ${present.has(chunk) ? 'present' : 'missing'}`);
+      }
+    }
+  }
+
+  if (webp.animated) {
+    reasons.push(`animated WebP with ${webp.frameCount} frames`);
+  }
+
+  if (webp.unknownChunks.length > 0) {
+    reasons.push(`unknown chunks: ${webp.unknownChunks.join(', ')}`);
+  }
+
+  if (webp.riffSizeMismatch > 0) {
+    reasons.push(`${webp.riffSizeMismatch} bytes after the RIFF container`);
+  } else if (webp.riffSizeMismatch < 0) {
+    reasons.push('file is shorter than its RIFF header declares');
+  }
+
+  return { suspicious: reasons.length > 0, reasons };
+}
@@ -0,0 +1,189 @@
+import { readAscii, startsWithAscii } from './bytes.ts';
+import { readJpegSegments } from './jpeg.ts';
+
+const STANDARD_XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/\0';
+const EXTENDED_XMP_NAMESPACE = 'http://ns.adobe.com/xmp/extension/\0';
+export const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+
+// Photoshop can list thousands of ancestors; only the count matters beyond a few
+const MAX_ANCESTORS = 20;
+
+// History agents that are image editors rather than capture or conversion tools
+const EDITOR_AGENTS = /(photoshop|lightroom|camera raw|snapseed|gimp|affinity|pixelmator|canva|paint\.net|photopea|luminar|capture one|picsart|facetune|fotor|illustrator)/i;
+
+// Events that write new pixels to disk; "created", "derived" and "copied" only record provenance
+const WRITE_ACTIONS = new Set(['saved', 'converted']);
+
+export interface XmpHistoryEvent {
+  action: string;
+  when?: string;
+  softwareAgent?: string;
+  instanceId?: string;
+  // Parts of the document that changed, e.g. "/" or "/metadata"
+  changed?: string;
+  // Free text describing conversions, e.g. "from image/png to image/jpeg"
+  parameters?: string;
+}
+
+export interface XmpInfo {
+  creatorTool?: string;
+  createDate?: string;
+  modifyDate?: string;
+  metadataDate?: string;
+  documentId?: string;
+  instanceId?: string;
+  originalDocumentId?: string;
+  history: XmpHistoryEvent[];
+  documentAncestors: string[];
+  documentAncestorCount: number;
+  derivedFrom?: { documentId?: string; instanceId?: string };
+  // Set when JPEG extended XMP segments were reassembled into the packet
+  extended: boolean;
+  size: number;
+}
+
+// Returns the standard packet followed by the extended packet it references, if any
+export function extractJpegXmp(data: Uint8Array): { packet: string; extended: boolean } | null {
+  let standard: string | null = null;
+  const extendedParts = new Map<string, { length: number; chunks: Array<{ offset: number; data: Uint8Array }> }>();
+
+  for (const segment of readJpegSegments(data)) {
+    if (segment.marker !== 0xE1) continue;
+
+    if (standard === null && startsWithAscii(segment.data, STANDARD_XMP_NAMESPACE)) {
+      standard = new TextDecoder().decode(segment.data.subarray(STANDARD_XMP_NAMESPACE.length));
+      continue;
+    }
+
+    // Extended XMP: namespace, 32-character GUID, full length and chunk offset, then data
+    const header = EXTENDED_XMP_NAMESPACE.length;
+    if (startsWithAscii(segment.data, EXTENDED_XMP_NAMESPACE) && segment.data.length > header + 40) {
+      const view = new DataView(segment.data.buffer, segment.data.byteOffset, segment.data.byteLength);
+      const guid = readAscii(segment.data, header, 32);
+      const part = extendedParts.get(guid) ?? { length: view.getUint32(header + 32), chunks: [] };
+      part.chunks.push({ offset: view.getUint32(header + 36), data: segment.data.subarray(header + 40) });
+      extendedParts.set(guid, part);
+    }
+  }
+
+  if (standard === null) return null;
+
+  // Only the extension named by the standard packet belongs to it
+  const guid = readProperty(standard, 'xmpNote:HasExtendedXMP');
+  const part = guid ? extendedParts.get(guid) : undefined;
+  if (!part || part.length > 16 * 1024 * 1024) {
+    return { packet: standard, extended: false };
+  }
+
+  const assembled = new Uint8Array(part.length);
+  for (const chunk of part.chunks) {
+    if (chunk.offset + chunk.data.length <= assembled.length) {
+      assembled.set(chunk.data, chunk.offset);
+    }
+  }
+  return { packet: standard + new TextDecoder().decode(assembled), extended: true };
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCharCode(parseInt(dec, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function escapeName(name: string): string {
+  return name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// RDF allows a simple property either as an attribute or as an element,
+// optionally wrapped in an rdf:Alt language alternative
+function readProperty(xml: string, name: string): string | undefined {
+  const escaped = escapeName(name);
+  const attribute = xml.match(new RegExp(`\\s${escaped}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`));
+  if (attribute) return decodeEntities(attribute[1] ?? attribute[2]).trim() || undefined;
+
+  const element = xml.match(new RegExp(`<${escaped}(?:\\s[^>]*)?>([\\s\\S]*?)</${escaped}>`));
+  if (!element) return undefined;
+  const inner = element[1].match(/<rdf:li(?:\s[^>]*)?>([\s\S]*?)<\/rdf:li>/)?.[1] ?? element[1];
+  return decodeEntities(inner.replace(/<[^>]+>/g, '')).trim() || undefined;
+}
+
+function readBlock(xml: string, name: string): string | undefined {
+  const escaped = escapeName(name);
+  return xml.match(new RegExp(`<${escaped}(?:\\s[^>]*)?>([\\s\\S]*?)</${escaped}>`))?.[1];
+}
+
+// List items are either self-closing with attributes or carry child elements
+function readListItems(block: string): string[] {
+  const items: string[] = [];
+  const pattern = /<rdf:li\b([^>]*?)(?:\/>|>([\s\S]*?)<\/rdf:li>)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(block)) !== null) {
+    items.push(`<rdf:li ${match[1]}>${match[2] ?? ''}`);
+  }
+  return items;
+}
+
+export function parseXmp(packet: string, extended = false): XmpInfo {
+  const info: XmpInfo = {
+    creatorTool: readProperty(packet, 'xmp:CreatorTool'),
+    createDate: readProperty(packet, 'xmp:CreateDate'),
+    modifyDate: readProperty(packet, 'xmp:ModifyDate'),
+    metadataDate: readProperty(packet, 'xmp:MetadataDate'),
+    documentId: readProperty(packet, 'xmpMM:DocumentID'),
+    instanceId: readProperty(packet, 'xmpMM:InstanceID'),
+    originalDocumentId: readProperty(packet, 'xmpMM:OriginalDocumentID'),
+    history: [],
+    documentAncestors: [],
+    documentAncestorCount: 0,
+    extended,
+    size: packet.length,
+  };
+
+  const history = readBlock(packet, 'xmpMM:History');
+  if (history) {
+    for (const item of readListItems(history)) {
+      const action = readProperty(item, 'stEvt:action');
+      if (!action) continue;
+      info.history.push({
+        action,
+        when: readProperty(item, 'stEvt:when'),
+        softwareAgent: readProperty(item, 'stEvt:softwareAgent'),
+        instanceId: readProperty(item, 'stEvt:instanceID'),
+        changed: readProperty(item, 'stEvt:changed'),
+        parameters: readProperty(item, 'stEvt:parameters'),
+      });
+    }
+  }
+
+  const ancestors = readBlock(packet, 'photoshop:DocumentAncestors');
+  if (ancestors) {
+    const ids = readListItems(ancestors)
+      .map((item) => decodeEntities(item.replace(/<[^>]+>/g, '')).trim())
+      .filter((id) => id.length > 0);
+    info.documentAncestorCount = ids.length;
+    info.documentAncestors = ids.slice(0, MAX_ANCESTORS);
+  }
+
+  // DerivedFrom is a resource: attributes on a self-closing element or child elements
+  const derivedMatch = packet.match(/<xmpMM:DerivedFrom\b([^>]*?)(?:\/>|>([\s\S]*?)<\/xmpMM:DerivedFrom>)/);
+  if (derivedMatch) {
+    const derived = `<x ${derivedMatch[1]}>${derivedMatch[2] ?? ''}`;
+    const documentId = readProperty(derived, 'stRef:documentID');
+    const instanceId = readProperty(derived, 'stRef:instanceID');
+    if (documentId || instanceId) info.derivedFrom = { documentId, instanceId };
+  }
+
+  return info;
+}
+
+// Saves and conversions recorded by an image editor; each one rewrote the pixels
+export function findEditorEvents(xmp: XmpInfo): XmpHistoryEvent[] {
+  return xmp.history.filter(
+    (event) => WRITE_ACTIONS.has(event.action.toLowerCase()) && EDITOR_AGENTS.test(event.softwareAgent ?? '')
+  );
+}
@@ -0,0 +1,25 @@
+-- Pipeline runs of analyze-payment keyed by the SHA-256 of the uploaded bytes and
+-- the analyzer version, so an identical file is not analyzed (and billed) twice
+create table public.analysis_results (
+  sha256 text not null,
+  analyzer_version text not null,
+  result jsonb not null,
+  created_at timestamptz not null default now(),
+  primary key (sha256, analyzer_version)
+);
+
+-- Every submission, to spot the same file coming back under another name or from another user
+create table public.analysis_submissions (
+  id uuid primary key default gen_random_uuid(),
+  sha256 text not null,
+  filename text,
+  -- "user:<auth id>" for signed-in users, "client:<browser id>" otherwise
+  submitter text,
+  created_at timestamptz not null default now()
+);
+
+create index analysis_submissions_sha256_idx on public.analysis_submissions (sha256, created_at);
+
+-- Only the edge function reads and writes these, with the service role
+alter table public.analysis_results enable row level security;
+alter table public.analysis_submissions enable row level security;
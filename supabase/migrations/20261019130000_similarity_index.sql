@@ -0,0 +1,54 @@
+-- Perceptual hashes and the verdict of each submission, so re-cropped or
+-- re-compressed copies of an earlier screenshot can be found. Hashes are the
+-- 64 hash bits stored as a signed bigint.
+alter table public.analysis_submissions
+  add column phash bigint,
+  add column dhash bigint,
+  add column amount_hash bigint,
+  add column authentic boolean,
+  add column confidence integer;
+
+-- Earlier submissions whose whole-image hashes both, or whose amount region hash, are within the
+-- given Hamming distances. Exact copies are excluded; the SHA-256 lookup reports those.
+create or replace function public.similar_submissions(
+  p_sha256 text,
+  p_phash bigint,
+  p_dhash bigint,
+  p_amount_hash bigint,
+  p_max_distance integer default 10,
+  p_max_amount_distance integer default 4,
+  p_limit integer default 5
+)
+returns table (
+  id uuid,
+  filename text,
+  submitter text,
+  created_at timestamptz,
+  authentic boolean,
+  confidence integer,
+  phash_distance integer,
+  dhash_distance integer,
+  amount_distance integer
+)
+language sql
+stable
+as $$
+  with scored as (
+    select
+      s.*,
+      bit_count((s.phash # p_phash)::bit(64))::integer as phash_distance,
+      bit_count((s.dhash # p_dhash)::bit(64))::integer as dhash_distance,
+      case
+        when s.amount_hash is null or p_amount_hash is null then null
+        else bit_count((s.amount_hash # p_amount_hash)::bit(64))::integer
+      end as amount_distance
+    from public.analysis_submissions s
+    where s.sha256 <> p_sha256 and s.phash is not null
+  )
+  select id, filename, submitter, created_at, authentic, confidence, phash_distance, dhash_distance, amount_distance
+  from scored
+  where greatest(phash_distance, dhash_distance) <= p_max_distance
+    or amount_distance <= p_max_amount_distance
+  order by greatest(phash_distance, dhash_distance), created_at
+  limit p_limit
+$$;
@@ -0,0 +1,5 @@
+-- Findings that belong to the submission rather than the cached run: the timestamp checks
+-- against this upload and the submission history. Kept so revisiting the analysis shows
+-- the same findings and verdict as the original request.
+alter table public.analysis_submissions
+  add column request_checks jsonb;